@@ -1,253 +1,1729 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint8, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
-import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint8, euint32, externalEuint8, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {HealthAttestations} from "./HealthAttestations.sol";
+import {HealthMetricRegistry, HealthRange, MetricInfo} from "./HealthMetricRegistry.sol";
+import {HealthDelegations} from "./HealthDelegations.sol";
+import {HealthProfiles} from "./HealthProfiles.sol";
+import {HealthStatistics} from "./HealthStatistics.sol";
 
+/**
+ * @title FHEHealthChecker
+ * @author fhevm-hardhat-template
+ * @notice Classifies encrypted health readings against encrypted or registered normal ranges
+ * and stores the encrypted statuses, so neither the readings nor the results are ever public.
+ */
 contract FHEHealthChecker is SepoliaConfig {
-    // Health status constants
-    // 0: Normal, 1: Low, 2: High
+    using HealthDelegations for HealthDelegations.Delegations;
+    using HealthProfiles for HealthProfiles.UserProfile;
+    using HealthStatistics for HealthStatistics.Population;
 
-    // Health metric types
+    // Health status encoding, also returned by getStatusLabels()
+    // 0: Normal, 1: Low, 2: High, 3: Critical low, 4: Critical high,
+    // 5: Invalid (reading outside the metric's physiological bounds)
+    uint8 private constant STATUS_NORMAL = 0;
+    uint8 private constant STATUS_LOW = 1;
+    uint8 private constant STATUS_HIGH = 2;
+    uint8 private constant STATUS_CRITICAL_LOW = 3;
+    uint8 private constant STATUS_CRITICAL_HIGH = 4;
+    uint8 private constant STATUS_INVALID = 5;
+
+    // Built-in health metric types (ids 0-4 of the metric registry)
     enum HealthMetric {
-        BLOOD_PRESSURE,    // mmHg, systolic
-        HEART_RATE,        // bpm
-        BLOOD_GLUCOSE,     // mg/dL
-        BODY_TEMPERATURE,  // Celsius * 10 (e.g., 36.5°C = 365)
-        BLOOD_OXYGEN       // percentage
+        BLOOD_PRESSURE, // mmHg, systolic
+        HEART_RATE, // bpm
+        BLOOD_GLUCOSE, // mg/dL
+        BODY_TEMPERATURE, // °C, scale 10 (e.g., 36.5°C = 365)
+        BLOOD_OXYGEN // percentage
+    }
+
+    // Unit a metric's readings can be entered in. Clients convert a reading to the metric's
+    // unit as (reading + offset) * numerator / denominator, then multiply it by the scale
+    // and round before encrypting.
+    struct InputUnit {
+        string symbol;
+        int32 offset;
+        uint32 numerator;
+        uint32 denominator;
+    }
+
+    // Registered metric with its current default range, as returned by getMetrics()
+    struct MetricDefinition {
+        uint8 id;
+        string name;
+        string unit;
+        string description;
+        uint32 scale;
+        uint32 min;
+        uint32 max;
+        uint32 criticalMin;
+        uint32 criticalMax;
+        uint32 plausibleMin;
+        uint32 plausibleMax;
+    }
+
+    // Entry of a user's health history for a metric
+    struct HealthRecord {
+        euint8 status;
+        euint32 value; // the encrypted reading the status was computed from
+        uint64 timestamp;
+        uint32 rangeVersion; // registry version of the default range used, 0 for a personal range
+        euint8 bloodPressureCategory; // set by checkBloodPressureFull, uninitialized otherwise
+    }
+
+    // Health history of a user for a metric: records[0, length) in check order. Deleting
+    // the history only resets its length; later checks overwrite the old records.
+    struct HealthHistory {
+        uint256 length;
+        mapping(uint256 => HealthRecord) records;
+    }
+
+    // Consent a user gave to the storage and sharing of their health data
+    struct Consent {
+        bytes32 version; // hash of the consent terms the user agreed to
+        uint64 timestamp; // when consent was given, 0 if never given or withdrawn
+    }
+
+    // Population totals of a metric revealed through public decryption
+    // (critical statuses are counted as low or high, invalid readings are not counted)
+    struct PopulationStats {
+        uint32 normal;
+        uint32 low;
+        uint32 high;
+        uint64 revealedAt; // 0 = never revealed
     }
 
-    // Health ranges for different metrics
-    // Blood Pressure (systolic): 90-140 mmHg
+    // Initial minimum number of distinct submitters before statistics can be revealed
+    uint32 private constant DEFAULT_MIN_STATS_SUBMITTERS = 5;
+
+    // Initial default ranges (registry version 1), governed by range admins afterwards
+    // Blood Pressure (systolic): 90-140 mmHg, critical below 70 or above 180
     uint32 private constant BP_NORMAL_MIN = 90;
     uint32 private constant BP_NORMAL_MAX = 140;
+    uint32 private constant BP_CRITICAL_MIN = 70;
+    uint32 private constant BP_CRITICAL_MAX = 180;
 
-    // Heart Rate: 60-100 bpm
+    // Heart Rate: 60-100 bpm, critical below 40 or above 150
     uint32 private constant HR_NORMAL_MIN = 60;
     uint32 private constant HR_NORMAL_MAX = 100;
+    uint32 private constant HR_CRITICAL_MIN = 40;
+    uint32 private constant HR_CRITICAL_MAX = 150;
 
-    // Blood Glucose (fasting): 70-100 mg/dL
+    // Blood Glucose (fasting): 70-100 mg/dL, critical below 54 or above 250
     uint32 private constant BG_NORMAL_MIN = 70;
     uint32 private constant BG_NORMAL_MAX = 100;
+    uint32 private constant BG_CRITICAL_MIN = 54;
+    uint32 private constant BG_CRITICAL_MAX = 250;
 
-    // Body Temperature: 36.0-37.5°C (stored as 360-375)
+    // Body Temperature: 36.0-37.5°C (stored as 360-375), critical below 35.0 or above 40.0°C
     uint32 private constant BT_NORMAL_MIN = 360;
     uint32 private constant BT_NORMAL_MAX = 375;
+    uint32 private constant BT_CRITICAL_MIN = 350;
+    uint32 private constant BT_CRITICAL_MAX = 400;
 
-    // Blood Oxygen: 95-100%
+    // Blood Oxygen: 95-100%, critical below 90% (no critical high band)
     uint32 private constant BO_NORMAL_MIN = 95;
     uint32 private constant BO_NORMAL_MAX = 100;
+    uint32 private constant BO_CRITICAL_MIN = 90;
+
+    // Physiological bounds of the built-in metrics' readings, beyond the critical bands
+    uint32 private constant BP_PLAUSIBLE_MIN = 40;
+    uint32 private constant BP_PLAUSIBLE_MAX = 300;
+    uint32 private constant HR_PLAUSIBLE_MIN = 20;
+    uint32 private constant HR_PLAUSIBLE_MAX = 300;
+    uint32 private constant BG_PLAUSIBLE_MIN = 10;
+    uint32 private constant BG_PLAUSIBLE_MAX = 1000;
+    uint32 private constant BT_PLAUSIBLE_MIN = 250;
+    uint32 private constant BT_PLAUSIBLE_MAX = 450;
+    uint32 private constant BO_PLAUSIBLE_MIN = 50;
+    uint32 private constant BO_PLAUSIBLE_MAX = 100;
+
+    // Alternative input units of the built-in metrics: °F = °C * 9/5 + 32,
+    // 1 mmol/L of glucose = 18.016 mg/dL
+    int32 private constant FAHRENHEIT_OFFSET = -32;
+    uint32 private constant MMOL_GLUCOSE_NUMERATOR = 18016;
+    uint32 private constant MMOL_GLUCOSE_DENOMINATOR = 1000;
+
+    // Profiles of the profile range table: AGE_BAND_COUNT age bands x SEX_COUNT sexes
+    uint8 private constant AGE_BAND_COUNT = HealthProfiles.AGE_BAND_COUNT;
+    uint8 private constant SEX_COUNT = HealthProfiles.SEX_COUNT;
+
+    // Critical bands of metrics registered without any (never triggered)
+    uint32 private constant NO_CRITICAL_MIN = 0;
+    uint32 private constant NO_CRITICAL_MAX = type(uint32).max;
+
+    // Hash of the initial consent terms, the text users agree to in the frontend
+    bytes32 private constant INITIAL_CONSENT_VERSION =
+        keccak256(
+            "I consent to FHEHealthChecker storing my encrypted health readings and statuses on-chain, "
+            "and to sharing them only with the delegates and verifiers I choose. "
+            "I can withdraw this consent at any time."
+        );
+
+    // Combined blood pressure categories of checkBloodPressureFull
+    // 0: Normal, 1: Elevated, 2: Stage 1 hypertension, 3: Stage 2 hypertension, 4: Hypotension,
+    // 5: Invalid (a reading outside the blood pressure metric's physiological bounds)
+    uint8 private constant BP_CATEGORY_NORMAL = 0;
+    uint8 private constant BP_CATEGORY_ELEVATED = 1;
+    uint8 private constant BP_CATEGORY_STAGE_1 = 2;
+    uint8 private constant BP_CATEGORY_STAGE_2 = 3;
+    uint8 private constant BP_CATEGORY_HYPOTENSION = 4;
+    uint8 private constant BP_CATEGORY_INVALID = 5;
+
+    // Category thresholds (mmHg): systolic/diastolic lower bounds of each stage,
+    // hypotension below 90/60
+    uint32 private constant BP_ELEVATED_SYSTOLIC = 120;
+    uint32 private constant BP_STAGE_1_SYSTOLIC = 130;
+    uint32 private constant BP_STAGE_1_DIASTOLIC = 80;
+    uint32 private constant BP_STAGE_2_SYSTOLIC = 140;
+    uint32 private constant BP_STAGE_2_DIASTOLIC = 90;
+    uint32 private constant BP_HYPOTENSION_SYSTOLIC = 90;
+    uint32 private constant BP_HYPOTENSION_DIASTOLIC = 60;
+
+    /// @notice Contract owner, manages range admins
+    address public owner;
+
+    /// @notice Accounts allowed to update the default range registry (the owner always is)
+    mapping(address account => bool isAdmin) public rangeAdmins;
+
+    /// @notice Hash of the consent terms users must currently agree to before their health data is
+    /// stored or shared, and the consent each user gave. New terms require consenting again.
+    bytes32 public consentVersion;
+    mapping(address user => Consent consent) private userConsents;
+
+    /// @notice Number of registered metrics, ids are assigned sequentially starting with the
+    /// built-in metrics
+    uint8 public metricCount;
+    mapping(uint8 metric => MetricInfo info) private metrics;
+
+    // Input units each metric accepts besides its own unit (built-in metrics only,
+    // metrics added with addMetric accept their own unit)
+    mapping(uint8 metric => InputUnit[] units) private metricInputUnits;
+
+    /// @notice Current version of the default range registry. Every update creates a new
+    /// version holding a snapshot of all metric ranges; older versions are kept.
+    uint32 public rangesVersion;
+    mapping(uint32 version => mapping(uint8 metric => HealthRange range)) private defaultRanges;
+    mapping(uint32 version => uint8 metricCount) private rangesVersionMetricCounts;
 
     // Store encrypted health status for each user and metric
-    mapping(address => mapping(uint8 => euint8)) private userHealthStatuses;
+    mapping(address user => mapping(uint8 metric => euint8 status)) private userHealthStatuses;
+
+    // Latest combined blood pressure category of each user (see BP_CATEGORY_*)
+    mapping(address user => euint8 category) private userBloodPressureCategories;
+
+    // Composite score of each user: number of metrics whose latest status is abnormal
+    mapping(address user => euint8 score) private userHealthScores;
+
+    // Trend of the latest reading compared to the previous one, relative to the
+    // normal range: 0 = stable, 1 = improving (closer to the range), 2 = worsening
+    mapping(address user => mapping(uint8 metric => euint8 trend)) private userHealthTrends;
+
+    // Log of every check for each user and metric since its last deletion, oldest first
+    mapping(address user => mapping(uint8 metric => HealthHistory history)) private userHealthHistory;
+
+    // Registry version each stored status was evaluated against (0 = personal range)
+    mapping(address user => mapping(uint8 metric => uint32 version)) private userStatusRangeVersions;
+
+    // Encrypted population counters of every check result, per metric and status
+    // (0 = normal, 1 = low, 2 = high), and their last publicly revealed values
+    mapping(uint8 metric => HealthStatistics.Population population) private populations;
+    mapping(uint8 metric => PopulationStats stats) private revealedPopulationStats;
+
+    /// @notice k-anonymity: population counters of a metric can only be revealed once at least
+    /// minStatsSubmitters distinct users have checked it since its last reveal (tracked in
+    /// plaintext), so the difference between two reveals never singles out a user
+    uint32 public minStatsSubmitters;
+
+    // Pending public decryption requests of population counters: request id => metric id + 1
+    mapping(uint256 requestId => uint16 metricPlusOne) private statsDecryptionRequests;
+
+    // Delegates (e.g. doctors) each user shares statuses with (see HealthDelegations)
+    mapping(address user => HealthDelegations.Delegations delegations) private userDelegations;
+
+    /// @notice Verifier contracts approved by the owner to receive attestations, and the latest
+    /// encrypted "all vitals normal" attestation of each user for each verifier
+    mapping(address verifier => bool approved) public approvedVerifiers;
+    mapping(address user => mapping(address verifier => ebool allNormal)) private attestations;
+
+    // Verifiers each user has attested to, so deleteMyData can clear the attestations
+    mapping(address user => address[] verifiers) private attestedVerifiers;
 
+    // Number of status updates (checks and deletions) of each user, and its value when each
+    // attestation was made: an attestation is stale once the user's statuses changed
+    mapping(address user => uint64 count) private statusUpdateCounts;
+    mapping(address user => mapping(address verifier => uint64 count)) private attestationUpdateCounts;
+
+    // Encrypted profile of each user, set (or replaced) with setProfile, and the normal range of each
+    // metric per profile index
+    mapping(address user => HealthProfiles.UserProfile profile) private userProfiles;
+    mapping(uint8 metric => mapping(uint8 profileIndex => HealthProfiles.ProfileRange range)) private profileRanges;
+
+    /// @notice Bitmask with the bit of every metric with at least one configured profile range
+    uint256 public profileRangeMetrics;
+
+    // Optional personal reference ranges for each user and metric.
+    // When unset (uninitialized handles) the current default range is used.
+    mapping(address user => mapping(uint8 metric => euint32 min)) private userRangeMins;
+    mapping(address user => mapping(uint8 metric => euint32 max)) private userRangeMaxs;
+
+    error InvalidMetric(uint8 metric);
+    error InvalidRange(uint32 min, uint32 max);
+    error UnknownRangesVersion(uint32 version);
+    error Unauthorized(address account);
+    error MetricRegistryFull();
+    error LengthMismatch(uint256 metrics, uint256 values);
+    error InvalidDelegate(address delegate);
+    error InvalidExpiry(uint64 expiresAt);
+    error NoStatistics(uint8 metric);
+    error NotEnoughSubmitters(uint8 metric, uint32 submitters, uint32 required);
+    error UnknownDecryptionRequest(uint256 requestId);
+    error UnapprovedVerifier(address verifier);
+    error InvalidProfile(uint8 ageBand, uint8 sex);
+    error ConsentRequired(address user);
+    error InvalidConsentVersion(bytes32 version);
+
+    /// @notice Emitted when a user requests a health check
+    /// @param user The checked user
+    /// @param requestId Identifier of the check request
+    /// @param metric The checked metric
     event HealthCheckRequested(address indexed user, bytes32 requestId, uint8 metric);
+
+    /// @notice Emitted with the public result of a health check
+    /// @param user The checked user
+    /// @param requestId Identifier of the check request
+    /// @param metric The checked metric
+    /// @param status The resulting status (see STATUS_*)
     event HealthCheckResult(address indexed user, uint256 requestId, uint8 metric, uint8 status);
+
+    /// @notice Emitted when a new encrypted status of a user is stored
+    /// @param user The checked user
+    /// @param metric The checked metric
     event HealthStatusUpdated(address indexed user, uint8 metric);
 
+    /// @notice Emitted when a user sets their personal range of a metric
+    /// @param user The user
+    /// @param metric The metric of the range
+    event PersonalRangeUpdated(address indexed user, uint8 metric);
+
+    /// @notice Emitted when a user removes their personal range of a metric
+    /// @param user The user
+    /// @param metric The metric of the range
+    event PersonalRangeCleared(address indexed user, uint8 metric);
+
+    /// @notice Emitted when a user deletes their stored data of some metrics
+    /// @param user The user
+    /// @param metrics Bitmask of the deleted metrics
+    event HealthDataDeleted(address indexed user, uint256 metrics);
+
+    /// @notice Emitted when a user sets or replaces their encrypted profile
+    /// @param user The user
+    event ProfileSet(address indexed user);
+
+    /// @notice Emitted when a user consents to the current terms
+    /// @param user The consenting user
+    /// @param version Hash of the terms the user agreed to
+    event ConsentGiven(address indexed user, bytes32 version);
+
+    /// @notice Emitted when a user withdraws their consent
+    /// @param user The user
+    event ConsentWithdrawn(address indexed user);
+
+    /// @notice Emitted when the owner publishes new consent terms
+    /// @param version Hash of the new terms
+    event ConsentVersionUpdated(bytes32 version);
+
+    /// @notice Emitted when a user shares data with a delegate or verifier under their consent
+    /// @param user The sharing user
+    /// @param recipient The delegate or verifier
+    /// @param consentVersion Hash of the terms the sharing happened under
+    event SharingConsented(address indexed user, address indexed recipient, bytes32 consentVersion);
+
+    /// @notice Emitted when a range admin sets the normal range of a metric for one profile
+    /// @param metric The metric
+    /// @param ageBand Age band of the profile (0 = child, 1 = adult, 2 = senior)
+    /// @param sex Sex of the profile (0 = female, 1 = male)
+    /// @param min Lower bound of the profile's normal range (scaled)
+    /// @param max Upper bound of the profile's normal range (scaled)
+    event ProfileRangeUpdated(uint8 indexed metric, uint8 ageBand, uint8 sex, uint32 min, uint32 max);
+
+    /// @notice Emitted when the ownership of the contract changes
+    /// @param previousOwner The former owner (zero on deployment)
+    /// @param newOwner The new owner
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    /// @notice Emitted when the owner adds or removes a range admin
+    /// @param account The account
+    /// @param isAdmin Whether the account is now a range admin
+    event RangeAdminUpdated(address indexed account, bool isAdmin);
+
+    /// @notice Emitted when a default range is updated, creating a new registry version
+    /// @param version The new registry version
+    /// @param metric The updated metric
+    /// @param min Lower bound of the new normal range (scaled)
+    /// @param max Upper bound of the new normal range (scaled)
+    event DefaultRangeUpdated(uint32 indexed version, uint8 indexed metric, uint32 min, uint32 max);
+
+    /// @notice Emitted when the critical bands of a metric are updated, creating a new registry version
+    /// @param version The new registry version
+    /// @param metric The updated metric
+    /// @param criticalMin Readings below this value are critical low (scaled)
+    /// @param criticalMax Readings above this value are critical high (scaled)
+    event SeverityBandsUpdated(uint32 indexed version, uint8 indexed metric, uint32 criticalMin, uint32 criticalMax);
+
+    /// @notice Emitted when a metric is added to the registry
+    /// @param metric The new metric id
+    /// @param name Display name of the metric
+    /// @param unit Unit of the submitted values
+    /// @param scale Fixed-point factor applied to submitted values
+    event MetricRegistered(uint8 indexed metric, string name, string unit, uint32 scale);
+
+    /// @notice Emitted when a metric accepts readings in a new unit (see InputUnit)
+    /// @param metric The metric
+    /// @param symbol Symbol of the unit
+    /// @param offset Added to a reading before the conversion factor
+    /// @param numerator Numerator of the conversion factor to the metric's unit
+    /// @param denominator Denominator of the conversion factor to the metric's unit
+    event InputUnitAdded(uint8 indexed metric, string symbol, int32 offset, uint32 numerator, uint32 denominator);
+
+    /// @notice Emitted when a user shares metrics with a delegate
+    /// @param user The sharing user
+    /// @param delegate The delegate
+    /// @param metrics Bitmask of the metrics shared by this grant
+    /// @param expiresAt Timestamp after which new statuses are no longer shared
+    event AccessGranted(address indexed user, address indexed delegate, uint256 metrics, uint64 expiresAt);
+
+    /// @notice Emitted when a user stops sharing metrics with a delegate
+    /// @param user The sharing user
+    /// @param delegate The delegate
+    /// @param metrics Bitmask of the metrics that were shared and are now revoked
+    event AccessRevoked(address indexed user, address indexed delegate, uint256 metrics);
+
+    /// @notice Emitted when the public decryption of a metric's population counters is requested
+    /// @param metric The metric
+    /// @param requestId The decryption oracle request id
+    event StatsDecryptionRequested(uint8 indexed metric, uint256 requestId);
+
+    /// @notice Emitted when the decryption oracle reveals a metric's population counters
+    /// @param metric The metric
+    /// @param normal Number of normal check results
+    /// @param low Number of low check results
+    /// @param high Number of high check results
+    event StatsRevealed(uint8 indexed metric, uint32 normal, uint32 low, uint32 high);
+
+    /// @notice Emitted when the owner changes the k-anonymity threshold of statistics reveals
+    /// @param minSubmitters The new minimum number of distinct submitters
+    event MinStatsSubmittersUpdated(uint32 minSubmitters);
+
+    /// @notice Emitted when the owner approves or disapproves a verifier contract
+    /// @param verifier The verifier contract
+    /// @param approved Whether users can now attest to it
+    event VerifierApprovalUpdated(address indexed verifier, bool approved);
+
+    /// @notice Emitted when a user attests their vitals to a verifier
+    /// @param user The attesting user
+    /// @param verifier The verifier the attestation is for
+    event AttestationCreated(address indexed user, address indexed verifier);
+
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    modifier onlyRangeAdmin() {
+        _checkRangeAdmin();
+        _;
+    }
+
+    /// @notice Register the built-in metrics and make the deployer the owner
     constructor() {
-        // No need to pre-allow constants since we create them dynamically
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+        consentVersion = INITIAL_CONSENT_VERSION;
+
+        // Built-in metrics, registered in HealthMetric order
+        rangesVersion = 1;
+        minStatsSubmitters = DEFAULT_MIN_STATS_SUBMITTERS;
+        _registerMetric(
+            MetricInfo("Blood Pressure", "mmHg", "Systolic Blood Pressure", 1, BP_PLAUSIBLE_MIN, BP_PLAUSIBLE_MAX),
+            HealthRange(BP_NORMAL_MIN, BP_NORMAL_MAX, BP_CRITICAL_MIN, BP_CRITICAL_MAX)
+        );
+        _registerMetric(
+            MetricInfo("Heart Rate", "bpm", "Heart Rate", 1, HR_PLAUSIBLE_MIN, HR_PLAUSIBLE_MAX),
+            HealthRange(HR_NORMAL_MIN, HR_NORMAL_MAX, HR_CRITICAL_MIN, HR_CRITICAL_MAX)
+        );
+        _registerMetric(
+            MetricInfo("Blood Glucose", "mg/dL", "Fasting Blood Glucose", 1, BG_PLAUSIBLE_MIN, BG_PLAUSIBLE_MAX),
+            HealthRange(BG_NORMAL_MIN, BG_NORMAL_MAX, BG_CRITICAL_MIN, BG_CRITICAL_MAX)
+        );
+        _registerMetric(
+            MetricInfo("Body Temperature", unicode"°C", "Body Temperature", 10, BT_PLAUSIBLE_MIN, BT_PLAUSIBLE_MAX),
+            HealthRange(BT_NORMAL_MIN, BT_NORMAL_MAX, BT_CRITICAL_MIN, BT_CRITICAL_MAX)
+        );
+        _registerMetric(
+            MetricInfo("Blood Oxygen", "%", "Blood Oxygen Saturation", 1, BO_PLAUSIBLE_MIN, BO_PLAUSIBLE_MAX),
+            HealthRange(BO_NORMAL_MIN, BO_NORMAL_MAX, BO_CRITICAL_MIN, NO_CRITICAL_MAX)
+        );
+        _addInputUnit(uint8(HealthMetric.BODY_TEMPERATURE), unicode"°F", FAHRENHEIT_OFFSET, 5, 9);
+        _addInputUnit(uint8(HealthMetric.BLOOD_GLUCOSE), "mmol/L", 0, MMOL_GLUCOSE_NUMERATOR, MMOL_GLUCOSE_DENOMINATOR);
+
+        // Initial profile range table (age band, sex): children have a faster heart rate
+        // and lower blood pressure, seniors a higher blood pressure
+        uint8 bp = uint8(HealthMetric.BLOOD_PRESSURE);
+        uint8 hr = uint8(HealthMetric.HEART_RATE);
+        for (uint8 sex = 0; sex < SEX_COUNT; ++sex) {
+            _setProfileRange(hr, 0, sex, 70, 120);
+            _setProfileRange(hr, 2, sex, 60, 100);
+            _setProfileRange(bp, 0, sex, 90, 120);
+            _setProfileRange(bp, 2, sex, 100, 150);
+        }
+        _setProfileRange(hr, 1, 0, 65, 100);
+        _setProfileRange(hr, 1, 1, 60, 100);
+        _setProfileRange(bp, 1, 0, 90, 135);
+        _setProfileRange(bp, 1, 1, 90, 140);
     }
 
     /**
-     * @dev Check blood pressure and store encrypted health status
-     * @param bloodPressure Encrypted blood pressure value (systolic, mmHg)
+     * @notice Transfer contract ownership
+     * @param newOwner The new owner address
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /**
+     * @notice Grant or revoke the right to update the default range registry
+     * @param account The account to update
+     * @param isAdmin Whether the account is a range admin
+     */
+    function setRangeAdmin(address account, bool isAdmin) external onlyOwner {
+        rangeAdmins[account] = isAdmin;
+        emit RangeAdminUpdated(account, isAdmin);
+    }
+
+    /**
+     * @notice Update the default normal range of a metric. Creates a new registry version
+     * holding the previous ranges of every other metric; past versions stay queryable.
+     * @param metric The health metric to update
+     * @param min Lower bound of the normal range
+     * @param max Upper bound of the normal range
+     */
+    function setDefaultRange(uint8 metric, uint32 min, uint32 max) external onlyRangeAdmin {
+        _requireValidMetric(metric);
+        HealthRange storage current = defaultRanges[rangesVersion][metric];
+        if (min > max || min < current.criticalMin || max > current.criticalMax) {
+            revert InvalidRange(min, max);
+        }
+
+        uint32 version = _newRangesVersion();
+        defaultRanges[version][metric].min = min;
+        defaultRanges[version][metric].max = max;
+        emit DefaultRangeUpdated(version, metric, min, max);
+    }
+
+    /**
+     * @notice Update the critical severity bands of a metric: readings below criticalMin are
+     * critical low and readings above criticalMax critical high. Creates a new registry version.
+     * @param metric The health metric to update
+     * @param criticalMin Critical low threshold, at most the normal range's lower bound
+     * @param criticalMax Critical high threshold, at least the normal range's upper bound
+     */
+    function setSeverityBands(uint8 metric, uint32 criticalMin, uint32 criticalMax) external onlyRangeAdmin {
+        _requireValidMetric(metric);
+        HealthRange storage current = defaultRanges[rangesVersion][metric];
+        if (criticalMin > current.min || criticalMax < current.max) {
+            revert InvalidRange(criticalMin, criticalMax);
+        }
+
+        uint32 version = _newRangesVersion();
+        defaultRanges[version][metric].criticalMin = criticalMin;
+        defaultRanges[version][metric].criticalMax = criticalMax;
+        emit SeverityBandsUpdated(version, metric, criticalMin, criticalMax);
+    }
+
+    /**
+     * @notice Get the health status encoding: the label of each status code, indexed by code
+     * @return labels The labels of the status codes
+     */
+    function getStatusLabels() external pure returns (string[] memory labels) {
+        labels = new string[](6);
+        labels[STATUS_NORMAL] = "normal";
+        labels[STATUS_LOW] = "low";
+        labels[STATUS_HIGH] = "high";
+        labels[STATUS_CRITICAL_LOW] = "critical-low";
+        labels[STATUS_CRITICAL_HIGH] = "critical-high";
+        labels[STATUS_INVALID] = "invalid";
+    }
+
+    /**
+     * @notice Register a new metric that can be checked with checkMetric. Creates a new
+     * range registry version containing the metric's default range, without critical
+     * bands (see setSeverityBands). Every reading of the metric is plausible.
+     * @param name Display name of the metric
+     * @param unit Unit of the submitted values
+     * @param description Longer description of the metric
+     * @param scale Fixed-point factor applied to submitted values (1 for integers)
+     * @param min Lower bound of the default normal range (scaled)
+     * @param max Upper bound of the default normal range (scaled)
+     * @return metric The id assigned to the new metric
+     */
+    function addMetric(
+        string calldata name,
+        string calldata unit,
+        string calldata description,
+        uint32 scale,
+        uint32 min,
+        uint32 max
+    ) external onlyRangeAdmin returns (uint8 metric) {
+        if (min > max) {
+            revert InvalidRange(min, max);
+        }
+
+        uint32 version = _newRangesVersion();
+        metric = _nextMetricId(version);
+        HealthMetricRegistry.register(
+            metrics[metric],
+            defaultRanges[version][metric],
+            name,
+            unit,
+            description,
+            scale,
+            min,
+            max
+        );
+
+        emit MetricRegistered(metric, name, unit, scale);
+        emit DefaultRangeUpdated(version, metric, min, max);
+        emit SeverityBandsUpdated(version, metric, NO_CRITICAL_MIN, NO_CRITICAL_MAX);
+    }
+
+    /**
+     * @notice Get the units readings of a metric can be entered in, the metric's own unit first
+     * @param metric The registered metric id
+     * @return units The accepted units with their conversion to the metric's unit
+     */
+    function getInputUnits(uint8 metric) external view returns (InputUnit[] memory units) {
+        _requireValidMetric(metric);
+        InputUnit[] storage extraUnits = metricInputUnits[metric];
+        units = new InputUnit[](extraUnits.length + 1);
+        units[0] = InputUnit(metrics[metric].unit, 0, 1, 1);
+        for (uint256 i = 0; i < extraUnits.length; ++i) {
+            units[i + 1] = extraUnits[i];
+        }
+    }
+
+    /**
+     * @notice Update the consent terms users must agree to. Existing consents no longer
+     * count until each user consents to the new terms.
+     * @param version Hash of the new consent terms
+     */
+    function setConsentVersion(bytes32 version) external onlyOwner {
+        consentVersion = version;
+        emit ConsentVersionUpdated(version);
+    }
+
+    /**
+     * @notice Consent to the storage of the caller's encrypted health data and to sharing it with
+     * the delegates and verifiers the caller chooses. Required before checking any metric,
+     * granting access or attesting.
+     * @param version Hash of the consent terms the caller agrees to, must be the current consentVersion
+     */
+    function giveConsent(bytes32 version) external {
+        if (version != consentVersion) {
+            revert InvalidConsentVersion(version);
+        }
+        userConsents[msg.sender] = Consent(version, uint64(block.timestamp));
+        emit ConsentGiven(msg.sender, version);
+    }
+
+    /**
+     * @notice Withdraw the caller's consent. New checks, grants and attestations are refused until
+     * the caller consents again; stored data is kept (see deleteMyData) and existing grants
+     * stop receiving new statuses since no new status can be stored.
+     */
+    function withdrawConsent() external {
+        delete userConsents[msg.sender];
+        emit ConsentWithdrawn(msg.sender);
+    }
+
+    /**
+     * @notice Get the consent a user gave
+     * @param user The user to query
+     * @return The consented terms hash and timestamp, zero if never given or withdrawn.
+     * Only counts while the hash equals consentVersion.
+     */
+    function getConsent(address user) external view returns (Consent memory) {
+        return userConsents[user];
+    }
+
+    /**
+     * @notice Check any registered metric and store the encrypted health status
+     * @param metric The registered metric id
+     * @param encryptedValue Encrypted value, scaled as described by the metric's registry entry
      * @param inputProof ZK proof for the encrypted input
      */
-    function checkBloodPressure(
-        externalEuint32 bloodPressure,
+    function checkMetric(uint8 metric, externalEuint32 encryptedValue, bytes calldata inputProof) external {
+        _checkMetric(metric, encryptedValue, inputProof);
+    }
+
+    /**
+     * @notice Check several registered metrics in one transaction. All values are encrypted
+     * in a single input and share its proof.
+     * @param metricIds The registered metric ids, one per encrypted value
+     * @param encryptedValues Encrypted values, scaled as described by each metric's registry entry
+     * @param inputProof ZK proof covering every encrypted value
+     */
+    function checkMetrics(
+        uint8[] calldata metricIds,
+        externalEuint32[] calldata encryptedValues,
         bytes calldata inputProof
     ) external {
-        euint32 bp = FHE.fromExternal(bloodPressure, inputProof);
-        euint8 status = FHE.select(
-            FHE.lt(bp, FHE.asEuint32(BP_NORMAL_MIN)),
-            FHE.asEuint8(1), // low
-            FHE.select(
-                FHE.gt(bp, FHE.asEuint32(BP_NORMAL_MAX)),
-                FHE.asEuint8(2), // high
-                FHE.asEuint8(0)  // normal
-            )
-        );
+        if (metricIds.length != encryptedValues.length) {
+            revert LengthMismatch(metricIds.length, encryptedValues.length);
+        }
 
-        userHealthStatuses[msg.sender][uint8(HealthMetric.BLOOD_PRESSURE)] = status;
-        FHE.allowThis(status);
-        FHE.allow(status, msg.sender);
-        emit HealthStatusUpdated(msg.sender, uint8(HealthMetric.BLOOD_PRESSURE));
+        for (uint256 i = 0; i < metricIds.length; ++i) {
+            _checkMetric(metricIds[i], encryptedValues[i], inputProof);
+        }
     }
 
     /**
-     * @dev Check heart rate and store encrypted health status
-     * @param heartRate Encrypted heart rate value (bpm)
+     * @notice Check blood pressure and store encrypted health status (legacy wrapper of checkMetric)
+     * @param bloodPressure Encrypted blood pressure value (systolic, mmHg)
      * @param inputProof ZK proof for the encrypted input
      */
-    function checkHeartRate(
-        externalEuint32 heartRate,
+    function checkBloodPressure(externalEuint32 bloodPressure, bytes calldata inputProof) external {
+        _checkMetric(uint8(HealthMetric.BLOOD_PRESSURE), bloodPressure, inputProof);
+    }
+
+    /**
+     * @notice Check systolic and diastolic blood pressure. The systolic reading is stored as the
+     * blood pressure metric like checkBloodPressure; both readings are also classified into a
+     * combined category (normal, elevated, stage 1, stage 2, hypotension), stage 2 taking
+     * precedence over stage 1, and stage 1 over hypotension. The category is invalid when either
+     * reading is outside the blood pressure metric's physiological bounds. It is stored as the
+     * latest category and with the blood pressure history record of the check.
+     * @param systolic Encrypted systolic blood pressure (mmHg)
+     * @param diastolic Encrypted diastolic blood pressure (mmHg)
+     * @param inputProof ZK proof for both encrypted inputs
+     */
+    function checkBloodPressureFull(
+        externalEuint32 systolic,
+        externalEuint32 diastolic,
         bytes calldata inputProof
     ) external {
-        euint32 hr = FHE.fromExternal(heartRate, inputProof);
-        euint8 status = FHE.select(
-            FHE.lt(hr, FHE.asEuint32(HR_NORMAL_MIN)),
-            FHE.asEuint8(1), // low
-            FHE.select(
-                FHE.gt(hr, FHE.asEuint32(HR_NORMAL_MAX)),
-                FHE.asEuint8(2), // high
-                FHE.asEuint8(0)  // normal
-            )
+        euint32 systolicValue = FHE.fromExternal(systolic, inputProof);
+        euint32 diastolicValue = FHE.fromExternal(diastolic, inputProof);
+        uint8 metric = uint8(HealthMetric.BLOOD_PRESSURE);
+        _storeHealthStatus(metric, systolicValue);
+
+        euint8 category = FHE.select(
+            FHE.ge(systolicValue, BP_ELEVATED_SYSTOLIC),
+            FHE.asEuint8(BP_CATEGORY_ELEVATED),
+            FHE.asEuint8(BP_CATEGORY_NORMAL)
+        );
+        category = FHE.select(
+            FHE.or(FHE.lt(systolicValue, BP_HYPOTENSION_SYSTOLIC), FHE.lt(diastolicValue, BP_HYPOTENSION_DIASTOLIC)),
+            FHE.asEuint8(BP_CATEGORY_HYPOTENSION),
+            category
+        );
+        category = FHE.select(
+            FHE.or(FHE.ge(systolicValue, BP_STAGE_1_SYSTOLIC), FHE.ge(diastolicValue, BP_STAGE_1_DIASTOLIC)),
+            FHE.asEuint8(BP_CATEGORY_STAGE_1),
+            category
+        );
+        category = FHE.select(
+            FHE.or(FHE.ge(systolicValue, BP_STAGE_2_SYSTOLIC), FHE.ge(diastolicValue, BP_STAGE_2_DIASTOLIC)),
+            FHE.asEuint8(BP_CATEGORY_STAGE_2),
+            category
+        );
+        MetricInfo storage info = metrics[metric];
+        category = FHE.select(
+            FHE.or(_isImplausible(info, systolicValue), _isImplausible(info, diastolicValue)),
+            FHE.asEuint8(BP_CATEGORY_INVALID),
+            category
         );
 
-        userHealthStatuses[msg.sender][uint8(HealthMetric.HEART_RATE)] = status;
-        FHE.allowThis(status);
-        FHE.allow(status, msg.sender);
-        emit HealthStatusUpdated(msg.sender, uint8(HealthMetric.HEART_RATE));
+        userBloodPressureCategories[msg.sender] = category;
+        HealthHistory storage history = userHealthHistory[msg.sender][metric];
+        history.records[history.length - 1].bloodPressureCategory = category;
+        FHE.allowThis(category);
+        FHE.allow(category, msg.sender);
+        userDelegations[msg.sender].allowDelegates(category, metric);
+    }
+
+    /**
+     * @notice Check heart rate and store encrypted health status (legacy wrapper of checkMetric)
+     * @param heartRate Encrypted heart rate value (bpm)
+     * @param inputProof ZK proof for the encrypted input
+     */
+    function checkHeartRate(externalEuint32 heartRate, bytes calldata inputProof) external {
+        _checkMetric(uint8(HealthMetric.HEART_RATE), heartRate, inputProof);
     }
 
     /**
-     * @dev Check blood glucose and store encrypted health status
+     * @notice Check blood glucose and store encrypted health status (legacy wrapper of checkMetric)
      * @param bloodGlucose Encrypted blood glucose value (mg/dL, fasting)
      * @param inputProof ZK proof for the encrypted input
      */
-    function checkBloodGlucose(
-        externalEuint32 bloodGlucose,
-        bytes calldata inputProof
-    ) external {
-        euint32 bg = FHE.fromExternal(bloodGlucose, inputProof);
-        euint8 status = FHE.select(
-            FHE.lt(bg, FHE.asEuint32(BG_NORMAL_MIN)),
-            FHE.asEuint8(1), // low
-            FHE.select(
-                FHE.gt(bg, FHE.asEuint32(BG_NORMAL_MAX)),
-                FHE.asEuint8(2), // high
-                FHE.asEuint8(0)  // normal
-            )
-        );
+    function checkBloodGlucose(externalEuint32 bloodGlucose, bytes calldata inputProof) external {
+        _checkMetric(uint8(HealthMetric.BLOOD_GLUCOSE), bloodGlucose, inputProof);
+    }
 
-        userHealthStatuses[msg.sender][uint8(HealthMetric.BLOOD_GLUCOSE)] = status;
-        FHE.allowThis(status);
-        FHE.allow(status, msg.sender);
-        emit HealthStatusUpdated(msg.sender, uint8(HealthMetric.BLOOD_GLUCOSE));
+    /**
+     * @notice Check body temperature and store encrypted health status (legacy wrapper of checkMetric)
+     * @param bodyTemperature Encrypted body temperature value (°C * 10, e.g., 36.5°C = 365)
+     * @param inputProof ZK proof for the encrypted input
+     */
+    function checkBodyTemperature(externalEuint32 bodyTemperature, bytes calldata inputProof) external {
+        _checkMetric(uint8(HealthMetric.BODY_TEMPERATURE), bodyTemperature, inputProof);
     }
 
     /**
-     * @dev Check body temperature and store encrypted health status
-     * @param bodyTemperature Encrypted body temperature value (Celsius * 10, e.g., 36.5°C = 365)
+     * @notice Check blood oxygen saturation and store encrypted health status (legacy wrapper of checkMetric)
+     * @param bloodOxygen Encrypted blood oxygen saturation value (percentage)
      * @param inputProof ZK proof for the encrypted input
      */
-    function checkBodyTemperature(
-        externalEuint32 bodyTemperature,
+    function checkBloodOxygen(externalEuint32 bloodOxygen, bytes calldata inputProof) external {
+        _checkMetric(uint8(HealthMetric.BLOOD_OXYGEN), bloodOxygen, inputProof);
+    }
+
+    /**
+     * @notice Set the caller's personal reference range for a metric. Both bounds are
+     * encrypted in the same input and are compared against instead of the defaults.
+     * Requires the caller's consent.
+     * @param metric The health metric the range applies to
+     * @param minValue Encrypted lower bound of the normal range (same unit as the metric)
+     * @param maxValue Encrypted upper bound of the normal range (same unit as the metric)
+     * @param inputProof ZK proof for the encrypted inputs
+     */
+    function setPersonalRange(
+        uint8 metric,
+        externalEuint32 minValue,
+        externalEuint32 maxValue,
         bytes calldata inputProof
     ) external {
-        euint32 bt = FHE.fromExternal(bodyTemperature, inputProof);
-        euint8 status = FHE.select(
-            FHE.lt(bt, FHE.asEuint32(BT_NORMAL_MIN)),
-            FHE.asEuint8(1), // low
-            FHE.select(
-                FHE.gt(bt, FHE.asEuint32(BT_NORMAL_MAX)),
-                FHE.asEuint8(2), // high
-                FHE.asEuint8(0)  // normal
-            )
+        _requireConsent();
+        _requireValidMetric(metric);
+
+        euint32 rangeMin = FHE.fromExternal(minValue, inputProof);
+        euint32 rangeMax = FHE.fromExternal(maxValue, inputProof);
+
+        userRangeMins[msg.sender][metric] = rangeMin;
+        userRangeMaxs[msg.sender][metric] = rangeMax;
+        FHE.allowThis(rangeMin);
+        FHE.allowThis(rangeMax);
+        FHE.allow(rangeMin, msg.sender);
+        FHE.allow(rangeMax, msg.sender);
+        emit PersonalRangeUpdated(msg.sender, metric);
+    }
+
+    /**
+     * @notice Remove the caller's personal reference range for a metric (defaults apply again)
+     * @param metric The health metric to reset
+     */
+    function clearPersonalRange(uint8 metric) external {
+        _requireValidMetric(metric);
+
+        userRangeMins[msg.sender][metric] = euint32.wrap(0);
+        userRangeMaxs[msg.sender][metric] = euint32.wrap(0);
+        emit PersonalRangeCleared(msg.sender, metric);
+    }
+
+    /**
+     * @notice Whether the caller has a personal reference range for a metric
+     * @param metric The health metric to query
+     * @return Whether a personal range is set
+     */
+    function hasPersonalRange(uint8 metric) external view returns (bool) {
+        return FHE.isInitialized(userRangeMins[msg.sender][metric]);
+    }
+
+    /**
+     * @notice Get the caller's encrypted personal reference range for a metric
+     * @param metric The health metric to query
+     * @return min Encrypted lower bound (uninitialized if no personal range is set)
+     * @return max Encrypted upper bound (uninitialized if no personal range is set)
+     */
+    function getPersonalRange(uint8 metric) external view returns (euint32 min, euint32 max) {
+        return (userRangeMins[msg.sender][metric], userRangeMaxs[msg.sender][metric]);
+    }
+
+    /**
+     * @notice Delete the caller's stored data of the given metrics: latest status, trend, history,
+     * personal range, and the combined category with blood pressure. Grants of the metrics are
+     * revoked from every delegate. The health score no longer counts the deleted statuses.
+     * Histories are deleted logically: their length is reset so getHealthHistory no longer
+     * returns the records, but the record handles stay in storage until later checks overwrite
+     * them. Population counters keep past contributions, and accounts already allowed to
+     * decrypt a deleted handle keep that permission (ACL grants are permanent).
+     * @param metricIds The metrics to delete
+     * @param deleteAccountData Whether to also delete the caller's profile, so default ranges
+     * apply until a new profile is set, and attestations, which cover every metric
+     */
+    function deleteMyData(uint8[] calldata metricIds, bool deleteAccountData) external {
+        uint256 mask;
+        for (uint256 i = 0; i < metricIds.length; ++i) {
+            uint8 metric = metricIds[i];
+            _requireValidMetric(metric);
+
+            euint8 status = userHealthStatuses[msg.sender][metric];
+            if (FHE.isInitialized(status)) {
+                _updateHealthScore(status, FHE.asEuint8(STATUS_NORMAL));
+            }
+            userHealthStatuses[msg.sender][metric] = euint8.wrap(0);
+            userHealthTrends[msg.sender][metric] = euint8.wrap(0);
+            userHealthHistory[msg.sender][metric].length = 0;
+            delete userStatusRangeVersions[msg.sender][metric];
+            userRangeMins[msg.sender][metric] = euint32.wrap(0);
+            userRangeMaxs[msg.sender][metric] = euint32.wrap(0);
+            if (metric == uint8(HealthMetric.BLOOD_PRESSURE)) {
+                userBloodPressureCategories[msg.sender] = euint8.wrap(0);
+            }
+            mask |= uint256(1) << metric;
+        }
+        ++statusUpdateCounts[msg.sender];
+
+        if (deleteAccountData) {
+            delete userProfiles[msg.sender];
+
+            address[] storage verifiers = attestedVerifiers[msg.sender];
+            for (uint256 i = 0; i < verifiers.length; ++i) {
+                attestations[msg.sender][verifiers[i]] = ebool.wrap(0);
+            }
+            delete attestedVerifiers[msg.sender];
+        }
+
+        // Copy the delegates, revoking a delegate's last metric removes it from the list
+        address[] memory delegates = userDelegations[msg.sender].delegates;
+        for (uint256 i = 0; i < delegates.length; ++i) {
+            uint256 revoked = userDelegations[msg.sender].revoke(delegates[i], mask);
+            if (revoked != 0) {
+                emit AccessRevoked(msg.sender, delegates[i], revoked);
+            }
+        }
+
+        emit HealthDataDeleted(msg.sender, mask);
+    }
+
+    /**
+     * @notice Set the caller's encrypted profile. Checks of metrics with a profile range table
+     * then select the normal range of the caller's profile homomorphically, so the profile
+     * is never revealed. A personal range still takes precedence. Setting it again replaces
+     * the previous profile. Requires the caller's consent.
+     * @param ageBand Encrypted age band (0 = child, 1 = adult, 2 = senior)
+     * @param sex Encrypted sex (0 = female, 1 = male)
+     * @param inputProof ZK proof for the encrypted inputs
+     */
+    function setProfile(externalEuint8 ageBand, externalEuint8 sex, bytes calldata inputProof) external {
+        _requireConsent();
+        userProfiles[msg.sender].set(ageBand, sex, inputProof);
+        emit ProfileSet(msg.sender);
+    }
+
+    /**
+     * @notice Whether the caller has set a profile
+     * @return Whether a profile is set
+     */
+    function hasProfile() external view returns (bool) {
+        return userProfiles[msg.sender].isSet();
+    }
+
+    /**
+     * @notice Get the caller's encrypted profile
+     * @return ageBand Encrypted age band (uninitialized if no profile is set)
+     * @return sex Encrypted sex (uninitialized if no profile is set)
+     */
+    function getProfile() external view returns (euint8 ageBand, euint8 sex) {
+        return (userProfiles[msg.sender].ageBand, userProfiles[msg.sender].sex);
+    }
+
+    /**
+     * @notice Set the normal range of a metric for one profile of the profile range table.
+     * The table is not versioned: statuses keep recording the default registry version.
+     * @param metric The health metric to update
+     * @param ageBand Age band of the profile (0 = child, 1 = adult, 2 = senior)
+     * @param sex Sex of the profile (0 = female, 1 = male)
+     * @param min Lower bound of the normal range
+     * @param max Upper bound of the normal range
+     */
+    function setProfileRange(uint8 metric, uint8 ageBand, uint8 sex, uint32 min, uint32 max) external onlyRangeAdmin {
+        _requireValidMetric(metric);
+        if (ageBand >= AGE_BAND_COUNT || sex >= SEX_COUNT) {
+            revert InvalidProfile(ageBand, sex);
+        }
+        HealthRange storage bands = defaultRanges[rangesVersion][metric];
+        if (min > max || min < bands.criticalMin || max > bands.criticalMax) {
+            revert InvalidRange(min, max);
+        }
+        _setProfileRange(metric, ageBand, sex, min, max);
+    }
+
+    /**
+     * @notice Get the normal range of a metric for one profile
+     * @param metric The health metric to query
+     * @param ageBand Age band of the profile
+     * @param sex Sex of the profile
+     * @return The profile's normal range, not configured if the profile has no range for the metric
+     */
+    function getProfileRange(
+        uint8 metric,
+        uint8 ageBand,
+        uint8 sex
+    ) external view returns (HealthProfiles.ProfileRange memory) {
+        return profileRanges[metric][ageBand * SEX_COUNT + sex];
+    }
+
+    /**
+     * @notice Share the caller's statuses for the given metrics with a delegate, e.g. a doctor.
+     * The delegate is allowed to decrypt the current statuses and every future status of
+     * these metrics until the grant expires or is revoked. Granting again extends or
+     * shortens the expiry of all metrics shared with the delegate. Requires the caller's
+     * consent, whose version is recorded with the grant (SharingConsented).
+     * @param delegate The account to share with
+     * @param metricIds The metrics to share
+     * @param expiresAt Timestamp after which new statuses are no longer shared
+     */
+    function grantAccess(address delegate, uint8[] calldata metricIds, uint64 expiresAt) external {
+        if (delegate == address(0) || delegate == msg.sender) {
+            revert InvalidDelegate(delegate);
+        }
+        if (expiresAt <= block.timestamp) {
+            revert InvalidExpiry(expiresAt);
+        }
+        _requireConsent();
+
+        uint256 mask = _metricMask(metricIds);
+        userDelegations[msg.sender].grant(userHealthStatuses[msg.sender], delegate, mask, expiresAt);
+        emit AccessGranted(msg.sender, delegate, mask, expiresAt);
+        emit SharingConsented(msg.sender, delegate, consentVersion);
+    }
+
+    /**
+     * @notice Stop sharing the caller's future statuses for the given metrics with a delegate.
+     * Statuses already shared stay decryptable by the delegate (ACL grants are permanent).
+     * Nothing is emitted if none of the metrics were shared with the delegate.
+     * @param delegate The account to revoke
+     * @param metricIds The metrics to stop sharing
+     */
+    function revokeAccess(address delegate, uint8[] calldata metricIds) external {
+        uint256 revoked = userDelegations[msg.sender].revoke(delegate, _metricMask(metricIds));
+        if (revoked != 0) {
+            emit AccessRevoked(msg.sender, delegate, revoked);
+        }
+    }
+
+    /**
+     * @notice Get the delegates of a user, including expired ones
+     * @param user The user whose delegates to list
+     * @return The delegates, in no particular order
+     */
+    function getDelegates(address user) external view returns (address[] memory) {
+        return userDelegations[user].delegates;
+    }
+
+    /**
+     * @notice Get the metrics a user shares with a delegate
+     * @param user The sharing user
+     * @param delegate The delegate
+     * @return Bitmask of shared metric ids (bit i set = metric i shared)
+     */
+    function getDelegatedMetrics(address user, address delegate) external view returns (uint256) {
+        return userDelegations[user].metrics[delegate];
+    }
+
+    /**
+     * @notice Get when a user's grant to a delegate expires
+     * @param user The sharing user
+     * @param delegate The delegate
+     * @return Expiry timestamp, 0 if nothing is shared with the delegate
+     */
+    function getDelegationExpiry(address user, address delegate) external view returns (uint64) {
+        return userDelegations[user].expiries[delegate];
+    }
+
+    /**
+     * @notice Get a patient's encrypted health status for a metric shared with the caller
+     * @param patient The sharing user
+     * @param metric The health metric to query
+     * @return Encrypted health status, only while the caller's grant for the metric is live
+     */
+    function getHealthStatusOf(address patient, uint8 metric) external view returns (euint8) {
+        if (!userDelegations[patient].hasLiveAccess(msg.sender, metric)) {
+            revert Unauthorized(msg.sender);
+        }
+        return userHealthStatuses[patient][metric];
+    }
+
+    /**
+     * @notice Approve or unapprove a verifier contract allowed to receive attestations
+     * @param verifier The verifier contract
+     * @param approved Whether users can attest to the verifier
+     */
+    function setVerifierApproval(address verifier, bool approved) external onlyOwner {
+        approvedVerifiers[verifier] = approved;
+        emit VerifierApprovalUpdated(verifier, approved);
+    }
+
+    /**
+     * @notice Attest to an approved verifier whether all of the caller's vitals are normal.
+     * The result is an encrypted boolean over the latest status of every registered metric
+     * (an unchecked metric counts as not normal), decryptable by the caller and the verifier.
+     * It is a snapshot: later checks and deletions make it stale (see isAttestationCurrent)
+     * until the caller attests again.
+     * Requires the caller's consent, whose version is recorded with the attestation.
+     * @param verifier The approved verifier contract
+     * @return allNormal Encrypted attestation
+     */
+    function attestAllNormal(address verifier) external returns (ebool allNormal) {
+        if (!approvedVerifiers[verifier]) {
+            revert UnapprovedVerifier(verifier);
+        }
+        _requireConsent();
+
+        if (!FHE.isInitialized(attestations[msg.sender][verifier])) {
+            attestedVerifiers[msg.sender].push(verifier);
+        }
+        allNormal = HealthAttestations.attestAllNormal(
+            attestations[msg.sender],
+            userHealthStatuses[msg.sender],
+            metricCount,
+            verifier
         );
+        attestationUpdateCounts[msg.sender][verifier] = statusUpdateCounts[msg.sender];
+        emit AttestationCreated(msg.sender, verifier);
+        emit SharingConsented(msg.sender, verifier, consentVersion);
+    }
 
-        userHealthStatuses[msg.sender][uint8(HealthMetric.BODY_TEMPERATURE)] = status;
-        FHE.allowThis(status);
-        FHE.allow(status, msg.sender);
-        emit HealthStatusUpdated(msg.sender, uint8(HealthMetric.BODY_TEMPERATURE));
+    /**
+     * @notice Get a user's latest attestation to a verifier
+     * @param user The attesting user
+     * @param verifier The verifier contract
+     * @return Encrypted "all vitals normal" flag, uninitialized if the user never attested
+     */
+    function getAttestation(address user, address verifier) external view returns (ebool) {
+        return attestations[user][verifier];
     }
 
     /**
-     * @dev Check blood oxygen saturation and store encrypted health status
-     * @param bloodOxygen Encrypted blood oxygen saturation value (percentage)
+     * @notice Whether a user's attestation to a verifier still reflects their latest statuses
+     * @param user The attesting user
+     * @param verifier The verifier contract
+     * @return False if the user never attested, or checked or deleted a metric since
+     */
+    function isAttestationCurrent(address user, address verifier) external view returns (bool) {
+        return
+            FHE.isInitialized(attestations[user][verifier]) &&
+            attestationUpdateCounts[user][verifier] == statusUpdateCounts[user];
+    }
+
+    /**
+     * @notice Set the minimum number of distinct submitters a metric needs before its
+     * population counters can be revealed
+     * @param minSubmitters The new threshold
+     */
+    function setMinStatsSubmitters(uint32 minSubmitters) external onlyOwner {
+        minStatsSubmitters = minSubmitters;
+        emit MinStatsSubmittersUpdated(minSubmitters);
+    }
+
+    /**
+     * @notice Request the public decryption of a metric's population counters. The
+     * decryption oracle reveals the totals through onStatsDecrypted. Requires
+     * minStatsSubmitters distinct users to have checked the metric since the last request.
+     * @param metric The health metric whose counters to reveal
+     * @return requestId The decryption oracle request id
+     */
+    function requestStatsDecryption(uint8 metric) external onlyOwner returns (uint256 requestId) {
+        _requireValidMetric(metric);
+        HealthStatistics.Population storage population = populations[metric];
+        if (!population.hasCounts()) {
+            revert NoStatistics(metric);
+        }
+        if (population.submitterCount < minStatsSubmitters) {
+            revert NotEnoughSubmitters(metric, population.submitterCount, minStatsSubmitters);
+        }
+
+        requestId = population.requestDecryption(this.onStatsDecrypted.selector);
+        statsDecryptionRequests[requestId] = uint16(metric) + 1;
+        emit StatsDecryptionRequested(metric, requestId);
+    }
+
+    /**
+     * @notice Decryption oracle callback revealing population counters
+     * @param requestId The request id returned by requestStatsDecryption
+     * @param cleartexts ABI-encoded normal, low and high totals
+     * @param decryptionProof KMS signatures over the cleartexts
+     */
+    function onStatsDecrypted(uint256 requestId, bytes calldata cleartexts, bytes calldata decryptionProof) external {
+        uint16 entry = statsDecryptionRequests[requestId];
+        if (entry == 0) {
+            revert UnknownDecryptionRequest(requestId);
+        }
+        (uint32 normal, uint32 low, uint32 high) = HealthStatistics.verifyDecryption(
+            requestId,
+            cleartexts,
+            decryptionProof
+        );
+        delete statsDecryptionRequests[requestId];
+
+        uint8 metric = uint8(entry - 1);
+        revealedPopulationStats[metric] = PopulationStats(normal, low, high, uint64(block.timestamp));
+        emit StatsRevealed(metric, normal, low, high);
+    }
+
+    /**
+     * @notice Get the number of distinct users who checked a metric since its last reveal request
+     * @param metric The health metric to query
+     * @return Number of new distinct submitters
+     */
+    function statsSubmitterCounts(uint8 metric) external view returns (uint32) {
+        return populations[metric].submitterCount;
+    }
+
+    /**
+     * @notice Get the last publicly revealed population totals of a metric
+     * @param metric The health metric to query
+     * @return The revealed totals and when they were revealed (all zero before the first reveal)
+     */
+    function getPopulationStats(uint8 metric) external view returns (PopulationStats memory) {
+        return revealedPopulationStats[metric];
+    }
+
+    /**
+     * @notice Get the user's encrypted health status for a specific metric
+     * @param metric The health metric to query
+     * @return Encrypted health status (0=normal, 1=low, 2=high, 3=critical low, 4=critical high)
+     */
+    function getHealthStatus(uint8 metric) external view returns (euint8) {
+        return userHealthStatuses[msg.sender][metric];
+    }
+
+    /**
+     * @notice Get the user's encrypted combined blood pressure category
+     * @return Encrypted category (0=normal, 1=elevated, 2=stage 1, 3=stage 2, 4=hypotension,
+     * 5=invalid), uninitialized until checkBloodPressureFull is called. Past categories are kept
+     * in the blood pressure history (see getHealthHistory).
+     */
+    function getBloodPressureCategory() external view returns (euint8) {
+        return userBloodPressureCategories[msg.sender];
+    }
+
+    /**
+     * @notice Get the default range registry version the user's status for a metric was evaluated against
+     * @param metric The health metric to query
+     * @return Registry version, 0 if evaluated against a personal range or never checked
+     */
+    function getHealthStatusRangeVersion(uint8 metric) external view returns (uint32) {
+        return userStatusRangeVersions[msg.sender][metric];
+    }
+
+    /**
+     * @notice Get the user's encrypted composite health score
+     * @return Encrypted number of metrics whose latest status is not normal
+     */
+    function getHealthScore() external view returns (euint8) {
+        return userHealthScores[msg.sender];
+    }
+
+    /**
+     * @notice Get encrypted trend of the user's latest reading for a metric
+     * @param metric The health metric to query
+     * @return Encrypted trend: 0 = stable, 1 = improving, 2 = worsening (relative to the normal range)
+     */
+    function getTrend(uint8 metric) external view returns (euint8) {
+        return userHealthTrends[msg.sender][metric];
+    }
+
+    /**
+     * @notice Get the number of entries in the user's health history for a metric
+     * @param metric The health metric to query
+     * @return Number of checks of the metric since the history was last deleted
+     */
+    function getHealthHistoryLength(uint8 metric) external view returns (uint256) {
+        return userHealthHistory[msg.sender][metric].length;
+    }
+
+    /**
+     * @notice Get a page of the user's health history for a metric, oldest first
+     * @param metric The health metric to query
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return records Encrypted statuses and readings with their block timestamps, the range version
+     * each status was computed with, and the combined category of blood pressure records stored by
+     * checkBloodPressureFull
+     */
+    function getHealthHistory(
+        uint8 metric,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (HealthRecord[] memory records) {
+        HealthHistory storage history = userHealthHistory[msg.sender][metric];
+        if (offset >= history.length) {
+            return new HealthRecord[](0);
+        }
+
+        if (limit > history.length - offset) {
+            limit = history.length - offset;
+        }
+
+        records = new HealthRecord[](limit);
+        for (uint256 i = 0; i < limit; ++i) {
+            records[i] = history.records[offset + i];
+        }
+    }
+
+    /**
+     * @notice Get a registered metric with its current default range
+     * @param metric The registered metric id
+     * @return The metric's registry entry and default range
+     */
+    function getMetric(uint8 metric) external view returns (MetricDefinition memory) {
+        _requireValidMetric(metric);
+        return _getMetricDefinition(metric);
+    }
+
+    /**
+     * @notice Get every registered metric with its current default range
+     * @return definitions Every metric, by id
+     */
+    function getMetrics() external view returns (MetricDefinition[] memory definitions) {
+        definitions = new MetricDefinition[](metricCount);
+        for (uint8 i = 0; i < metricCount; ++i) {
+            definitions[i] = _getMetricDefinition(i);
+        }
+    }
+
+    /**
+     * @notice Get the current default ranges for all health metrics
+     * @return metricTypes Metric ids
+     * @return mins Lower bounds of the normal ranges (scaled)
+     * @return maxs Upper bounds of the normal ranges (scaled)
+     * @return units Units of the metrics
+     * @return descriptions Descriptions of the metrics
+     * @return version The current registry version
+     * @return statsThreshold Minimum number of new distinct submitters before statistics can be revealed
+     */
+    function getHealthMetricRanges()
+        external
+        view
+        returns (
+            uint8[] memory metricTypes,
+            uint32[] memory mins,
+            uint32[] memory maxs,
+            string[] memory units,
+            string[] memory descriptions,
+            uint32 version,
+            uint32 statsThreshold
+        )
+    {
+        version = rangesVersion;
+        statsThreshold = minStatsSubmitters;
+        (metricTypes, mins, maxs, units, descriptions) = _getHealthMetricRanges(version);
+    }
+
+    /**
+     * @notice Get the default ranges for all health metrics as of a past registry version
+     * @param version The registry version to query (1 = initial ranges)
+     * @return metricTypes Metric ids registered in that version
+     * @return mins Lower bounds of the normal ranges (scaled)
+     * @return maxs Upper bounds of the normal ranges (scaled)
+     * @return units Units of the metrics
+     * @return descriptions Descriptions of the metrics
+     */
+    function getHealthMetricRangesAt(
+        uint32 version
+    )
+        external
+        view
+        returns (
+            uint8[] memory metricTypes,
+            uint32[] memory mins,
+            uint32[] memory maxs,
+            string[] memory units,
+            string[] memory descriptions
+        )
+    {
+        if (version == 0 || version > rangesVersion) {
+            revert UnknownRangesVersion(version);
+        }
+        return _getHealthMetricRanges(version);
+    }
+
+    /**
+     * @notice Get the expected blood pressure ranges for UI display (backward compatibility)
+     * @return min Lower bound of the systolic normal range (mmHg)
+     * @return max Upper bound of the systolic normal range (mmHg)
+     */
+    function getBloodPressureRanges() external view returns (uint32 min, uint32 max) {
+        HealthRange storage range = defaultRanges[rangesVersion][uint8(HealthMetric.BLOOD_PRESSURE)];
+        return (range.min, range.max);
+    }
+
+    /**
+     * @notice Default ranges of the metrics registered in a registry version
+     * @param version The registry version
+     * @return metricTypes Metric ids
+     * @return mins Lower bounds of the normal ranges (scaled)
+     * @return maxs Upper bounds of the normal ranges (scaled)
+     * @return units Units of the metrics
+     * @return descriptions Descriptions of the metrics
+     */
+    function _getHealthMetricRanges(
+        uint32 version
+    )
+        private
+        view
+        returns (
+            uint8[] memory metricTypes,
+            uint32[] memory mins,
+            uint32[] memory maxs,
+            string[] memory units,
+            string[] memory descriptions
+        )
+    {
+        uint8 count = rangesVersionMetricCounts[version];
+        metricTypes = new uint8[](count);
+        mins = new uint32[](count);
+        maxs = new uint32[](count);
+        units = new string[](count);
+        descriptions = new string[](count);
+
+        for (uint8 i = 0; i < count; ++i) {
+            metricTypes[i] = i;
+            mins[i] = defaultRanges[version][i].min;
+            maxs[i] = defaultRanges[version][i].max;
+            units[i] = metrics[i].unit;
+            descriptions[i] = metrics[i].description;
+        }
+    }
+
+    /**
+     * @notice A registered metric with its current default range
+     * @param metric The registered metric id
+     * @return The metric's registry entry and default range
+     */
+    function _getMetricDefinition(uint8 metric) private view returns (MetricDefinition memory) {
+        MetricInfo storage info = metrics[metric];
+        HealthRange storage range = defaultRanges[rangesVersion][metric];
+        return
+            MetricDefinition(
+                metric,
+                info.name,
+                info.unit,
+                info.description,
+                info.scale,
+                range.min,
+                range.max,
+                range.criticalMin,
+                range.criticalMax,
+                info.plausibleMin,
+                info.plausibleMax
+            );
+    }
+
+    /**
+     * @notice Check an encrypted reading of a registered metric and store its status
+     * @param metric The metric to check
+     * @param encryptedValue Encrypted reading (scaled)
      * @param inputProof ZK proof for the encrypted input
      */
-    function checkBloodOxygen(
-        externalEuint32 bloodOxygen,
-        bytes calldata inputProof
-    ) external {
-        euint32 bo = FHE.fromExternal(bloodOxygen, inputProof);
+    function _checkMetric(uint8 metric, externalEuint32 encryptedValue, bytes calldata inputProof) private {
+        _requireValidMetric(metric);
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        _storeHealthStatus(metric, value);
+    }
+
+    /**
+     * @notice Classify an encrypted value against the caller's range for the metric
+     * (personal range if set, the current default range otherwise) and store the encrypted status.
+     * The current default critical bands always apply and take precedence over the normal range.
+     * Reverts unless the caller consented to the current terms.
+     * @param metric The checked metric
+     * @param value The encrypted reading (scaled)
+     */
+    function _storeHealthStatus(uint8 metric, euint32 value) private {
+        _requireConsent();
+        (euint32 rangeMin, euint32 rangeMax, uint32 version) = _getNormalRange(metric);
+
+        HealthRange storage bands = defaultRanges[rangesVersion][metric];
+        ebool belowRange = FHE.lt(value, rangeMin);
+        ebool aboveRange = FHE.gt(value, rangeMax);
         euint8 status = FHE.select(
-            FHE.lt(bo, FHE.asEuint32(BO_NORMAL_MIN)),
-            FHE.asEuint8(1), // low
-            FHE.select(
-                FHE.gt(bo, FHE.asEuint32(BO_NORMAL_MAX)),
-                FHE.asEuint8(2), // high
-                FHE.asEuint8(0)  // normal
-            )
+            belowRange,
+            FHE.asEuint8(STATUS_LOW),
+            FHE.select(aboveRange, FHE.asEuint8(STATUS_HIGH), FHE.asEuint8(STATUS_NORMAL))
         );
+        status = FHE.select(FHE.lt(value, bands.criticalMin), FHE.asEuint8(STATUS_CRITICAL_LOW), status);
+        status = FHE.select(FHE.gt(value, bands.criticalMax), FHE.asEuint8(STATUS_CRITICAL_HIGH), status);
 
-        userHealthStatuses[msg.sender][uint8(HealthMetric.BLOOD_OXYGEN)] = status;
+        // Readings outside the physiological bounds are invalid rather than low or high
+        status = FHE.select(_isImplausible(metrics[metric], value), FHE.asEuint8(STATUS_INVALID), status);
+
+        _updateHealthScore(userHealthStatuses[msg.sender][metric], status);
+        populations[metric].record(status);
+
+        userHealthStatuses[msg.sender][metric] = status;
+        userStatusRangeVersions[msg.sender][metric] = version;
+        ++statusUpdateCounts[msg.sender];
         FHE.allowThis(status);
         FHE.allow(status, msg.sender);
-        emit HealthStatusUpdated(msg.sender, uint8(HealthMetric.BLOOD_OXYGEN));
+        userDelegations[msg.sender].allowDelegates(status, metric);
+
+        _storeTrend(metric, value, rangeMin, rangeMax, belowRange, aboveRange);
+
+        HealthHistory storage history = userHealthHistory[msg.sender][metric];
+        history.records[history.length] = HealthRecord(status, value, uint64(block.timestamp), version, euint8.wrap(0));
+        ++history.length;
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+        emit HealthStatusUpdated(msg.sender, metric);
     }
 
     /**
-     * @dev Get the user's encrypted health status for a specific metric
-     * @param metric The health metric to query
-     * @return Encrypted health status (0=normal, 1=low, 2=high)
+     * @notice The caller's normal range for a metric: the personal range if set, otherwise the
+     * current default range, or the caller's profile range when the metric has a profile table
+     * @param metric The checked metric
+     * @return rangeMin Encrypted lower bound
+     * @return rangeMax Encrypted upper bound
+     * @return version Registry version of the default range, 0 for a personal range
      */
-    function getHealthStatus(uint8 metric) external view returns (euint8) {
-        return userHealthStatuses[msg.sender][metric];
+    function _getNormalRange(uint8 metric) private returns (euint32 rangeMin, euint32 rangeMax, uint32 version) {
+        rangeMin = userRangeMins[msg.sender][metric];
+        rangeMax = userRangeMaxs[msg.sender][metric];
+        if (FHE.isInitialized(rangeMin)) {
+            return (rangeMin, rangeMax, 0);
+        }
+
+        version = rangesVersion;
+        HealthRange storage range = defaultRanges[version][metric];
+        HealthProfiles.UserProfile storage profile = userProfiles[msg.sender];
+        if (profile.isSet() && (profileRangeMetrics >> metric) & 1 == 1) {
+            (rangeMin, rangeMax) = profile.selectRange(profileRanges[metric], range.min, range.max);
+        } else {
+            rangeMin = FHE.asEuint32(range.min);
+            rangeMax = FHE.asEuint32(range.max);
+        }
+    }
+
+    /**
+     * @notice Store the trend of a new reading compared to the caller's previous one, before the
+     * reading is added to the history
+     * @param metric The checked metric
+     * @param value The new encrypted reading
+     * @param rangeMin Encrypted lower bound of the caller's normal range
+     * @param rangeMax Encrypted upper bound of the caller's normal range
+     * @param below Whether the new reading is below the range
+     * @param above Whether the new reading is above the range
+     */
+    function _storeTrend(
+        uint8 metric,
+        euint32 value,
+        euint32 rangeMin,
+        euint32 rangeMax,
+        ebool below,
+        ebool above
+    ) private {
+        // The first reading of a metric has nothing to compare against and is stable
+        HealthHistory storage history = userHealthHistory[msg.sender][metric];
+        euint8 trend = FHE.asEuint8(0);
+        if (history.length > 0) {
+            euint32 previousValue = history.records[history.length - 1].value;
+            euint32 previousDistance = _distanceToRange(
+                previousValue,
+                rangeMin,
+                rangeMax,
+                FHE.lt(previousValue, rangeMin),
+                FHE.gt(previousValue, rangeMax)
+            );
+            euint32 distance = _distanceToRange(value, rangeMin, rangeMax, below, above);
+            trend = FHE.select(
+                FHE.lt(distance, previousDistance),
+                FHE.asEuint8(1), // improving
+                FHE.select(
+                    FHE.gt(distance, previousDistance),
+                    FHE.asEuint8(2), // worsening
+                    FHE.asEuint8(0) // stable
+                )
+            );
+        }
+        userHealthTrends[msg.sender][metric] = trend;
+        FHE.allowThis(trend);
+        FHE.allow(trend, msg.sender);
     }
 
+    /**
+     * @notice Store the normal range of a metric for one profile
+     * @param metric The metric
+     * @param ageBand Age band of the profile
+     * @param sex Sex of the profile
+     * @param min Lower bound of the normal range (scaled)
+     * @param max Upper bound of the normal range (scaled)
+     */
+    function _setProfileRange(uint8 metric, uint8 ageBand, uint8 sex, uint32 min, uint32 max) private {
+        profileRanges[metric][ageBand * SEX_COUNT + sex] = HealthProfiles.ProfileRange(min, max, true);
+        profileRangeMetrics |= uint256(1) << metric;
+        emit ProfileRangeUpdated(metric, ageBand, sex, min, max);
+    }
 
     /**
-     * @dev Get the expected ranges for all health metrics
-     * Returns arrays: [metricTypes[], mins[], maxs[], units[], descriptions[]]
+     * @notice Replace a metric's previous status by its new one in the sender's abnormal metric count
+     * @param previousStatus The metric's previous status (uninitialized if never checked)
+     * @param status The metric's new status (normal when the metric is deleted)
      */
-    function getHealthMetricRanges() external pure returns (
-        uint8[] memory metricTypes,
-        uint32[] memory mins,
-        uint32[] memory maxs,
-        string[] memory units,
-        string[] memory descriptions
-    ) {
-        uint8[] memory types = new uint8[](5);
-        uint32[] memory minimums = new uint32[](5);
-        uint32[] memory maximums = new uint32[](5);
-        string[] memory unitStrings = new string[](5);
-        string[] memory descStrings = new string[](5);
+    function _updateHealthScore(euint8 previousStatus, euint8 status) private {
+        euint8 score = userHealthScores[msg.sender];
+        if (!FHE.isInitialized(score)) {
+            score = FHE.asEuint8(0);
+        }
 
-        // Blood Pressure
-        types[0] = uint8(HealthMetric.BLOOD_PRESSURE);
-        minimums[0] = BP_NORMAL_MIN;
-        maximums[0] = BP_NORMAL_MAX;
-        unitStrings[0] = "mmHg";
-        descStrings[0] = "Systolic Blood Pressure";
+        if (FHE.isInitialized(previousStatus)) {
+            score = FHE.sub(score, FHE.asEuint8(FHE.ne(previousStatus, STATUS_NORMAL)));
+        }
+        score = FHE.add(score, FHE.asEuint8(FHE.ne(status, STATUS_NORMAL)));
 
-        // Heart Rate
-        types[1] = uint8(HealthMetric.HEART_RATE);
-        minimums[1] = HR_NORMAL_MIN;
-        maximums[1] = HR_NORMAL_MAX;
-        unitStrings[1] = "bpm";
-        descStrings[1] = "Heart Rate";
+        userHealthScores[msg.sender] = score;
+        FHE.allowThis(score);
+        FHE.allow(score, msg.sender);
+    }
 
-        // Blood Glucose
-        types[2] = uint8(HealthMetric.BLOOD_GLUCOSE);
-        minimums[2] = BG_NORMAL_MIN;
-        maximums[2] = BG_NORMAL_MAX;
-        unitStrings[2] = "mg/dL";
-        descStrings[2] = "Fasting Blood Glucose";
+    /**
+     * @notice Encrypted distance of a value to the range [min, max], 0 inside the range
+     * @param value The encrypted value
+     * @param min Encrypted lower bound of the range
+     * @param max Encrypted upper bound of the range
+     * @param below Whether the value is below min
+     * @param above Whether the value is above max
+     * @return The encrypted distance
+     */
+    function _distanceToRange(
+        euint32 value,
+        euint32 min,
+        euint32 max,
+        ebool below,
+        ebool above
+    ) private returns (euint32) {
+        return FHE.select(below, FHE.sub(min, value), FHE.select(above, FHE.sub(value, max), FHE.asEuint32(0)));
+    }
 
-        // Body Temperature
-        types[3] = uint8(HealthMetric.BODY_TEMPERATURE);
-        minimums[3] = BT_NORMAL_MIN;
-        maximums[3] = BT_NORMAL_MAX;
-        unitStrings[3] = "Celsius (x10)";
-        descStrings[3] = "Body Temperature (multiplied by 10)";
+    /**
+     * @notice Add a built-in metric to the registry with its default range in the current registry version
+     * @param info The metric's registry entry, with its physiological bounds
+     * @param range The metric's default range and critical bands
+     * @return metric The new metric id
+     */
+    function _registerMetric(MetricInfo memory info, HealthRange memory range) private returns (uint8 metric) {
+        uint32 version = rangesVersion;
+        metric = _nextMetricId(version);
+        metrics[metric] = info;
+        defaultRanges[version][metric] = range;
 
-        // Blood Oxygen
-        types[4] = uint8(HealthMetric.BLOOD_OXYGEN);
-        minimums[4] = BO_NORMAL_MIN;
-        maximums[4] = BO_NORMAL_MAX;
-        unitStrings[4] = "%";
-        descStrings[4] = "Blood Oxygen Saturation";
+        emit MetricRegistered(metric, info.name, info.unit, info.scale);
+        emit DefaultRangeUpdated(version, metric, range.min, range.max);
+        emit SeverityBandsUpdated(version, metric, range.criticalMin, range.criticalMax);
+    }
 
-        return (types, minimums, maximums, unitStrings, descStrings);
+    /**
+     * @notice Whether a reading is outside a metric's physiological bounds
+     * @param info The metric's registry entry
+     * @param value The encrypted reading (scaled)
+     * @return Encrypted true if the reading cannot be physiological
+     */
+    function _isImplausible(MetricInfo storage info, euint32 value) private returns (ebool) {
+        return FHE.or(FHE.lt(value, info.plausibleMin), FHE.gt(value, info.plausibleMax));
+    }
+
+    /**
+     * @notice Assign the id of a new metric and count it in a registry version
+     * @param version The registry version the metric is added to
+     * @return metric The new metric id
+     */
+    function _nextMetricId(uint32 version) private returns (uint8 metric) {
+        if (metricCount == type(uint8).max) {
+            revert MetricRegistryFull();
+        }
+
+        metric = metricCount;
+        metricCount = metric + 1;
+        rangesVersionMetricCounts[version] = metricCount;
+    }
+
+    /**
+     * @notice Add a unit the readings of a metric can be entered in
+     * @param metric The metric
+     * @param symbol Symbol of the unit
+     * @param offset Added to a reading before the conversion factor
+     * @param numerator Numerator of the conversion factor to the metric's unit
+     * @param denominator Denominator of the conversion factor to the metric's unit
+     */
+    function _addInputUnit(
+        uint8 metric,
+        string memory symbol,
+        int32 offset,
+        uint32 numerator,
+        uint32 denominator
+    ) private {
+        metricInputUnits[metric].push(InputUnit(symbol, offset, numerator, denominator));
+        emit InputUnitAdded(metric, symbol, offset, numerator, denominator);
+    }
+
+    /**
+     * @notice Start a new range registry version as a copy of the current one
+     * @return version The new registry version
+     */
+    function _newRangesVersion() private returns (uint32 version) {
+        uint32 previousVersion = rangesVersion;
+        version = previousVersion + 1;
+        for (uint8 i = 0; i < metricCount; ++i) {
+            defaultRanges[version][i] = defaultRanges[previousVersion][i];
+        }
+        rangesVersionMetricCounts[version] = metricCount;
+        rangesVersion = version;
+    }
+
+    /// @notice Revert unless the sender is the owner
+    function _checkOwner() private view {
+        if (msg.sender != owner) {
+            revert Unauthorized(msg.sender);
+        }
+    }
+
+    /// @notice Revert unless the sender is the owner or a range admin
+    function _checkRangeAdmin() private view {
+        if (msg.sender != owner && !rangeAdmins[msg.sender]) {
+            revert Unauthorized(msg.sender);
+        }
+    }
+
+    /// @notice Revert unless the sender consented to the current terms
+    function _requireConsent() private view {
+        if (userConsents[msg.sender].version != consentVersion || userConsents[msg.sender].timestamp == 0) {
+            revert ConsentRequired(msg.sender);
+        }
+    }
+
+    /**
+     * @notice Bitmask of the given metric ids (bit i set = metric i), reverts on an unregistered metric
+     * @param metricIds The metric ids
+     * @return mask The bitmask
+     */
+    function _metricMask(uint8[] calldata metricIds) private view returns (uint256 mask) {
+        for (uint256 i = 0; i < metricIds.length; ++i) {
+            _requireValidMetric(metricIds[i]);
+            mask |= uint256(1) << metricIds[i];
+        }
     }
 
     /**
-     * @dev Get the expected blood pressure ranges for UI display (backward compatibility)
+     * @notice Revert unless `metric` is a registered metric id
+     * @param metric The metric id to validate
      */
-    function getBloodPressureRanges() external pure returns (uint32 min, uint32 max) {
-        return (BP_NORMAL_MIN, BP_NORMAL_MAX);
+    function _requireValidMetric(uint8 metric) private view {
+        if (metric >= metricCount) {
+            revert InvalidMetric(metric);
+        }
     }
 }
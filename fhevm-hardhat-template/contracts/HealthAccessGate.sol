@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {FHE, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHEHealthChecker} from "./FHEHealthChecker.sol";
+
+/**
+ * @title Sample attestation verifier
+ * @author fhevm-hardhat-template
+ * @notice Grants access to users whose FHEHealthChecker attestation says all their vitals
+ * are normal. Users first call FHEHealthChecker.attestAllNormal with this contract's
+ * address, then requestAccess; the decryption oracle reveals the attestation through
+ * onAttestationDecrypted, which opens or closes the gate. Only the boolean is revealed,
+ * never the underlying statuses. Stale attestations are refused, and access ends as soon
+ * as the user checks or deletes a metric, or attests again.
+ */
+contract HealthAccessGate is SepoliaConfig {
+    /// @notice The checker whose attestations the gate accepts
+    FHEHealthChecker public immutable HEALTH_CHECKER;
+
+    // Attestation each user was last granted access with (uninitialized if denied)
+    mapping(address user => ebool attestation) private grantedAttestations;
+
+    // Pending public decryption requests: request id => requesting user, and the
+    // attestation being decrypted
+    mapping(uint256 requestId => address user) private accessRequests;
+    mapping(uint256 requestId => ebool attestation) private requestedAttestations;
+
+    error NoAttestation(address user);
+    error StaleAttestation(address user);
+    error UnknownDecryptionRequest(uint256 requestId);
+
+    /// @notice Emitted when a user requests the decryption of their attestation
+    /// @param user The requesting user
+    /// @param requestId The decryption oracle request id
+    event AccessRequested(address indexed user, uint256 requestId);
+
+    /// @notice Emitted when the decryption oracle reveals a user's attestation
+    /// @param user The requesting user
+    /// @param granted Whether the attestation said all vitals are normal
+    event AccessDecided(address indexed user, bool granted);
+
+    /// @notice Deploy a gate accepting attestations made with `checker`
+    /// @param checker The FHEHealthChecker users attest with
+    constructor(FHEHealthChecker checker) {
+        HEALTH_CHECKER = checker;
+    }
+
+    /**
+     * @notice Request the public decryption of the caller's attestation to this gate
+     * @return requestId The decryption oracle request id
+     */
+    function requestAccess() external returns (uint256 requestId) {
+        ebool allNormal = HEALTH_CHECKER.getAttestation(msg.sender, address(this));
+        if (!FHE.isInitialized(allNormal)) {
+            revert NoAttestation(msg.sender);
+        }
+        if (!HEALTH_CHECKER.isAttestationCurrent(msg.sender, address(this))) {
+            revert StaleAttestation(msg.sender);
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(allNormal);
+        requestId = FHE.requestDecryption(handles, this.onAttestationDecrypted.selector);
+        accessRequests[requestId] = msg.sender;
+        requestedAttestations[requestId] = allNormal;
+        emit AccessRequested(msg.sender, requestId);
+    }
+
+    /**
+     * @notice Decryption oracle callback opening or closing the gate for the requesting user
+     * @param requestId The request id returned by requestAccess
+     * @param cleartexts ABI-encoded attestation
+     * @param decryptionProof KMS signatures over the cleartexts
+     */
+    function onAttestationDecrypted(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        address user = accessRequests[requestId];
+        if (user == address(0)) {
+            revert UnknownDecryptionRequest(requestId);
+        }
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        ebool attestation = requestedAttestations[requestId];
+        delete accessRequests[requestId];
+        requestedAttestations[requestId] = ebool.wrap(0);
+
+        bool allNormal = abi.decode(cleartexts, (bool));
+        grantedAttestations[user] = allNormal ? attestation : ebool.wrap(0);
+        emit AccessDecided(user, allNormal);
+    }
+
+    /**
+     * @notice Whether a user has access: the attestation revealed as "all vitals normal" is
+     * still the user's latest attestation to this gate, and still current
+     * @param user The user to query
+     * @return Whether the gate is open for the user
+     */
+    function hasAccess(address user) external view returns (bool) {
+        ebool granted = grantedAttestations[user];
+        return
+            FHE.isInitialized(granted) &&
+            ebool.unwrap(HEALTH_CHECKER.getAttestation(user, address(this))) == ebool.unwrap(granted) &&
+            HEALTH_CHECKER.isAttestationCurrent(user, address(this));
+    }
+}
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title HealthAttestations
+ * @author fhevm-hardhat-template
+ * @notice Encrypted "all vitals normal" attestations of FHEHealthChecker users to verifier
+ * contracts. Linked by FHEHealthChecker, which validates the arguments and emits the events;
+ * the external functions run in its context, so `msg.sender` is the attesting user.
+ */
+library HealthAttestations {
+    // Status of a normal reading (FHEHealthChecker's STATUS_NORMAL)
+    uint8 private constant STATUS_NORMAL = 0;
+
+    /**
+     * @notice Attest to a verifier whether the latest status of every registered metric is
+     * normal (an unchecked metric counts as not normal), decryptable by the sender and the verifier
+     * @param attestations The sender's latest attestation to each verifier
+     * @param statuses The sender's latest status of each metric
+     * @param metricCount Number of registered metrics
+     * @param verifier The verifier contract
+     * @return allNormal Encrypted attestation
+     */
+    function attestAllNormal(
+        mapping(address verifier => ebool allNormal) storage attestations,
+        mapping(uint8 metric => euint8 status) storage statuses,
+        uint8 metricCount,
+        address verifier
+    ) external returns (ebool allNormal) {
+        allNormal = FHE.asEbool(true);
+        for (uint8 metric = 0; metric < metricCount; ++metric) {
+            euint8 status = statuses[metric];
+            if (!FHE.isInitialized(status)) {
+                allNormal = FHE.asEbool(false);
+                break;
+            }
+            allNormal = FHE.and(allNormal, FHE.eq(status, STATUS_NORMAL));
+        }
+
+        attestations[verifier] = allNormal;
+        FHE.allowThis(allNormal);
+        FHE.allow(allNormal, msg.sender);
+        FHE.allow(allNormal, verifier);
+    }
+}
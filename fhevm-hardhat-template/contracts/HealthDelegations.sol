@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {FHE, euint8} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title HealthDelegations
+ * @author fhevm-hardhat-template
+ * @notice Delegates a user of FHEHealthChecker shares health statuses with. Linked by
+ * FHEHealthChecker, which validates the arguments and emits the events; the external
+ * functions run in its context, so `msg.sender` is the sharing user.
+ */
+library HealthDelegations {
+    // Delegates (e.g. doctors) a user shares statuses with, the shared metrics of each
+    // delegate as a bitmask indexed by metric id, and when the grant expires.
+    // Expired delegates stay listed until revoked or granted again.
+    struct Delegations {
+        address[] delegates;
+        mapping(address delegate => uint256 metrics) metrics;
+        mapping(address delegate => uint64 expiresAt) expiries;
+    }
+
+    /**
+     * @notice Share the metrics of `mask` with a delegate until `expiresAt` and allow it to
+     * decrypt their current statuses. The metrics of a live grant are kept.
+     * @param self The sharing user's delegations
+     * @param statuses The sharing user's latest status of each metric
+     * @param delegate The account to share with
+     * @param mask Bitmask of the metrics to share
+     * @param expiresAt Timestamp after which new statuses are no longer shared
+     */
+    function grant(
+        Delegations storage self,
+        mapping(uint8 metric => euint8 status) storage statuses,
+        address delegate,
+        uint256 mask,
+        uint64 expiresAt
+    ) external {
+        // An expired grant does not carry its metrics over to the new one
+        uint256 previousMask = self.metrics[delegate];
+        if (self.expiries[delegate] <= block.timestamp) {
+            previousMask = 0;
+        }
+
+        for (uint256 metric = 0; mask >> metric != 0; ++metric) {
+            euint8 status = statuses[uint8(metric)];
+            if ((mask >> metric) & 1 == 1 && FHE.isInitialized(status)) {
+                FHE.allow(status, delegate);
+            }
+        }
+
+        uint256 newMask = previousMask | mask;
+        bool listed = self.metrics[delegate] != 0;
+        if (!listed && newMask != 0) {
+            self.delegates.push(delegate);
+        } else if (listed && newMask == 0) {
+            _removeDelegate(self, delegate);
+        }
+        self.metrics[delegate] = newMask;
+        self.expiries[delegate] = newMask == 0 ? 0 : expiresAt;
+    }
+
+    /**
+     * @notice Stop sharing the metrics of `mask` with a delegate
+     * @param self The sharing user's delegations
+     * @param delegate The account to revoke
+     * @param mask Bitmask of the metrics to stop sharing
+     * @return revoked Bitmask of the metrics that were shared with the delegate
+     */
+    function revoke(Delegations storage self, address delegate, uint256 mask) external returns (uint256 revoked) {
+        uint256 previousMask = self.metrics[delegate];
+        uint256 remainingMask = previousMask & ~mask;
+        self.metrics[delegate] = remainingMask;
+        if (previousMask != 0 && remainingMask == 0) {
+            self.expiries[delegate] = 0;
+            _removeDelegate(self, delegate);
+        }
+        return previousMask & mask;
+    }
+
+    /**
+     * @notice Allow the live delegates sharing `metric` to decrypt a new status
+     * @param self The sharing user's delegations
+     * @param status The new encrypted status, or a value derived from it
+     * @param metric The metric the status belongs to
+     */
+    function allowDelegates(Delegations storage self, euint8 status, uint8 metric) external {
+        address[] storage delegates = self.delegates;
+        for (uint256 i = 0; i < delegates.length; ++i) {
+            if (hasLiveAccess(self, delegates[i], metric)) {
+                FHE.allow(status, delegates[i]);
+            }
+        }
+    }
+
+    /**
+     * @notice Whether `metric` is currently shared with `delegate`
+     * @param self The sharing user's delegations
+     * @param delegate The delegate
+     * @param metric The metric to query
+     * @return Whether the delegate's grant covers the metric and has not expired
+     */
+    function hasLiveAccess(Delegations storage self, address delegate, uint8 metric) internal view returns (bool) {
+        return self.metrics[delegate] & (uint256(1) << metric) != 0 && block.timestamp < self.expiries[delegate];
+    }
+
+    /**
+     * @notice Remove a delegate from the delegate list (order is not preserved)
+     * @param self The sharing user's delegations
+     * @param delegate The delegate to remove
+     */
+    function _removeDelegate(Delegations storage self, address delegate) private {
+        address[] storage delegates = self.delegates;
+        for (uint256 i = 0; i < delegates.length; ++i) {
+            if (delegates[i] == delegate) {
+                delegates[i] = delegates[delegates.length - 1];
+                delegates.pop();
+                return;
+            }
+        }
+    }
+}
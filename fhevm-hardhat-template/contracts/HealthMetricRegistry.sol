@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+// Severity bands of a metric in the default range registry: normal range [min, max],
+// critical below criticalMin or above criticalMax, low/high in between
+struct HealthRange {
+    uint32 min;
+    uint32 max;
+    uint32 criticalMin;
+    uint32 criticalMax;
+}
+
+// Metadata of a registered metric. Readings outside [plausibleMin, plausibleMax]
+// cannot be physiological and are stored with the invalid status.
+struct MetricInfo {
+    string name;
+    string unit;
+    string description;
+    uint32 scale; // submitted values are multiplied by this factor (10 = one decimal)
+    uint32 plausibleMin;
+    uint32 plausibleMax;
+}
+
+/**
+ * @title HealthMetricRegistry
+ * @author fhevm-hardhat-template
+ * @notice Storage of the metrics range admins register in FHEHealthChecker with addMetric.
+ * Linked by FHEHealthChecker, which validates the arguments, assigns the metric id and
+ * emits the events.
+ */
+library HealthMetricRegistry {
+    // Critical bands of metrics registered without any (FHEHealthChecker's NO_CRITICAL_*)
+    uint32 private constant NO_CRITICAL_MIN = 0;
+    uint32 private constant NO_CRITICAL_MAX = type(uint32).max;
+
+    // Physiological bounds of registered metrics (every reading is plausible)
+    uint32 private constant NO_PLAUSIBLE_MIN = 0;
+    uint32 private constant NO_PLAUSIBLE_MAX = type(uint32).max;
+
+    /**
+     * @notice Store a new metric and its default range, without critical bands
+     * @param info The metric's registry entry
+     * @param range The metric's default range in the new registry version
+     * @param name Display name of the metric
+     * @param unit Unit of the submitted values
+     * @param description Longer description of the metric
+     * @param scale Fixed-point factor applied to submitted values (1 for integers)
+     * @param min Lower bound of the default normal range (scaled)
+     * @param max Upper bound of the default normal range (scaled)
+     */
+    function register(
+        MetricInfo storage info,
+        HealthRange storage range,
+        string calldata name,
+        string calldata unit,
+        string calldata description,
+        uint32 scale,
+        uint32 min,
+        uint32 max
+    ) external {
+        info.name = name;
+        info.unit = unit;
+        info.description = description;
+        info.scale = scale;
+        info.plausibleMin = NO_PLAUSIBLE_MIN;
+        info.plausibleMax = NO_PLAUSIBLE_MAX;
+
+        range.min = min;
+        range.max = max;
+        range.criticalMin = NO_CRITICAL_MIN;
+        range.criticalMax = NO_CRITICAL_MAX;
+    }
+}
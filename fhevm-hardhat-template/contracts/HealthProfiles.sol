@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, euint32, euint64, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title HealthProfiles
+ * @author fhevm-hardhat-template
+ * @notice Encrypted profiles (age band, sex) of FHEHealthChecker users and the selection of
+ * their normal range from a metric's profile range table. Linked by FHEHealthChecker, which
+ * validates the arguments and emits the events; the external functions run in its context,
+ * so `msg.sender` is the user.
+ */
+library HealthProfiles {
+    // Profiles of the profile range table: AGE_BAND_COUNT age bands x SEX_COUNT sexes
+    uint8 internal constant AGE_BAND_COUNT = 3;
+    uint8 internal constant SEX_COUNT = 2;
+    uint8 internal constant PROFILE_COUNT = AGE_BAND_COUNT * SEX_COUNT;
+
+    // Normal range of a metric for one profile (age band, sex) of the profile range table
+    struct ProfileRange {
+        uint32 min;
+        uint32 max;
+        bool configured; // unconfigured profiles use the default range
+    }
+
+    // Encrypted user profile. The profile's table index (ageBand * SEX_COUNT + sex) is computed
+    // once and kept as one flag per table entry, so checks only select between table entries.
+    struct UserProfile {
+        euint8 ageBand; // 0 = child (<18), 1 = adult (18-64), 2 = senior (65+)
+        euint8 sex; // 0 = female, 1 = male
+        ebool[PROFILE_COUNT] matches; // whether the profile is the entry at each table index
+    }
+
+    /**
+     * @notice Set the sender's profile from encrypted inputs, decryptable by the sender
+     * @param self The sender's profile
+     * @param ageBand Encrypted age band (0 = child, 1 = adult, 2 = senior)
+     * @param sex Encrypted sex (0 = female, 1 = male)
+     * @param inputProof ZK proof for the encrypted inputs
+     */
+    function set(
+        UserProfile storage self,
+        externalEuint8 ageBand,
+        externalEuint8 sex,
+        bytes calldata inputProof
+    ) external {
+        euint8 encryptedAgeBand = FHE.fromExternal(ageBand, inputProof);
+        euint8 encryptedSex = FHE.fromExternal(sex, inputProof);
+        euint8 index = FHE.add(FHE.mul(encryptedAgeBand, SEX_COUNT), encryptedSex);
+        for (uint8 i = 0; i < PROFILE_COUNT; ++i) {
+            ebool matches = FHE.eq(index, i);
+            self.matches[i] = matches;
+            FHE.allowThis(matches);
+        }
+
+        self.ageBand = encryptedAgeBand;
+        self.sex = encryptedSex;
+        FHE.allowThis(encryptedAgeBand);
+        FHE.allowThis(encryptedSex);
+        FHE.allow(encryptedAgeBand, msg.sender);
+        FHE.allow(encryptedSex, msg.sender);
+    }
+
+    /**
+     * @notice Select the normal range of a profile from a metric's profile range table,
+     * homomorphically so the profile is never revealed. Both bounds are selected together,
+     * packed into one value, with one select per configured table entry.
+     * @param self The profile, must be set
+     * @param table The metric's profile range table, indexed by profile index
+     * @param defaultMin Lower bound used by unconfigured profiles
+     * @param defaultMax Upper bound used by unconfigured profiles
+     * @return min Encrypted lower bound of the profile's normal range
+     * @return max Encrypted upper bound of the profile's normal range
+     */
+    function selectRange(
+        UserProfile storage self,
+        mapping(uint8 index => ProfileRange range) storage table,
+        uint32 defaultMin,
+        uint32 defaultMax
+    ) external returns (euint32 min, euint32 max) {
+        euint64 bounds = FHE.asEuint64(_pack(defaultMin, defaultMax));
+        for (uint8 i = 0; i < PROFILE_COUNT; ++i) {
+            ProfileRange storage range = table[i];
+            if (range.configured) {
+                bounds = FHE.select(self.matches[i], FHE.asEuint64(_pack(range.min, range.max)), bounds);
+            }
+        }
+        min = FHE.asEuint32(bounds);
+        max = FHE.asEuint32(FHE.shr(bounds, 32));
+    }
+
+    /**
+     * @notice Whether a profile is set
+     * @param self The profile
+     * @return Whether the profile's handles are initialized
+     */
+    function isSet(UserProfile storage self) internal view returns (bool) {
+        return FHE.isInitialized(self.ageBand);
+    }
+
+    /**
+     * @notice Pack the bounds of a range into one value, the upper bound in the high 32 bits
+     * @param min Lower bound of the range
+     * @param max Upper bound of the range
+     * @return The packed range
+     */
+    function _pack(uint32 min, uint32 max) private pure returns (uint64) {
+        return (uint64(max) << 32) | min;
+    }
+}
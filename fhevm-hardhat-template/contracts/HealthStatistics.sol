@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title HealthStatistics
+ * @author fhevm-hardhat-template
+ * @notice Encrypted population counters of the check results of a FHEHealthChecker metric.
+ * Linked by FHEHealthChecker, which validates the arguments and emits the events; the
+ * external functions run in its context, so `msg.sender` is the submitting user.
+ */
+library HealthStatistics {
+    // Number of population counters of a metric, one per status bucket
+    // (0 = normal, 1 = low, 2 = high)
+    uint8 internal constant BUCKET_COUNT = 3;
+
+    // Highest status counted as its own bucket (FHEHealthChecker's STATUS_HIGH)
+    uint8 private constant STATUS_HIGH = 2;
+
+    // Encrypted counters of every check result of a metric by status bucket, and the
+    // distinct users who checked it since the last reveal (tracked in plaintext for
+    // k-anonymity). Each reveal starts a new round; submittedRounds holds the last round
+    // (plus one) a user checked the metric in.
+    struct Population {
+        mapping(uint8 bucket => euint32 count) counts;
+        uint32 submitterCount;
+        uint32 round;
+        mapping(address user => uint32 round) submittedRounds;
+    }
+
+    /**
+     * @notice Add a check result of the sender to the population counters
+     * @param self The metric's population
+     * @param status The encrypted status of the check (see FHEHealthChecker's STATUS_*)
+     */
+    function record(Population storage self, euint8 status) external {
+        // Critical statuses are counted with their direction (critical low as low, critical high as high);
+        // invalid readings map to bucket 3 and are left out
+        euint8 bucket = FHE.select(FHE.gt(status, STATUS_HIGH), FHE.sub(status, 2), status);
+        for (uint8 code = 0; code < BUCKET_COUNT; ++code) {
+            euint32 count = self.counts[code];
+            if (!FHE.isInitialized(count)) {
+                count = FHE.asEuint32(0);
+            }
+            count = FHE.add(count, FHE.asEuint32(FHE.eq(bucket, code)));
+            self.counts[code] = count;
+            FHE.allowThis(count);
+        }
+
+        uint32 round = self.round + 1;
+        if (self.submittedRounds[msg.sender] != round) {
+            self.submittedRounds[msg.sender] = round;
+            ++self.submitterCount;
+        }
+    }
+
+    /**
+     * @notice Request the public decryption of the population counters and start a new
+     * round, so the next reveal needs new submitters again
+     * @param self The metric's population, with at least one check
+     * @param callbackSelector Selector of the caller's decryption oracle callback
+     * @return requestId The decryption oracle request id
+     */
+    function requestDecryption(Population storage self, bytes4 callbackSelector) external returns (uint256 requestId) {
+        bytes32[] memory handles = new bytes32[](BUCKET_COUNT);
+        for (uint8 code = 0; code < BUCKET_COUNT; ++code) {
+            handles[code] = FHE.toBytes32(self.counts[code]);
+        }
+        ++self.round;
+        self.submitterCount = 0;
+        return FHE.requestDecryption(handles, callbackSelector);
+    }
+
+    /**
+     * @notice Verify the KMS signatures of a decryption oracle callback and decode the
+     * revealed population counters
+     * @param requestId The request id returned by requestDecryption
+     * @param cleartexts ABI-encoded normal, low and high totals
+     * @param decryptionProof KMS signatures over the cleartexts
+     * @return normal Number of normal check results
+     * @return low Number of low check results
+     * @return high Number of high check results
+     */
+    function verifyDecryption(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external returns (uint32 normal, uint32 low, uint32 high) {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        return abi.decode(cleartexts, (uint32, uint32, uint32));
+    }
+
+    /**
+     * @notice Whether the population has any check result
+     * @param self The metric's population
+     * @return Whether the counters are initialized
+     */
+    function hasCounts(Population storage self) internal view returns (bool) {
+        return FHE.isInitialized(self.counts[0]);
+    }
+}
@@ -12,9 +12,26 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   console.log(`FHECounter contract: `, deployedFHECounter.address);
 
+  // FHEHealthChecker is linked to its libraries
+  const libraries: Record<string, string> = {};
+  for (const name of [
+    "HealthAttestations",
+    "HealthDelegations",
+    "HealthMetricRegistry",
+    "HealthProfiles",
+    "HealthStatistics",
+  ]) {
+    const deployedLibrary = await deploy(name, {
+      from: deployer,
+      log: true,
+    });
+    libraries[name] = deployedLibrary.address;
+  }
+
   const deployedFHEHealthChecker = await deploy("FHEHealthChecker", {
     from: deployer,
     log: true,
+    libraries,
   });
 
   console.log(`FHEHealthChecker contract: `, deployedFHEHealthChecker.address);
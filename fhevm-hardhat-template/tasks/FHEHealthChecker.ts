@@ -2,6 +2,8 @@ import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
+import type { FHEHealthChecker } from "../types";
+
 /**
  * Tutorial: Deploy and Interact with FHEHealthChecker Locally (--network localhost)
  * ================================================================================
@@ -14,11 +16,34 @@ import type { TaskArguments } from "hardhat/types";
  *
  *   npx hardhat --network localhost deploy
  *
- * 3. Interact with the FHEHealthChecker contract
+ * 3. Consent to the storage of your encrypted health data, then interact with the FHEHealthChecker contract
+ *
+ *   npx hardhat --network localhost task:health-consent
+ *   npx hardhat --network localhost task:health-check --metric 0 --value 120
+ *   npx hardhat --network localhost task:health-check --metric 0 --value 85
+ *   npx hardhat --network localhost task:health-check --metric 0 --value 150
+ *   npx hardhat --network localhost task:health-check-batch --values 120,75,85,365,98
+ *   npx hardhat --network localhost task:health-check --metric 3 --value 97.7 --unit F
+ *   npx hardhat --network localhost task:health-check-batch --values 120,75,5.4,36.5,98 --units ,,mmol/L,,
+ *   npx hardhat --network localhost task:health-check-bp --systolic 135 --diastolic 85
+ *   npx hardhat --network localhost task:health-score
+ *   npx hardhat --network localhost task:health-set-stats-threshold --min 1
+ *   npx hardhat --network localhost task:health-stats --metric 0 --reveal
+ *
+ * 4. Optionally store a personal (encrypted) reference range and read it back
+ *
+ *   npx hardhat --network localhost task:health-set-range --metric 1 --min 45 --max 90
+ *   npx hardhat --network localhost task:health-get-range --metric 1
+ *   npx hardhat --network localhost task:health-clear-range --metric 1
+ *   npx hardhat --network localhost task:health-profile --ageband senior --sex female
+ *   npx hardhat --network localhost task:health-delete --metrics 1
+ *   npx hardhat --network localhost task:health-consent --withdraw
  *
- *   npx hardhat --network localhost task:health-check --bp 120
- *   npx hardhat --network localhost task:health-check --bp 85
- *   npx hardhat --network localhost task:health-check --bp 150
+ * 5. Optionally share statuses with a doctor (here the second hardhat account)
+ *
+ *   npx hardhat --network localhost task:health-grant --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --metrics 0,1
+ *   npx hardhat --network localhost task:health-delegates
+ *   npx hardhat --network localhost task:health-revoke --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
  *
  *
  * Tutorial: Deploy and Interact with FHEHealthChecker on Sepolia (--network sepolia)
@@ -28,20 +53,185 @@ import type { TaskArguments } from "hardhat/types";
  *
  *   npx hardhat --network sepolia deploy
  *
- * 2. Interact with the FHEHealthChecker contract
+ * 2. Consent to the storage of your encrypted health data, then interact with the FHEHealthChecker contract
  *
- *   npx hardhat --network sepolia task:health-check --bp 120
- *   npx hardhat --network sepolia task:health-check --bp 85
- *   npx hardhat --network sepolia task:health-check --bp 150
+ *   npx hardhat --network sepolia task:health-consent
+ *   npx hardhat --network sepolia task:health-check --metric 0 --value 120
+ *   npx hardhat --network sepolia task:health-check --metric 0 --value 85
+ *   npx hardhat --network sepolia task:health-check --metric 0 --value 150
  *
  */
 
+/**
+ * Validates a --metric argument against the on-chain metric registry
+ */
+async function resolveMetric(contract: FHEHealthChecker, metric: string): Promise<{ id: number; name: string }> {
+  const metricCount = Number(await contract.metricCount());
+  const metricType = parseInt(metric);
+  if (!Number.isInteger(metricType) || metricType < 0 || metricType >= metricCount) {
+    throw new Error(`Argument --metric must be between 0 and ${metricCount - 1}`);
+  }
+  const definition = await contract.getMetric(metricType);
+  return { id: metricType, name: definition.name };
+}
+
+/**
+ * Validates a comma-separated --metrics argument against the on-chain metric registry
+ */
+async function resolveMetrics(contract: FHEHealthChecker, metrics: string): Promise<{ id: number; name: string }[]> {
+  const resolved = [];
+  for (const metric of metrics.split(",")) {
+    resolved.push(await resolveMetric(contract, metric));
+  }
+  return resolved;
+}
+
+/**
+ * Normalizes a unit symbol for matching command line arguments ("F" matches "°F")
+ */
+function normalizeUnit(symbol: string): string {
+  return symbol.replace("°", "").toLowerCase();
+}
+
+/**
+ * Converts a reading entered in one of the metric's input units (the metric's own unit
+ * when `unit` is empty) to the scaled integer the contract expects, as described by the
+ * metric's registry entry: (value + offset) * numerator / denominator * scale, rounded.
+ */
+async function toScaledValue(
+  contract: FHEHealthChecker,
+  metric: number,
+  value: number,
+  unit?: string,
+): Promise<number> {
+  const definition = await contract.getMetric(metric);
+  const units = await contract.getInputUnits(metric);
+  const inputUnit = unit ? units.find((u) => normalizeUnit(u.symbol) === normalizeUnit(unit)) : units[0];
+  if (!inputUnit) {
+    throw new Error(
+      `Unit ${unit} is not accepted for ${definition.name}, use ${units.map((u) => u.symbol).join(", ")}`,
+    );
+  }
+
+  const converted = ((value + Number(inputUnit.offset)) * Number(inputUnit.numerator)) / Number(inputUnit.denominator);
+  const scaled = Math.round(converted * Number(definition.scale));
+  if (scaled < 0 || scaled > 2 ** 32 - 1) {
+    throw new Error(`${value} ${inputUnit.symbol} is out of range for ${definition.name}`);
+  }
+  return scaled;
+}
+
+/**
+ * Converts a scaled integer stored by the contract back to the metric's own unit
+ */
+function fromScaledValue(value: bigint | number, scale: bigint | number): number {
+  return Number(value) / Number(scale);
+}
+
+/**
+ * Prints the delegates of `user` with the metrics shared with each of them and
+ * when the grant expires. `now` is the latest block timestamp.
+ */
+async function printDelegates(contract: FHEHealthChecker, user: string, now: number, expiredOnly = false) {
+  const delegates = await contract.getDelegates(user);
+  const metrics = await contract.getMetrics();
+
+  let printed = 0;
+  for (const delegate of delegates) {
+    const expiresAt = Number(await contract.getDelegationExpiry(user, delegate));
+    const expired = expiresAt <= now;
+    if (expiredOnly && !expired) {
+      continue;
+    }
+    if (printed++ === 0) {
+      console.log(expiredOnly ? `Expired delegates of ${user}:` : `Delegates of ${user}:`);
+    }
+
+    const mask = await contract.getDelegatedMetrics(user, delegate);
+    const names = metrics.filter((m) => (mask >> m.id) & 1n).map((m) => m.name);
+    const expiry = new Date(expiresAt * 1000).toISOString();
+    console.log(`  ${delegate}: ${names.join(", ")} (${expired ? "EXPIRED" : "expires"} ${expiry})`);
+  }
+
+  if (printed === 0) {
+    console.log(expiredOnly ? `${user} has no expired grants` : `${user} shares no metrics`);
+  }
+}
+
+/**
+ * Maps a decrypted health status to its display text
+ */
+function statusText(status: bigint): string {
+  const statusNum = Number(status);
+  if (statusNum === 0) {
+    return "NORMAL";
+  } else if (statusNum === 1) {
+    return "LOW";
+  } else if (statusNum === 2) {
+    return "HIGH";
+  } else if (statusNum === 3) {
+    return "CRITICAL LOW";
+  } else if (statusNum === 4) {
+    return "CRITICAL HIGH";
+  }
+  return "INVALID (outside physiological bounds)";
+}
+
+const AGE_BANDS = ["child", "adult", "senior"];
+const SEXES = ["female", "male"];
+
+/**
+ * Resolves a profile argument given by name (e.g. "senior") or by code (e.g. "2")
+ */
+function resolveProfileValue(name: string, value: string, labels: string[]): number {
+  const code = labels.includes(value.toLowerCase()) ? labels.indexOf(value.toLowerCase()) : parseInt(value);
+  if (!Number.isInteger(code) || code < 0 || code >= labels.length) {
+    throw new Error(`Argument --${name} must be one of ${labels.join(", ")} (or 0-${labels.length - 1})`);
+  }
+  return code;
+}
+
+/**
+ * Maps a decrypted trend to its display text
+ */
+function trendText(trend: bigint): string {
+  const trendNum = Number(trend);
+  if (trendNum === 1) {
+    return "IMPROVING";
+  } else if (trendNum === 2) {
+    return "WORSENING";
+  }
+  return "STABLE";
+}
+
+/**
+ * Maps a decrypted combined blood pressure category to its display text
+ */
+function bloodPressureCategoryText(category: bigint): string {
+  const categoryNum = Number(category);
+  if (categoryNum === 0) {
+    return "NORMAL";
+  } else if (categoryNum === 1) {
+    return "ELEVATED";
+  } else if (categoryNum === 2) {
+    return "STAGE 1 HYPERTENSION";
+  } else if (categoryNum === 3) {
+    return "STAGE 2 HYPERTENSION";
+  } else if (categoryNum === 4) {
+    return "HYPOTENSION";
+  }
+  return "INVALID";
+}
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:health-address
  *   - npx hardhat --network sepolia task:health-address
  */
-task("task:health-address", "Prints the FHEHealthChecker address").setAction(async function (_taskArguments: TaskArguments, hre) {
+task("task:health-address", "Prints the FHEHealthChecker address").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
   const { deployments } = hre;
 
   const fheHealthChecker = await deployments.get("FHEHealthChecker");
@@ -52,54 +242,162 @@ task("task:health-address", "Prints the FHEHealthChecker address").setAction(asy
 /**
  * Example:
  *   - npx hardhat --network localhost task:health-ranges
+ *   - npx hardhat --network localhost task:health-ranges --rangesversion 1
  *   - npx hardhat --network sepolia task:health-ranges
  */
-task("task:health-ranges", "Prints all health metric ranges").setAction(async function (_taskArguments: TaskArguments, hre) {
-  const { ethers, deployments } = hre;
+task("task:health-ranges", "Prints all health metric ranges")
+  .addOptionalParam("rangesversion", "Optionally print a past version of the default range registry")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
 
-  const fheHealthChecker = await deployments.get("FHEHealthChecker");
-  const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", fheHealthChecker.address);
+    const fheHealthChecker = await deployments.get("FHEHealthChecker");
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", fheHealthChecker.address);
+
+    const currentVersion = await fheHealthCheckerContract.rangesVersion();
+    let version = currentVersion;
+    if (taskArguments.rangesversion !== undefined) {
+      if (!/^\d+$/.test(taskArguments.rangesversion)) {
+        throw new Error(`Argument --rangesversion must be a positive integer`);
+      }
+      version = BigInt(taskArguments.rangesversion);
+      if (version < 1n || version > currentVersion) {
+        throw new Error(`Argument --rangesversion must be between 1 and the current version ${currentVersion}`);
+      }
+    }
 
-  const [metricTypes, mins, maxs, units, descriptions] = await fheHealthCheckerContract.getHealthMetricRanges();
+    const [metricTypes, mins, maxs, units, descriptions] =
+      version === currentVersion
+        ? await fheHealthCheckerContract.getHealthMetricRanges()
+        : await fheHealthCheckerContract.getHealthMetricRangesAt(version);
 
-  console.log("Health Metric Ranges:");
-  console.log("====================");
+    console.log(`Health Metric Ranges (version ${version} of ${currentVersion}):`);
+    console.log("====================");
 
-  const metricNames = ["Blood Pressure", "Heart Rate", "Blood Glucose", "Body Temperature", "Blood Oxygen"];
+    const metrics = await fheHealthCheckerContract.getMetrics();
 
-  for (let i = 0; i < metricTypes.length; i++) {
-    console.log(`${i + 1}. ${metricNames[i]} (${descriptions[i]})`);
-    console.log(`   Range: ${mins[i]} - ${maxs[i]} ${units[i]}`);
-    console.log("");
-  }
+    for (let i = 0; i < metricTypes.length; i++) {
+      console.log(`${i + 1}. ${metrics[i].name} (${descriptions[i]})`);
+      const scale = metrics[i].scale;
+      console.log(`   Range: ${fromScaledValue(mins[i], scale)} - ${fromScaledValue(maxs[i], scale)} ${units[i]}`);
+      console.log("");
+    }
 
-  // Also show legacy blood pressure ranges for compatibility
-  const bpRanges = await fheHealthCheckerContract.getBloodPressureRanges();
-  console.log(`Legacy BP range: ${bpRanges.min} - ${bpRanges.max} mmHg`);
-});
+    // Also show legacy blood pressure ranges for compatibility
+    const bpRanges = await fheHealthCheckerContract.getBloodPressureRanges();
+    console.log(`Legacy BP range: ${bpRanges.min} - ${bpRanges.max} mmHg`);
+
+    const [, , , , , , statsThreshold] = await fheHealthCheckerContract.getHealthMetricRanges();
+    console.log(`Statistics are revealed once ${statsThreshold} distinct users checked a metric`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-set-default-range --metric 1 --min 50 --max 100
+ *   - npx hardhat --network sepolia task:health-set-default-range --metric 1 --min 50 --max 100
+ */
+task("task:health-set-default-range", "Updates a default range (owner or range admin only)")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("metric", "The health metric id (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2, see task:health-metrics)")
+  .addParam("min", "Lower bound of the default normal range")
+  .addParam("max", "Upper bound of the default normal range")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const min = parseInt(taskArguments.min);
+    const max = parseInt(taskArguments.max);
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || min > max) {
+      throw new Error(`Arguments --min and --max must be integers with 0 <= min <= max`);
+    }
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const { id: metricType, name: metricName } = await resolveMetric(fheHealthCheckerContract, taskArguments.metric);
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).setDefaultRange(metricType, min, max);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const version = await fheHealthCheckerContract.rangesVersion();
+    console.log(`FHEHealthChecker setDefaultRange(${metricName}, ${min}, ${max}) succeeded!`);
+    console.log(`Default range registry is now at version ${version}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-set-severity-bands --metric 1 --criticalmin 40 --criticalmax 150
+ *   - npx hardhat --network sepolia task:health-set-severity-bands --metric 1 --criticalmin 40 --criticalmax 150
+ */
+task("task:health-set-severity-bands", "Updates the critical severity bands of a metric (owner or range admin only)")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("metric", "The health metric id (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2, see task:health-metrics)")
+  .addParam("criticalmin", "Readings below this value are critical low")
+  .addParam("criticalmax", "Readings above this value are critical high")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const criticalMin = parseInt(taskArguments.criticalmin);
+    const criticalMax = parseInt(taskArguments.criticalmax);
+    if (
+      !Number.isInteger(criticalMin) ||
+      !Number.isInteger(criticalMax) ||
+      criticalMin < 0 ||
+      criticalMin > criticalMax
+    ) {
+      throw new Error(
+        `Arguments --criticalmin and --criticalmax must be integers with 0 <= criticalmin <= criticalmax`,
+      );
+    }
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const { id: metricType, name: metricName } = await resolveMetric(fheHealthCheckerContract, taskArguments.metric);
+
+    const tx = await fheHealthCheckerContract
+      .connect(signers[0])
+      .setSeverityBands(metricType, criticalMin, criticalMax);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const version = await fheHealthCheckerContract.rangesVersion();
+    console.log(`FHEHealthChecker setSeverityBands(${metricName}, ${criticalMin}, ${criticalMax}) succeeded!`);
+    console.log(`Default range registry is now at version ${version}`);
+  });
 
 /**
  * Example:
  *   - npx hardhat --network localhost task:health-check --metric 0 --value 120
- *   - npx hardhat --network sepolia task:health-check --metric 1 --value 75
+ *   - npx hardhat --network localhost task:health-check --metric 3 --value 36.5
+ *   - npx hardhat --network sepolia task:health-check --metric 2 --value 5.4 --unit mmol/L
  */
 task("task:health-check", "Calls health check functions of FHEHealthChecker Contract")
   .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
-  .addParam("metric", "The health metric type (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2)")
-  .addParam("value", "The health value to check")
+  .addParam("metric", "The health metric id (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2, see task:health-metrics)")
+  .addParam("value", "The health value to check, e.g. 36.5")
+  .addOptionalParam("unit", "Unit of --value (see task:health-metrics), defaults to the metric's unit")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
 
-    const metricType = parseInt(taskArguments.metric);
-    const value = parseInt(taskArguments.value);
-
-    if (metricType < 0 || metricType > 4) {
-      throw new Error(`Argument --metric must be between 0 and 4`);
+    const reading = parseFloat(taskArguments.value);
+    if (!Number.isFinite(reading)) {
+      throw new Error(`Argument --value is not a number`);
     }
 
-    const metricNames = ["Blood Pressure", "Heart Rate", "Blood Glucose", "Body Temperature", "Blood Oxygen"];
-    const metricName = metricNames[metricType];
-
     await fhevm.initializeCLIApi();
 
     const FHEHealthCheckerDeployment = taskArguments.address
@@ -110,52 +408,29 @@ task("task:health-check", "Calls health check functions of FHEHealthChecker Cont
     const signers = await ethers.getSigners();
     const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
 
+    const { id: metricType, name: metricName } = await resolveMetric(fheHealthCheckerContract, taskArguments.metric);
+    const value = await toScaledValue(fheHealthCheckerContract, metricType, reading, taskArguments.unit);
+
     // Encrypt the value
     const encryptedValue = await fhevm
       .createEncryptedInput(FHEHealthCheckerDeployment.address, signers[0].address)
       .add32(value)
       .encrypt();
 
-    console.log(`Checking ${metricName}: ${value}`);
-
-    // Call the appropriate health check function
-    let tx;
-    switch (metricType) {
-      case 0:
-        tx = await fheHealthCheckerContract
-          .connect(signers[0])
-          .checkBloodPressure(encryptedValue.handles[0], encryptedValue.inputProof);
-        break;
-      case 1:
-        tx = await fheHealthCheckerContract
-          .connect(signers[0])
-          .checkHeartRate(encryptedValue.handles[0], encryptedValue.inputProof);
-        break;
-      case 2:
-        tx = await fheHealthCheckerContract
-          .connect(signers[0])
-          .checkBloodGlucose(encryptedValue.handles[0], encryptedValue.inputProof);
-        break;
-      case 3:
-        tx = await fheHealthCheckerContract
-          .connect(signers[0])
-          .checkBodyTemperature(encryptedValue.handles[0], encryptedValue.inputProof);
-        break;
-      case 4:
-        tx = await fheHealthCheckerContract
-          .connect(signers[0])
-          .checkBloodOxygen(encryptedValue.handles[0], encryptedValue.inputProof);
-        break;
-      default:
-        throw new Error("Invalid metric type");
-    }
+    console.log(
+      `Checking ${metricName}: ${reading}${taskArguments.unit ? ` ${taskArguments.unit}` : ""} (encrypted as ${value})`,
+    );
+
+    const tx = await fheHealthCheckerContract
+      .connect(signers[0])
+      .checkMetric(metricType, encryptedValue.handles[0], encryptedValue.inputProof);
 
     console.log(`Wait for tx:${tx.hash}...`);
     const receipt = await tx.wait();
     console.log(`tx:${tx.hash} status=${receipt?.status}`);
 
     // Get the encrypted result for the specific metric
-    const encryptedStatus = await fheHealthCheckerContract.getHealthStatus(metricType);
+    const encryptedStatus = await fheHealthCheckerContract.connect(signers[0]).getHealthStatus(metricType);
     console.log("Encrypted health status:", encryptedStatus);
 
     // Decrypt the result
@@ -166,16 +441,796 @@ task("task:health-check", "Calls health check functions of FHEHealthChecker Cont
       signers[0],
     );
 
-    const statusNum = Number(clearStatus);
-    let statusText;
-    if (statusNum === 0) {
-      statusText = "NORMAL";
-    } else if (statusNum === 1) {
-      statusText = "LOW";
+    const hasPersonalRange = await fheHealthCheckerContract.connect(signers[0]).hasPersonalRange(metricType);
+    console.log(`Health status for ${metricName} (${value}): ${statusText(clearStatus)} (${clearStatus})`);
+    if (hasPersonalRange) {
+      console.log("Evaluated against the personal range");
     } else {
-      statusText = "HIGH";
+      const rangeVersion = await fheHealthCheckerContract.connect(signers[0]).getHealthStatusRangeVersion(metricType);
+      console.log(`Evaluated against the default range (version ${rangeVersion})`);
     }
-    console.log(`Health status for ${metricName} (${value}): ${statusText} (${clearStatus})`);
+
+    const encryptedTrend = await fheHealthCheckerContract.connect(signers[0]).getTrend(metricType);
+    const clearTrend = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedTrend,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    console.log(`Trend since the previous reading: ${trendText(clearTrend)} (${clearTrend})`);
 
     console.log(`FHEHealthChecker health check(${metricName}, ${value}) succeeded!`);
   });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-check-batch --values 120,75,85,36.5,98
+ *   - npx hardhat --network localhost task:health-check-batch --metrics 2,3 --values 5.4,97.7 --units mmol/L,F
+ *   - npx hardhat --network sepolia task:health-check-batch --metrics 0,1 --values 120,75
+ */
+task("task:health-check-batch", "Checks several health metrics in one encrypted input and one transaction")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addOptionalParam("metrics", "Comma-separated metric ids, defaults to 0,1,2,... in the order of --values")
+  .addParam("values", "Comma-separated health values to check")
+  .addOptionalParam("units", "Comma-separated units of --values, an empty entry uses the metric's unit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const readings = String(taskArguments.values)
+      .split(",")
+      .map((v) => parseFloat(v));
+    if (readings.some((v) => !Number.isFinite(v))) {
+      throw new Error(`Argument --values must be a comma-separated list of numbers`);
+    }
+    const units = taskArguments.units !== undefined ? String(taskArguments.units).split(",") : [];
+    if (units.length > readings.length) {
+      throw new Error(`Argument --units has more entries than --values`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const metrics = await resolveMetrics(
+      fheHealthCheckerContract,
+      taskArguments.metrics !== undefined ? String(taskArguments.metrics) : readings.map((_, i) => i).join(","),
+    );
+    if (metrics.length !== readings.length) {
+      throw new Error(`Arguments --metrics and --values must have the same number of entries`);
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < metrics.length; i++) {
+      values.push(await toScaledValue(fheHealthCheckerContract, metrics[i].id, readings[i], units[i]));
+    }
+
+    // Encrypt all values in a single input sharing one proof
+    const input = fhevm.createEncryptedInput(FHEHealthCheckerDeployment.address, signers[0].address);
+    for (const value of values) {
+      input.add32(value);
+    }
+    const encryptedValues = await input.encrypt();
+
+    console.log(`Checking ${metrics.map((m, i) => `${m.name}: ${values[i]}`).join(", ")}`);
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).checkMetrics(
+      metrics.map((m) => m.id),
+      encryptedValues.handles,
+      encryptedValues.inputProof,
+    );
+
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    for (let i = 0; i < metrics.length; i++) {
+      const encryptedStatus = await fheHealthCheckerContract.connect(signers[0]).getHealthStatus(metrics[i].id);
+      const clearStatus = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        encryptedStatus,
+        FHEHealthCheckerDeployment.address,
+        signers[0],
+      );
+      console.log(`Health status for ${metrics[i].name} (${values[i]}): ${statusText(clearStatus)} (${clearStatus})`);
+    }
+
+    console.log(`FHEHealthChecker batch health check of ${metrics.length} metrics succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-check-bp --systolic 135 --diastolic 85
+ *   - npx hardhat --network sepolia task:health-check-bp --systolic 135 --diastolic 85
+ */
+task("task:health-check-bp", "Classifies systolic and diastolic blood pressure into a combined category")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("systolic", "The systolic blood pressure (mmHg)")
+  .addParam("diastolic", "The diastolic blood pressure (mmHg)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const systolic = parseInt(taskArguments.systolic);
+    const diastolic = parseInt(taskArguments.diastolic);
+    if (!Number.isInteger(systolic) || !Number.isInteger(diastolic)) {
+      throw new Error(`Arguments --systolic and --diastolic must be integers`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const encryptedValues = await fhevm
+      .createEncryptedInput(FHEHealthCheckerDeployment.address, signers[0].address)
+      .add32(systolic)
+      .add32(diastolic)
+      .encrypt();
+
+    console.log(`Checking blood pressure: ${systolic}/${diastolic} mmHg`);
+
+    const tx = await fheHealthCheckerContract
+      .connect(signers[0])
+      .checkBloodPressureFull(encryptedValues.handles[0], encryptedValues.handles[1], encryptedValues.inputProof);
+
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const encryptedCategory = await fheHealthCheckerContract.connect(signers[0]).getBloodPressureCategory();
+    const clearCategory = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedCategory,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    console.log(
+      `Blood pressure category (${systolic}/${diastolic}): ${bloodPressureCategoryText(clearCategory)} (${clearCategory})`,
+    );
+
+    console.log(`FHEHealthChecker blood pressure check succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-set-range --metric 1 --min 45 --max 90
+ *   - npx hardhat --network localhost task:health-set-range --metric 3 --min 97 --max 99.5 --unit F
+ *   - npx hardhat --network sepolia task:health-set-range --metric 1 --min 45 --max 90
+ */
+task("task:health-set-range", "Stores an encrypted personal reference range for a health metric")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("metric", "The health metric id (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2, see task:health-metrics)")
+  .addParam("min", "Lower bound of the personal normal range, e.g. 36.1")
+  .addParam("max", "Upper bound of the personal normal range, e.g. 37.2")
+  .addOptionalParam("unit", "Unit of --min and --max (see task:health-metrics), defaults to the metric's unit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const minReading = parseFloat(taskArguments.min);
+    const maxReading = parseFloat(taskArguments.max);
+    if (!Number.isFinite(minReading) || !Number.isFinite(maxReading)) {
+      throw new Error(`Arguments --min and --max must be numbers`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const { id: metricType, name: metricName } = await resolveMetric(fheHealthCheckerContract, taskArguments.metric);
+    const min = await toScaledValue(fheHealthCheckerContract, metricType, minReading, taskArguments.unit);
+    const max = await toScaledValue(fheHealthCheckerContract, metricType, maxReading, taskArguments.unit);
+    if (min > max) {
+      throw new Error(`Argument --min must not be greater than --max`);
+    }
+
+    // Encrypt both bounds in a single input
+    const encryptedRange = await fhevm
+      .createEncryptedInput(FHEHealthCheckerDeployment.address, signers[0].address)
+      .add32(min)
+      .add32(max)
+      .encrypt();
+
+    const tx = await fheHealthCheckerContract
+      .connect(signers[0])
+      .setPersonalRange(metricType, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      `FHEHealthChecker setPersonalRange(${metricName}, ${minReading}, ${maxReading}${taskArguments.unit ? ` ${taskArguments.unit}` : ""}) (encrypted as ${min} - ${max}) succeeded!`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-get-range --metric 1
+ *   - npx hardhat --network sepolia task:health-get-range --metric 1
+ */
+task("task:health-get-range", "Reads back and decrypts the personal reference range for a health metric")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("metric", "The health metric id (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2, see task:health-metrics)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const { id: metricType, name: metricName } = await resolveMetric(fheHealthCheckerContract, taskArguments.metric);
+
+    const [encryptedMin, encryptedMax] = await fheHealthCheckerContract
+      .connect(signers[0])
+      .getPersonalRange(metricType);
+    if (encryptedMin === ethers.ZeroHash) {
+      console.log(`No personal range set for ${metricName}, default range applies`);
+      return;
+    }
+
+    const clearMin = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      encryptedMin,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    const clearMax = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      encryptedMax,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    console.log(`Encrypted range: ${encryptedMin} - ${encryptedMax}`);
+    const { scale, unit } = await fheHealthCheckerContract.getMetric(metricType);
+    console.log(
+      `Personal range for ${metricName}: ${fromScaledValue(clearMin, scale)} - ${fromScaledValue(clearMax, scale)} ${unit}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-profile --ageband senior --sex female
+ *   - npx hardhat --network localhost task:health-profile
+ *   - npx hardhat --network sepolia task:health-profile --ageband adult --sex male
+ */
+task(
+  "task:health-profile",
+  "Sets (or replaces) the encrypted profile (age band, sex), or decrypts it when no argument is given",
+)
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addOptionalParam("ageband", "Age band: child (<18), adult (18-64) or senior (65+)")
+  .addOptionalParam("sex", "Sex: female or male")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const setting = taskArguments.ageband !== undefined || taskArguments.sex !== undefined;
+    if (setting && (taskArguments.ageband === undefined || taskArguments.sex === undefined)) {
+      throw new Error(`Arguments --ageband and --sex must be given together`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    if (setting) {
+      const ageBand = resolveProfileValue("ageband", String(taskArguments.ageband), AGE_BANDS);
+      const sex = resolveProfileValue("sex", String(taskArguments.sex), SEXES);
+
+      const encryptedProfile = await fhevm
+        .createEncryptedInput(FHEHealthCheckerDeployment.address, signers[0].address)
+        .add8(ageBand)
+        .add8(sex)
+        .encrypt();
+
+      const tx = await fheHealthCheckerContract
+        .connect(signers[0])
+        .setProfile(encryptedProfile.handles[0], encryptedProfile.handles[1], encryptedProfile.inputProof);
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      console.log(`FHEHealthChecker setProfile(${AGE_BANDS[ageBand]}, ${SEXES[sex]}) succeeded!`);
+      return;
+    }
+
+    const [encryptedAgeBand, encryptedSex] = await fheHealthCheckerContract.connect(signers[0]).getProfile();
+    if (encryptedAgeBand === ethers.ZeroHash) {
+      console.log("No profile set, default ranges apply");
+      return;
+    }
+
+    const clearAgeBand = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedAgeBand,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    const clearSex = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedSex,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    console.log(
+      `Profile: age band ${AGE_BANDS[Number(clearAgeBand)] ?? clearAgeBand}, sex ${SEXES[Number(clearSex)] ?? clearSex}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-score
+ *   - npx hardhat --network sepolia task:health-score
+ */
+task("task:health-score", "Decrypts the composite health score (number of abnormal metrics)")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const encryptedScore = await fheHealthCheckerContract.connect(signers[0]).getHealthScore();
+    if (encryptedScore === ethers.ZeroHash) {
+      console.log("No health check recorded yet");
+      return;
+    }
+
+    const clearScore = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedScore,
+      FHEHealthCheckerDeployment.address,
+      signers[0],
+    );
+    console.log(`Encrypted health score: ${encryptedScore}`);
+    console.log(`Health score: ${clearScore} abnormal metric(s)`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-grant --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --metrics 0,1
+ *   - npx hardhat --network localhost task:health-grant --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --metrics 1 --days 0.5
+ *   - npx hardhat --network sepolia task:health-grant --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --metrics 1
+ */
+task("task:health-grant", "Shares encrypted health statuses with a delegate (e.g. a doctor)")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("delegate", "The delegate address")
+  .addParam("metrics", "Comma-separated metric ids to share (see task:health-metrics)")
+  .addOptionalParam("days", "Number of days the grant stays valid", "30")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    if (!ethers.isAddress(taskArguments.delegate)) {
+      throw new Error(`Argument --delegate is not an address`);
+    }
+
+    const days = parseFloat(taskArguments.days);
+    if (!(days > 0)) {
+      throw new Error(`Argument --days must be a positive number`);
+    }
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const metrics = await resolveMetrics(fheHealthCheckerContract, String(taskArguments.metrics));
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const expiresAt = latestBlock!.timestamp + Math.round(days * 24 * 60 * 60);
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).grantAccess(
+      taskArguments.delegate,
+      metrics.map((m) => m.id),
+      expiresAt,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Shared ${metrics.map((m) => m.name).join(", ")} with ${taskArguments.delegate} for ${days} day(s)`);
+    await printDelegates(fheHealthCheckerContract, signers[0].address, latestBlock!.timestamp);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-revoke --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network sepolia task:health-revoke --delegate 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --metrics 1
+ */
+task("task:health-revoke", "Stops sharing future health statuses with a delegate")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("delegate", "The delegate address")
+  .addOptionalParam("metrics", "Comma-separated metric ids to stop sharing, defaults to all shared metrics")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    if (!ethers.isAddress(taskArguments.delegate)) {
+      throw new Error(`Argument --delegate is not an address`);
+    }
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    let metricIds: number[];
+    if (taskArguments.metrics !== undefined) {
+      metricIds = (await resolveMetrics(fheHealthCheckerContract, String(taskArguments.metrics))).map((m) => m.id);
+    } else {
+      const mask = await fheHealthCheckerContract.getDelegatedMetrics(signers[0].address, taskArguments.delegate);
+      const metricCount = Number(await fheHealthCheckerContract.metricCount());
+      metricIds = [...Array(metricCount).keys()].filter((id) => (mask >> BigInt(id)) & 1n);
+    }
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).revokeAccess(taskArguments.delegate, metricIds);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Revoked access of ${taskArguments.delegate} to metrics ${metricIds.join(", ")}`);
+    const latestBlock = await ethers.provider.getBlock("latest");
+    await printDelegates(fheHealthCheckerContract, signers[0].address, latestBlock!.timestamp);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-delegates
+ *   - npx hardhat --network localhost task:health-delegates --expired
+ *   - npx hardhat --network sepolia task:health-delegates --user 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266
+ */
+task("task:health-delegates", "Lists the delegates a user shares health statuses with")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addOptionalParam("user", "The sharing user, defaults to the first signer")
+  .addFlag("expired", "Only list expired grants")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const user = taskArguments.user ?? signers[0].address;
+    if (!ethers.isAddress(user)) {
+      throw new Error(`Argument --user is not an address`);
+    }
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    await printDelegates(fheHealthCheckerContract, user, latestBlock!.timestamp, taskArguments.expired);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-stats
+ *   - npx hardhat --network localhost task:health-stats --metric 2 --reveal
+ *   - npx hardhat --network sepolia task:health-stats --metric 2
+ */
+task("task:health-stats", "Prints the publicly revealed population statistics")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addOptionalParam("metric", "Only print this metric id (see task:health-metrics)")
+  .addFlag("reveal", "First request the public decryption of the current counters (owner only, requires --metric)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const metrics =
+      taskArguments.metric !== undefined
+        ? [await resolveMetric(fheHealthCheckerContract, taskArguments.metric)]
+        : (await fheHealthCheckerContract.getMetrics()).map((m) => ({ id: Number(m.id), name: m.name }));
+
+    if (taskArguments.reveal) {
+      if (taskArguments.metric === undefined) {
+        throw new Error(`Argument --reveal requires --metric`);
+      }
+
+      await fhevm.initializeCLIApi();
+
+      const tx = await fheHealthCheckerContract.connect(signers[0]).requestStatsDecryption(metrics[0].id);
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      if (fhevm.isMock) {
+        await fhevm.awaitDecryptionOracle();
+      } else {
+        console.log("Decryption requested, the totals are revealed once the oracle calls back");
+      }
+    }
+
+    const threshold = await fheHealthCheckerContract.minStatsSubmitters();
+    console.log(`k-anonymity threshold: ${threshold} distinct submitters`);
+
+    for (const metric of metrics) {
+      const submitters = await fheHealthCheckerContract.statsSubmitterCounts(metric.id);
+      const stats = await fheHealthCheckerContract.getPopulationStats(metric.id);
+      if (stats.revealedAt === 0n) {
+        console.log(`${metric.name}: not revealed yet (${submitters}/${threshold} submitters)`);
+        continue;
+      }
+      const revealedAt = new Date(Number(stats.revealedAt) * 1000).toISOString();
+      console.log(
+        `${metric.name}: normal=${stats.normal} low=${stats.low} high=${stats.high} (revealed ${revealedAt}, ` +
+          `${submitters}/${threshold} new submitters since)`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-set-stats-threshold --min 2
+ *   - npx hardhat --network sepolia task:health-set-stats-threshold --min 10
+ */
+task(
+  "task:health-set-stats-threshold",
+  "Sets the minimum number of distinct submitters before statistics can be revealed (owner only)",
+)
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("min", "Minimum number of distinct users who checked a metric")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const min = parseInt(taskArguments.min);
+    if (!Number.isInteger(min) || min < 0) {
+      throw new Error(`Argument --min must be a non-negative integer`);
+    }
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).setMinStatsSubmitters(min);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Statistics are now revealed once ${min} distinct users checked a metric`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-clear-range --metric 1
+ *   - npx hardhat --network sepolia task:health-clear-range --metric 1
+ */
+task("task:health-clear-range", "Removes the personal reference range for a health metric")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("metric", "The health metric id (0=BP, 1=HR, 2=BG, 3=Temp, 4=O2, see task:health-metrics)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const { id: metricType, name: metricName } = await resolveMetric(fheHealthCheckerContract, taskArguments.metric);
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).clearPersonalRange(metricType);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`FHEHealthChecker clearPersonalRange(${metricName}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-delete --metrics 1
+ *   - npx hardhat --network sepolia task:health-delete --profile
+ */
+task("task:health-delete", "Deletes the stored encrypted health data of the first signer")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addOptionalParam("metrics", "Comma-separated metric ids to delete, defaults to all registered metrics")
+  .addFlag("profile", "Also delete the profile and attestations")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const metrics =
+      taskArguments.metrics !== undefined
+        ? await resolveMetrics(fheHealthCheckerContract, String(taskArguments.metrics))
+        : (await fheHealthCheckerContract.getMetrics()).map((m) => ({ id: Number(m.id), name: m.name }));
+
+    const tx = await fheHealthCheckerContract.connect(signers[0]).deleteMyData(
+      metrics.map((m) => m.id),
+      Boolean(taskArguments.profile),
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    for (const metric of metrics) {
+      const encryptedStatus = await fheHealthCheckerContract.connect(signers[0]).getHealthStatus(metric.id);
+      console.log(`${metric.name}: ${encryptedStatus === ethers.ZeroHash ? "deleted" : encryptedStatus}`);
+    }
+    console.log(`Deleted the health data of ${signers[0].address} for ${metrics.map((m) => m.name).join(", ")}`);
+    if (taskArguments.profile) {
+      console.log(`Deleted the profile and attestations of ${signers[0].address}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-consent
+ *   - npx hardhat --network localhost task:health-consent --withdraw
+ *   - npx hardhat --network sepolia task:health-consent
+ */
+task("task:health-consent", "Consents to the current terms as the first signer, or withdraws the consent")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addFlag("withdraw", "Withdraw the consent instead of giving it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const consentVersion = await fheHealthCheckerContract.consentVersion();
+    const tx = taskArguments.withdraw
+      ? await fheHealthCheckerContract.connect(signers[0]).withdrawConsent()
+      : await fheHealthCheckerContract.connect(signers[0]).giveConsent(consentVersion);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const consent = await fheHealthCheckerContract.getConsent(signers[0].address);
+    console.log(`Current terms: ${consentVersion}`);
+    if (consent.timestamp === 0n) {
+      console.log(`${signers[0].address} has not consented, health checks and sharing are refused`);
+    } else {
+      const consentedAt = new Date(Number(consent.timestamp) * 1000).toISOString();
+      console.log(`${signers[0].address} consented to ${consent.version} at ${consentedAt}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-metrics
+ *   - npx hardhat --network sepolia task:health-metrics
+ */
+task("task:health-metrics", "Prints the metric registry of FHEHealthChecker")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const metrics = await fheHealthCheckerContract.getMetrics();
+
+    console.log("Registered Health Metrics:");
+    console.log("=========================");
+
+    for (const metric of metrics) {
+      console.log(`[${metric.id}] ${metric.name} (${metric.description})`);
+      console.log(`   Unit: ${metric.unit}, scale: x${metric.scale}`);
+      const inputUnits = await fheHealthCheckerContract.getInputUnits(metric.id);
+      console.log(`   Accepted units: ${inputUnits.map((u) => u.symbol).join(", ")}`);
+      console.log(`   Normal range: ${metric.min} - ${metric.max}`);
+      const criticalLow = metric.criticalMin > 0n ? `below ${metric.criticalMin}` : "none";
+      const criticalHigh = metric.criticalMax < 2n ** 32n - 1n ? `above ${metric.criticalMax}` : "none";
+      console.log(`   Critical low: ${criticalLow}, critical high: ${criticalHigh}`);
+      if (metric.plausibleMin > 0n || metric.plausibleMax < 2n ** 32n - 1n) {
+        console.log(`   Plausible readings: ${metric.plausibleMin} - ${metric.plausibleMax}`);
+      }
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:health-add-metric --name "Respiratory Rate" --unit "breaths/min" --min 12 --max 20
+ *   - npx hardhat --network sepolia task:health-add-metric --name "Respiratory Rate" --unit "breaths/min" --min 12 --max 20
+ */
+task("task:health-add-metric", "Registers a new health metric (owner or range admin only)")
+  .addOptionalParam("address", "Optionally specify the FHEHealthChecker contract address")
+  .addParam("name", "Display name of the metric")
+  .addParam("unit", "Unit of the submitted values")
+  .addOptionalParam("description", "Longer description of the metric")
+  .addOptionalParam("scale", "Fixed-point factor applied to submitted values", "1")
+  .addParam("min", "Lower bound of the default normal range (scaled)")
+  .addParam("max", "Upper bound of the default normal range (scaled)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const scale = parseInt(taskArguments.scale);
+    const min = parseInt(taskArguments.min);
+    const max = parseInt(taskArguments.max);
+    if (!Number.isInteger(scale) || scale <= 0) {
+      throw new Error(`Argument --scale must be a positive integer`);
+    }
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || min > max) {
+      throw new Error(`Arguments --min and --max must be integers with 0 <= min <= max`);
+    }
+
+    const FHEHealthCheckerDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("FHEHealthChecker");
+    console.log(`FHEHealthChecker: ${FHEHealthCheckerDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const fheHealthCheckerContract = await ethers.getContractAt("FHEHealthChecker", FHEHealthCheckerDeployment.address);
+
+    const description = taskArguments.description ?? taskArguments.name;
+    const tx = await fheHealthCheckerContract
+      .connect(signers[0])
+      .addMetric(taskArguments.name, taskArguments.unit, description, scale, min, max);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const metricCount = await fheHealthCheckerContract.metricCount();
+    console.log(`FHEHealthChecker addMetric(${taskArguments.name}) succeeded! Metric id: ${metricCount - 1n}`);
+  });
@@ -0,0 +1,1456 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FHEHealthChecker, FHEHealthChecker__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const BLOOD_PRESSURE = 0;
+const HEART_RATE = 1;
+
+async function deployFixture() {
+  // FHEHealthChecker is linked to its libraries
+  const libraries: Record<string, string> = {};
+  for (const name of [
+    "HealthAttestations",
+    "HealthDelegations",
+    "HealthMetricRegistry",
+    "HealthProfiles",
+    "HealthStatistics",
+  ]) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  const factory = (await ethers.getContractFactory("FHEHealthChecker", { libraries })) as FHEHealthChecker__factory;
+  const fheHealthCheckerContract = (await factory.deploy()) as FHEHealthChecker;
+  const fheHealthCheckerContractAddress = await fheHealthCheckerContract.getAddress();
+
+  return { fheHealthCheckerContract, fheHealthCheckerContractAddress };
+}
+
+describe("FHEHealthChecker", function () {
+  let signers: Signers;
+  let fheHealthCheckerContract: FHEHealthChecker;
+  let fheHealthCheckerContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ fheHealthCheckerContract, fheHealthCheckerContractAddress } = await deployFixture());
+
+    const consentVersion = await fheHealthCheckerContract.consentVersion();
+    for (const signer of [signers.deployer, signers.alice, signers.bob]) {
+      await (await fheHealthCheckerContract.connect(signer).giveConsent(consentVersion)).wait();
+    }
+  });
+
+  async function checkHeartRate(signer: HardhatEthersSigner, value: number) {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(fheHealthCheckerContractAddress, signer.address)
+      .add32(value)
+      .encrypt();
+
+    const tx = await fheHealthCheckerContract
+      .connect(signer)
+      .checkHeartRate(encryptedValue.handles[0], encryptedValue.inputProof);
+    await tx.wait();
+  }
+
+  async function decryptStatus(signer: HardhatEthersSigner, metric: number) {
+    const encryptedStatus = await fheHealthCheckerContract.connect(signer).getHealthStatus(metric);
+    return fhevm.userDecryptEuint(FhevmType.euint8, encryptedStatus, fheHealthCheckerContractAddress, signer);
+  }
+
+  it("encrypted status should be uninitialized after deployment", async function () {
+    const encryptedStatus = await fheHealthCheckerContract.connect(signers.alice).getHealthStatus(HEART_RATE);
+    expect(encryptedStatus).to.eq(ethers.ZeroHash);
+  });
+
+  it("classifies a heart rate against the default range", async function () {
+    await checkHeartRate(signers.alice, 48);
+    expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(1); // low
+
+    await checkHeartRate(signers.alice, 75);
+    expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0); // normal
+
+    await checkHeartRate(signers.alice, 120);
+    expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(2); // high
+  });
+
+  it("uses the personal range when one is set", async function () {
+    const encryptedRange = await fhevm
+      .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+      .add32(45)
+      .add32(90)
+      .encrypt();
+
+    const tx = await fheHealthCheckerContract
+      .connect(signers.alice)
+      .setPersonalRange(HEART_RATE, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof);
+    await tx.wait();
+
+    expect(await fheHealthCheckerContract.connect(signers.alice).hasPersonalRange(HEART_RATE)).to.eq(true);
+    expect(await fheHealthCheckerContract.connect(signers.bob).hasPersonalRange(HEART_RATE)).to.eq(false);
+
+    const [encryptedMin, encryptedMax] = await fheHealthCheckerContract
+      .connect(signers.alice)
+      .getPersonalRange(HEART_RATE);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, encryptedMin, fheHealthCheckerContractAddress, signers.alice),
+    ).to.eq(45);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, encryptedMax, fheHealthCheckerContractAddress, signers.alice),
+    ).to.eq(90);
+
+    // 48 bpm is normal for alice, but still low for bob who relies on the defaults
+    await checkHeartRate(signers.alice, 48);
+    expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+
+    await checkHeartRate(signers.bob, 48);
+    expect(await decryptStatus(signers.bob, HEART_RATE)).to.eq(1);
+  });
+
+  it("falls back to the default range once the personal range is cleared", async function () {
+    const encryptedRange = await fhevm
+      .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+      .add32(45)
+      .add32(90)
+      .encrypt();
+
+    let tx = await fheHealthCheckerContract
+      .connect(signers.alice)
+      .setPersonalRange(HEART_RATE, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof);
+    await tx.wait();
+
+    tx = await fheHealthCheckerContract.connect(signers.alice).clearPersonalRange(HEART_RATE);
+    await tx.wait();
+
+    expect(await fheHealthCheckerContract.connect(signers.alice).hasPersonalRange(HEART_RATE)).to.eq(false);
+
+    await checkHeartRate(signers.alice, 48);
+    expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(1);
+  });
+
+  it("rejects personal ranges for unknown metrics", async function () {
+    await expect(fheHealthCheckerContract.connect(signers.alice).clearPersonalRange(5))
+      .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidMetric")
+      .withArgs(5);
+  });
+
+  describe("default range registry", function () {
+    it("starts at version 1 with the initial ranges", async function () {
+      expect(await fheHealthCheckerContract.rangesVersion()).to.eq(1);
+
+      const [metricTypes, mins, maxs, , , version] = await fheHealthCheckerContract.getHealthMetricRanges();
+      expect(version).to.eq(1);
+      expect(metricTypes.length).to.eq(5);
+      expect(mins[HEART_RATE]).to.eq(60);
+      expect(maxs[HEART_RATE]).to.eq(100);
+
+      const [bpMin, bpMax] = await fheHealthCheckerContract.getBloodPressureRanges();
+      expect(bpMin).to.eq(90);
+      expect(bpMax).to.eq(140);
+    });
+
+    it("creates a new version on update and keeps the history", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setDefaultRange(HEART_RATE, 50, 100))
+        .to.emit(fheHealthCheckerContract, "DefaultRangeUpdated")
+        .withArgs(2, HEART_RATE, 50, 100);
+
+      const [, mins, maxs, , , version] = await fheHealthCheckerContract.getHealthMetricRanges();
+      expect(version).to.eq(2);
+      expect(mins[HEART_RATE]).to.eq(50);
+      expect(maxs[HEART_RATE]).to.eq(100);
+      // other metrics are carried over unchanged
+      expect(mins[BLOOD_PRESSURE]).to.eq(90);
+
+      const [, previousMins] = await fheHealthCheckerContract.getHealthMetricRangesAt(1);
+      expect(previousMins[HEART_RATE]).to.eq(60);
+
+      await expect(fheHealthCheckerContract.getHealthMetricRangesAt(3))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "UnknownRangesVersion")
+        .withArgs(3);
+    });
+
+    it("records the range version each status was evaluated against", async function () {
+      await checkHeartRate(signers.alice, 55);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(1);
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthStatusRangeVersion(HEART_RATE)).to.eq(1);
+
+      const tx = await fheHealthCheckerContract.connect(signers.deployer).setDefaultRange(HEART_RATE, 50, 100);
+      await tx.wait();
+
+      await checkHeartRate(signers.alice, 55);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthStatusRangeVersion(HEART_RATE)).to.eq(2);
+
+      const encryptedRange = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(45)
+        .add32(90)
+        .encrypt();
+      await (
+        await fheHealthCheckerContract
+          .connect(signers.alice)
+          .setPersonalRange(HEART_RATE, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof)
+      ).wait();
+      await checkHeartRate(signers.alice, 55);
+
+      // each history record keeps the version its status was evaluated against, 0 for a personal range
+      const records = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(HEART_RATE, 0, 10);
+      expect(records.map((record) => record.rangeVersion)).to.deep.eq([1n, 2n, 0n]);
+    });
+
+    it("only lets the owner and range admins update ranges", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.alice).setDefaultRange(HEART_RATE, 50, 100))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.alice.address);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).setRangeAdmin(signers.alice.address, true))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.alice.address);
+
+      const tx = await fheHealthCheckerContract.connect(signers.deployer).setRangeAdmin(signers.alice.address, true);
+      await tx.wait();
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).setDefaultRange(HEART_RATE, 50, 100)).to.emit(
+        fheHealthCheckerContract,
+        "DefaultRangeUpdated",
+      );
+    });
+
+    it("rejects inverted ranges", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setDefaultRange(HEART_RATE, 100, 50))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidRange")
+        .withArgs(100, 50);
+    });
+  });
+
+  describe("severity bands", function () {
+    it("publishes the status encoding", async function () {
+      expect(await fheHealthCheckerContract.getStatusLabels()).to.deep.eq([
+        "normal",
+        "low",
+        "high",
+        "critical-low",
+        "critical-high",
+        "invalid",
+      ]);
+    });
+
+    it("classifies readings beyond the critical bands as critical", async function () {
+      const metric = await fheHealthCheckerContract.getMetric(HEART_RATE);
+      expect(metric.criticalMin).to.eq(40);
+      expect(metric.criticalMax).to.eq(150);
+
+      await checkHeartRate(signers.alice, 35);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(3);
+      await checkHeartRate(signers.alice, 45);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(1);
+      await checkHeartRate(signers.alice, 140);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(2);
+      await checkHeartRate(signers.alice, 160);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(4);
+    });
+
+    it("creates a new registry version when the bands change", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setSeverityBands(HEART_RATE, 50, 120))
+        .to.emit(fheHealthCheckerContract, "SeverityBandsUpdated")
+        .withArgs(2, HEART_RATE, 50, 120);
+      expect(await fheHealthCheckerContract.rangesVersion()).to.eq(2);
+
+      const metric = await fheHealthCheckerContract.getMetric(HEART_RATE);
+      expect(metric.min).to.eq(60);
+      expect(metric.criticalMin).to.eq(50);
+      expect(metric.criticalMax).to.eq(120);
+
+      await checkHeartRate(signers.alice, 125);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(4);
+    });
+
+    it("keeps the bands ordered around the normal range", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setSeverityBands(HEART_RATE, 65, 150))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidRange")
+        .withArgs(65, 150);
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setDefaultRange(HEART_RATE, 30, 100))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidRange")
+        .withArgs(30, 100);
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).setSeverityBands(HEART_RATE, 30, 200),
+      ).to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized");
+    });
+
+    it("counts critical statuses with the low and high population totals", async function () {
+      await checkHeartRate(signers.alice, 35); // critical low
+      await checkHeartRate(signers.bob, 160); // critical high
+      await checkHeartRate(signers.deployer, 75); // normal
+
+      await (await fheHealthCheckerContract.connect(signers.deployer).setMinStatsSubmitters(3)).wait();
+      await (await fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await fheHealthCheckerContract.getPopulationStats(HEART_RATE);
+      expect(revealed.normal).to.eq(1);
+      expect(revealed.low).to.eq(1);
+      expect(revealed.high).to.eq(1);
+    });
+  });
+
+  describe("plausibility bounds", function () {
+    it("publishes the physiological bounds of each metric", async function () {
+      const heartRate = await fheHealthCheckerContract.getMetric(HEART_RATE);
+      expect(heartRate.plausibleMin).to.eq(20);
+      expect(heartRate.plausibleMax).to.eq(300);
+
+      const temperature = await fheHealthCheckerContract.getMetric(3);
+      expect(temperature.plausibleMin).to.eq(250);
+      expect(temperature.plausibleMax).to.eq(450);
+    });
+
+    it("stores the invalid status for readings outside the bounds", async function () {
+      await checkHeartRate(signers.alice, 10);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(5);
+      await checkHeartRate(signers.alice, 20);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(3);
+      await checkHeartRate(signers.alice, 300);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(4);
+      await checkHeartRate(signers.alice, 4_000_000_000);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(5);
+    });
+
+    it("applies the bounds before a personal range", async function () {
+      const encryptedRange = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(0)
+        .add32(1000)
+        .encrypt();
+      await (
+        await fheHealthCheckerContract
+          .connect(signers.alice)
+          .setPersonalRange(HEART_RATE, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof)
+      ).wait();
+
+      await checkHeartRate(signers.alice, 500);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(5);
+    });
+
+    it("leaves invalid readings out of the population totals", async function () {
+      await checkHeartRate(signers.alice, 10); // invalid
+      await checkHeartRate(signers.bob, 45); // low
+      await checkHeartRate(signers.deployer, 75); // normal
+
+      await (await fheHealthCheckerContract.connect(signers.deployer).setMinStatsSubmitters(3)).wait();
+      await (await fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await fheHealthCheckerContract.getPopulationStats(HEART_RATE);
+      expect(revealed.normal).to.eq(1);
+      expect(revealed.low).to.eq(1);
+      expect(revealed.high).to.eq(0);
+    });
+  });
+
+  describe("profile ranges", function () {
+    const CHILD = 0;
+    const ADULT = 1;
+    const SENIOR = 2;
+    const FEMALE = 0;
+    const MALE = 1;
+
+    async function setProfile(signer: HardhatEthersSigner, ageBand: number, sex: number) {
+      const encryptedProfile = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signer.address)
+        .add8(ageBand)
+        .add8(sex)
+        .encrypt();
+
+      const tx = await fheHealthCheckerContract
+        .connect(signer)
+        .setProfile(encryptedProfile.handles[0], encryptedProfile.handles[1], encryptedProfile.inputProof);
+      await tx.wait();
+    }
+
+    it("stores the encrypted profile and replaces it when set again", async function () {
+      expect(await fheHealthCheckerContract.connect(signers.alice).hasProfile()).to.eq(false);
+
+      async function decryptProfile() {
+        const [ageBand, sex] = await fheHealthCheckerContract.connect(signers.alice).getProfile();
+        return [
+          await fhevm.userDecryptEuint(FhevmType.euint8, ageBand, fheHealthCheckerContractAddress, signers.alice),
+          await fhevm.userDecryptEuint(FhevmType.euint8, sex, fheHealthCheckerContractAddress, signers.alice),
+        ];
+      }
+
+      await setProfile(signers.alice, SENIOR, FEMALE);
+      expect(await fheHealthCheckerContract.connect(signers.alice).hasProfile()).to.eq(true);
+      expect(await decryptProfile()).to.deep.eq([BigInt(SENIOR), BigInt(FEMALE)]);
+
+      await setProfile(signers.alice, ADULT, MALE);
+      expect(await decryptProfile()).to.deep.eq([BigInt(ADULT), BigInt(MALE)]);
+
+      // the replaced profile selects its own ranges: 110 bpm is normal for children
+      await setProfile(signers.alice, CHILD, MALE);
+      await checkHeartRate(signers.alice, 110);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+    });
+
+    it("deletes the profile with the user's account data only", async function () {
+      await setProfile(signers.alice, CHILD, MALE);
+      const alice = fheHealthCheckerContract.connect(signers.alice);
+      await (await alice.deleteMyData([HEART_RATE], false)).wait();
+      expect(await alice.hasProfile()).to.eq(true);
+
+      await (await alice.deleteMyData([], true)).wait();
+      expect(await alice.hasProfile()).to.eq(false);
+      const [ageBand, sex] = await alice.getProfile();
+      expect(ageBand).to.eq(ethers.ZeroHash);
+      expect(sex).to.eq(ethers.ZeroHash);
+
+      // checks fall back to the default ranges
+      await checkHeartRate(signers.alice, 110);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(2);
+    });
+
+    it("selects the normal range of the user's profile", async function () {
+      // 110 bpm is high for adults but normal for children
+      await setProfile(signers.alice, CHILD, MALE);
+      await checkHeartRate(signers.alice, 110);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+
+      await checkHeartRate(signers.bob, 110);
+      expect(await decryptStatus(signers.bob, HEART_RATE)).to.eq(2);
+
+      // 62 bpm is low for adult women only
+      await setProfile(signers.bob, ADULT, FEMALE);
+      await checkHeartRate(signers.bob, 62);
+      expect(await decryptStatus(signers.bob, HEART_RATE)).to.eq(1);
+      await checkHeartRate(signers.deployer, 62);
+      expect(await decryptStatus(signers.deployer, HEART_RATE)).to.eq(0);
+    });
+
+    it("checks every metric in one batch, repeatedly, once a profile is set", async function () {
+      await setProfile(signers.alice, SENIOR, MALE);
+
+      // The second batch also computes the trend of every metric
+      for (const vitals of [
+        [160, 110, 90, 365, 98],
+        [145, 70, 120, 380, 93],
+      ]) {
+        const input = fhevm.createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address);
+        vitals.forEach((value) => input.add32(value));
+        const encryptedValues = await input.encrypt();
+
+        const tx = await fheHealthCheckerContract
+          .connect(signers.alice)
+          .checkMetrics([0, 1, 2, 3, 4], encryptedValues.handles, encryptedValues.inputProof);
+        await tx.wait();
+      }
+
+      // 145 mmHg is normal for seniors, high for adults
+      expect(await decryptStatus(signers.alice, BLOOD_PRESSURE)).to.eq(0);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+      expect(await decryptStatus(signers.alice, 2)).to.eq(2);
+      expect(await decryptStatus(signers.alice, 3)).to.eq(2);
+      expect(await decryptStatus(signers.alice, 4)).to.eq(1);
+    });
+
+    it("keeps the personal range first and the default range for metrics without a profile table", async function () {
+      await setProfile(signers.alice, CHILD, FEMALE);
+
+      const encryptedRange = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(45)
+        .add32(90)
+        .encrypt();
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .setPersonalRange(HEART_RATE, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof);
+      await tx.wait();
+
+      await checkHeartRate(signers.alice, 110);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(2);
+
+      // blood glucose has no profile table
+      expect((await fheHealthCheckerContract.profileRangeMetrics()) & (1n << 2n)).to.eq(0);
+    });
+
+    it("lets range admins update the profile range table", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setProfileRange(HEART_RATE, ADULT, MALE, 55, 95))
+        .to.emit(fheHealthCheckerContract, "ProfileRangeUpdated")
+        .withArgs(HEART_RATE, ADULT, MALE, 55, 95);
+      const range = await fheHealthCheckerContract.getProfileRange(HEART_RATE, ADULT, MALE);
+      expect(range.min).to.eq(55);
+      expect(range.max).to.eq(95);
+      expect(range.configured).to.eq(true);
+
+      await setProfile(signers.alice, ADULT, MALE);
+      await checkHeartRate(signers.alice, 57);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setProfileRange(HEART_RATE, 3, MALE, 55, 95))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidProfile")
+        .withArgs(3, MALE);
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setProfileRange(HEART_RATE, ADULT, MALE, 30, 95))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidRange")
+        .withArgs(30, 95);
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).setProfileRange(HEART_RATE, ADULT, MALE, 55, 95),
+      ).to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized");
+    });
+  });
+
+  describe("metric registry", function () {
+    it("registers the built-in metrics", async function () {
+      expect(await fheHealthCheckerContract.metricCount()).to.eq(5);
+
+      const metrics = await fheHealthCheckerContract.getMetrics();
+      expect(metrics.map((m) => m.name)).to.deep.eq([
+        "Blood Pressure",
+        "Heart Rate",
+        "Blood Glucose",
+        "Body Temperature",
+        "Blood Oxygen",
+      ]);
+      expect(metrics[3].scale).to.eq(10);
+      expect(metrics[HEART_RATE].min).to.eq(60);
+      expect(metrics[HEART_RATE].max).to.eq(100);
+    });
+
+    it("publishes the input units of each metric, its own unit first", async function () {
+      const temperatureUnits = await fheHealthCheckerContract.getInputUnits(3);
+      expect(temperatureUnits.map((u) => u.symbol)).to.deep.eq(["°C", "°F"]);
+      expect(temperatureUnits[0].offset).to.eq(0);
+      expect(temperatureUnits[0].numerator).to.eq(1);
+      expect(temperatureUnits[0].denominator).to.eq(1);
+      expect(temperatureUnits[1].offset).to.eq(-32);
+      expect(temperatureUnits[1].numerator).to.eq(5);
+      expect(temperatureUnits[1].denominator).to.eq(9);
+
+      const glucoseUnits = await fheHealthCheckerContract.getInputUnits(2);
+      expect(glucoseUnits.map((u) => u.symbol)).to.deep.eq(["mg/dL", "mmol/L"]);
+      expect(glucoseUnits[1].numerator).to.eq(18016);
+      expect(glucoseUnits[1].denominator).to.eq(1000);
+
+      const heartRateUnits = await fheHealthCheckerContract.getInputUnits(HEART_RATE);
+      expect(heartRateUnits.map((u) => u.symbol)).to.deep.eq(["bpm"]);
+
+      await expect(fheHealthCheckerContract.getInputUnits(5))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidMetric")
+        .withArgs(5);
+    });
+
+    it("checks a newly registered metric through checkMetric", async function () {
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.deployer)
+          .addMetric("Respiratory Rate", "breaths/min", "Respiratory Rate", 1, 12, 20),
+      )
+        .to.emit(fheHealthCheckerContract, "MetricRegistered")
+        .withArgs(5, "Respiratory Rate", "breaths/min", 1);
+
+      const metric = await fheHealthCheckerContract.getMetric(5);
+      expect(metric.name).to.eq("Respiratory Rate");
+      expect(metric.min).to.eq(12);
+      // registered without critical bands and physiological bounds
+      expect(metric.criticalMin).to.eq(0);
+      expect(metric.criticalMax).to.eq(2n ** 32n - 1n);
+      expect(metric.plausibleMin).to.eq(0);
+      expect(metric.plausibleMax).to.eq(2n ** 32n - 1n);
+
+      // The registry version without the new metric is still reported as it was
+      const [previousTypes] = await fheHealthCheckerContract.getHealthMetricRangesAt(1);
+      expect(previousTypes.length).to.eq(5);
+      const [currentTypes, , , , , version] = await fheHealthCheckerContract.getHealthMetricRanges();
+      expect(currentTypes.length).to.eq(6);
+      expect(version).to.eq(2);
+
+      const encryptedValue = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(25)
+        .encrypt();
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .checkMetric(5, encryptedValue.handles[0], encryptedValue.inputProof);
+      await tx.wait();
+
+      expect(await decryptStatus(signers.alice, 5)).to.eq(2);
+    });
+
+    it("rejects checks of unregistered metrics", async function () {
+      const encryptedValue = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(25)
+        .encrypt();
+
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.alice)
+          .checkMetric(5, encryptedValue.handles[0], encryptedValue.inputProof),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidMetric")
+        .withArgs(5);
+    });
+
+    it("only lets the owner and range admins register metrics", async function () {
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.alice)
+          .addMetric("Respiratory Rate", "breaths/min", "Respiratory Rate", 1, 12, 20),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.alice.address);
+    });
+  });
+
+  describe("batch submission", function () {
+    it("checks several metrics from one encrypted input", async function () {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(150) // blood pressure: high
+        .add32(75) // heart rate: normal
+        .add32(60) // blood glucose: low
+        .encrypt();
+
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .checkMetrics([BLOOD_PRESSURE, HEART_RATE, 2], encryptedValues.handles, encryptedValues.inputProof);
+      await tx.wait();
+
+      expect(await decryptStatus(signers.alice, BLOOD_PRESSURE)).to.eq(2);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+      expect(await decryptStatus(signers.alice, 2)).to.eq(1);
+      // metrics left out of the batch stay unchecked
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthStatus(3)).to.eq(ethers.ZeroHash);
+    });
+
+    it("rejects batches whose metric and value counts differ", async function () {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(120)
+        .add32(75)
+        .encrypt();
+
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.alice)
+          .checkMetrics([BLOOD_PRESSURE], encryptedValues.handles, encryptedValues.inputProof),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "LengthMismatch")
+        .withArgs(1, 2);
+    });
+
+    it("rejects batches containing an unregistered metric", async function () {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(120)
+        .add32(25)
+        .encrypt();
+
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.alice)
+          .checkMetrics([BLOOD_PRESSURE, 5], encryptedValues.handles, encryptedValues.inputProof),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidMetric")
+        .withArgs(5);
+    });
+  });
+
+  describe("combined blood pressure", function () {
+    async function checkBloodPressureFull(signer: HardhatEthersSigner, systolic: number, diastolic: number) {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signer.address)
+        .add32(systolic)
+        .add32(diastolic)
+        .encrypt();
+
+      const tx = await fheHealthCheckerContract
+        .connect(signer)
+        .checkBloodPressureFull(encryptedValues.handles[0], encryptedValues.handles[1], encryptedValues.inputProof);
+      await tx.wait();
+
+      const encryptedCategory = await fheHealthCheckerContract.connect(signer).getBloodPressureCategory();
+      return fhevm.userDecryptEuint(FhevmType.euint8, encryptedCategory, fheHealthCheckerContractAddress, signer);
+    }
+
+    it("is uninitialized before the first check", async function () {
+      expect(await fheHealthCheckerContract.connect(signers.alice).getBloodPressureCategory()).to.eq(ethers.ZeroHash);
+    });
+
+    it("classifies systolic and diastolic readings into the standard categories", async function () {
+      expect(await checkBloodPressureFull(signers.alice, 115, 75)).to.eq(0); // normal
+      expect(await checkBloodPressureFull(signers.alice, 125, 75)).to.eq(1); // elevated
+      expect(await checkBloodPressureFull(signers.alice, 135, 75)).to.eq(2); // stage 1 (systolic)
+      expect(await checkBloodPressureFull(signers.alice, 115, 85)).to.eq(2); // stage 1 (diastolic)
+      expect(await checkBloodPressureFull(signers.alice, 145, 75)).to.eq(3); // stage 2 (systolic)
+      expect(await checkBloodPressureFull(signers.alice, 125, 95)).to.eq(3); // stage 2 (diastolic)
+      expect(await checkBloodPressureFull(signers.alice, 85, 55)).to.eq(4); // hypotension
+      expect(await checkBloodPressureFull(signers.alice, 100, 55)).to.eq(4); // hypotension (diastolic)
+      expect(await checkBloodPressureFull(signers.alice, 85, 95)).to.eq(3); // stage 2 takes precedence
+    });
+
+    it("also stores the systolic reading as the blood pressure status", async function () {
+      await checkBloodPressureFull(signers.alice, 150, 95);
+
+      expect(await decryptStatus(signers.alice, BLOOD_PRESSURE)).to.eq(2);
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthHistoryLength(BLOOD_PRESSURE)).to.eq(1);
+    });
+
+    it("marks the category invalid when either reading is out of physiological bounds", async function () {
+      expect(await checkBloodPressureFull(signers.alice, 120, 20)).to.eq(5); // diastolic too low
+      expect(await checkBloodPressureFull(signers.alice, 120, 350)).to.eq(5); // diastolic too high
+      expect(await checkBloodPressureFull(signers.alice, 400, 80)).to.eq(5); // systolic too high
+      expect(await checkBloodPressureFull(signers.alice, 120, 40)).to.eq(4); // lowest plausible diastolic
+
+      // an implausible diastolic reading does not invalidate a plausible systolic status
+      await checkBloodPressureFull(signers.alice, 150, 10);
+      expect(await decryptStatus(signers.alice, BLOOD_PRESSURE)).to.eq(2);
+    });
+
+    it("keeps the category of every check in the blood pressure history", async function () {
+      await checkBloodPressureFull(signers.alice, 145, 75);
+      const encryptedSystolic = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(130)
+        .encrypt();
+      await (
+        await fheHealthCheckerContract
+          .connect(signers.alice)
+          .checkBloodPressure(encryptedSystolic.handles[0], encryptedSystolic.inputProof)
+      ).wait();
+      await checkBloodPressureFull(signers.alice, 115, 20);
+
+      const records = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(BLOOD_PRESSURE, 0, 10);
+      expect(records.length).to.eq(3);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          records[0].bloodPressureCategory,
+          fheHealthCheckerContractAddress,
+          signers.alice,
+        ),
+      ).to.eq(3);
+      expect(records[1].bloodPressureCategory).to.eq(ethers.ZeroHash);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          records[2].bloodPressureCategory,
+          fheHealthCheckerContractAddress,
+          signers.alice,
+        ),
+      ).to.eq(5);
+    });
+  });
+
+  describe("health history", function () {
+    it("appends every check with its reading and block timestamp", async function () {
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthHistoryLength(HEART_RATE)).to.eq(0);
+
+      await checkHeartRate(signers.alice, 48);
+      await checkHeartRate(signers.alice, 75);
+      await checkHeartRate(signers.alice, 120);
+
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthHistoryLength(HEART_RATE)).to.eq(3);
+      expect(await fheHealthCheckerContract.connect(signers.bob).getHealthHistoryLength(HEART_RATE)).to.eq(0);
+
+      const records = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(HEART_RATE, 0, 10);
+      expect(records.length).to.eq(3);
+
+      const expected = [
+        { value: 48, status: 1 },
+        { value: 75, status: 0 },
+        { value: 120, status: 2 },
+      ];
+      for (let i = 0; i < records.length; i++) {
+        const status = await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          records[i].status,
+          fheHealthCheckerContractAddress,
+          signers.alice,
+        );
+        const value = await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          records[i].value,
+          fheHealthCheckerContractAddress,
+          signers.alice,
+        );
+        expect(status).to.eq(expected[i].status);
+        expect(value).to.eq(expected[i].value);
+      }
+
+      expect(records[1].timestamp).to.be.gt(records[0].timestamp);
+      const latestBlock = await ethers.provider.getBlock("latest");
+      expect(records[2].timestamp).to.eq(latestBlock!.timestamp);
+
+      // the latest entry is the current status
+      expect(records[2].status).to.eq(
+        await fheHealthCheckerContract.connect(signers.alice).getHealthStatus(HEART_RATE),
+      );
+    });
+
+    it("paginates history entries", async function () {
+      await checkHeartRate(signers.alice, 48);
+      await checkHeartRate(signers.alice, 75);
+      await checkHeartRate(signers.alice, 120);
+
+      const firstPage = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(HEART_RATE, 0, 2);
+      const secondPage = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(HEART_RATE, 2, 2);
+      const pastEnd = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(HEART_RATE, 3, 2);
+      const unbounded = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .getHealthHistory(HEART_RATE, 1, ethers.MaxUint256);
+
+      expect(firstPage.length).to.eq(2);
+      expect(secondPage.length).to.eq(1);
+      expect(pastEnd.length).to.eq(0);
+      expect(unbounded.length).to.eq(2);
+      expect(secondPage[0].status).to.eq(unbounded[1].status);
+    });
+  });
+
+  describe("trend", function () {
+    async function decryptTrend(signer: HardhatEthersSigner, metric: number) {
+      const encryptedTrend = await fheHealthCheckerContract.connect(signer).getTrend(metric);
+      return fhevm.userDecryptEuint(FhevmType.euint8, encryptedTrend, fheHealthCheckerContractAddress, signer);
+    }
+
+    it("is uninitialized before the first check", async function () {
+      expect(await fheHealthCheckerContract.connect(signers.alice).getTrend(HEART_RATE)).to.eq(ethers.ZeroHash);
+    });
+
+    it("compares consecutive readings relative to the normal range", async function () {
+      await checkHeartRate(signers.alice, 120);
+      expect(await decryptTrend(signers.alice, HEART_RATE)).to.eq(0); // first reading: stable
+
+      await checkHeartRate(signers.alice, 110);
+      expect(await decryptTrend(signers.alice, HEART_RATE)).to.eq(1); // improving
+
+      await checkHeartRate(signers.alice, 130);
+      expect(await decryptTrend(signers.alice, HEART_RATE)).to.eq(2); // worsening
+
+      await checkHeartRate(signers.alice, 80);
+      expect(await decryptTrend(signers.alice, HEART_RATE)).to.eq(1); // back in range
+
+      await checkHeartRate(signers.alice, 65);
+      expect(await decryptTrend(signers.alice, HEART_RATE)).to.eq(0); // moving within the range is stable
+
+      await checkHeartRate(signers.alice, 50);
+      expect(await decryptTrend(signers.alice, HEART_RATE)).to.eq(2); // worsening below the range
+    });
+  });
+
+  describe("health score", function () {
+    async function decryptScore(signer: HardhatEthersSigner) {
+      const encryptedScore = await fheHealthCheckerContract.connect(signer).getHealthScore();
+      return fhevm.userDecryptEuint(FhevmType.euint8, encryptedScore, fheHealthCheckerContractAddress, signer);
+    }
+
+    it("is uninitialized before the first check", async function () {
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthScore()).to.eq(ethers.ZeroHash);
+    });
+
+    it("counts the metrics whose latest status is abnormal", async function () {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(150) // blood pressure: high
+        .add32(75) // heart rate: normal
+        .add32(50) // blood glucose: low
+        .encrypt();
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .checkMetrics([BLOOD_PRESSURE, HEART_RATE, 2], encryptedValues.handles, encryptedValues.inputProof);
+      await tx.wait();
+      expect(await decryptScore(signers.alice)).to.eq(2);
+
+      // a metric turning abnormal is added once, even when checked repeatedly
+      await checkHeartRate(signers.alice, 120);
+      expect(await decryptScore(signers.alice)).to.eq(3);
+      await checkHeartRate(signers.alice, 130);
+      expect(await decryptScore(signers.alice)).to.eq(3);
+
+      // and removed when it gets back to normal
+      await checkHeartRate(signers.alice, 80);
+      expect(await decryptScore(signers.alice)).to.eq(2);
+
+      // scores are per user
+      await checkHeartRate(signers.bob, 80);
+      expect(await decryptScore(signers.bob)).to.eq(0);
+    });
+  });
+
+  describe("data deletion", function () {
+    async function checkVitals(signer: HardhatEthersSigner, values: number[]) {
+      const input = fhevm.createEncryptedInput(fheHealthCheckerContractAddress, signer.address);
+      for (const value of values) {
+        input.add32(value);
+      }
+      const encryptedValues = await input.encrypt();
+      const tx = await fheHealthCheckerContract.connect(signer).checkMetrics(
+        values.map((_, metric) => metric),
+        encryptedValues.handles,
+        encryptedValues.inputProof,
+      );
+      await tx.wait();
+    }
+
+    it("resets the deleted metrics to uninitialized handles", async function () {
+      // blood pressure high, heart rate high, blood glucose normal
+      await checkVitals(signers.alice, [150, 120, 90]);
+      await checkHeartRate(signers.alice, 130);
+      const encryptedRange = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(45)
+        .add32(90)
+        .encrypt();
+      await (
+        await fheHealthCheckerContract
+          .connect(signers.alice)
+          .setPersonalRange(HEART_RATE, encryptedRange.handles[0], encryptedRange.handles[1], encryptedRange.inputProof)
+      ).wait();
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).deleteMyData([HEART_RATE], false))
+        .to.emit(fheHealthCheckerContract, "HealthDataDeleted")
+        .withArgs(signers.alice.address, 1 << HEART_RATE);
+
+      const alice = fheHealthCheckerContract.connect(signers.alice);
+      expect(await alice.getHealthStatus(HEART_RATE)).to.eq(ethers.ZeroHash);
+      expect(await alice.getTrend(HEART_RATE)).to.eq(ethers.ZeroHash);
+      expect(await alice.getHealthHistoryLength(HEART_RATE)).to.eq(0);
+      expect(await alice.getHealthStatusRangeVersion(HEART_RATE)).to.eq(0);
+      expect(await alice.hasPersonalRange(HEART_RATE)).to.eq(false);
+
+      // other metrics are kept
+      expect(await decryptStatus(signers.alice, BLOOD_PRESSURE)).to.eq(2);
+      expect(await alice.getHealthHistoryLength(2)).to.eq(1);
+    });
+
+    it("removes deleted statuses from the health score", async function () {
+      await checkVitals(signers.alice, [150, 120, 90]);
+
+      await (await fheHealthCheckerContract.connect(signers.alice).deleteMyData([HEART_RATE], false)).wait();
+      const encryptedScore = await fheHealthCheckerContract.connect(signers.alice).getHealthScore();
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, encryptedScore, fheHealthCheckerContractAddress, signers.alice),
+      ).to.eq(1);
+
+      // a new check after deletion starts a fresh history
+      await checkHeartRate(signers.alice, 120);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(2);
+      expect(await fheHealthCheckerContract.connect(signers.alice).getHealthHistoryLength(HEART_RATE)).to.eq(1);
+      const records = await fheHealthCheckerContract.connect(signers.alice).getHealthHistory(HEART_RATE, 0, 10);
+      expect(records.length).to.eq(1);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          records[0].value,
+          fheHealthCheckerContractAddress,
+          signers.alice,
+        ),
+      ).to.eq(120);
+    });
+
+    it("deletes the combined blood pressure category with blood pressure", async function () {
+      const encryptedValues = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(135)
+        .add32(85)
+        .encrypt();
+      await (
+        await fheHealthCheckerContract
+          .connect(signers.alice)
+          .checkBloodPressureFull(encryptedValues.handles[0], encryptedValues.handles[1], encryptedValues.inputProof)
+      ).wait();
+
+      await (await fheHealthCheckerContract.connect(signers.alice).deleteMyData([BLOOD_PRESSURE], false)).wait();
+      const alice = fheHealthCheckerContract.connect(signers.alice);
+      expect(await alice.getHealthStatus(BLOOD_PRESSURE)).to.eq(ethers.ZeroHash);
+      expect(await alice.getBloodPressureCategory()).to.eq(ethers.ZeroHash);
+    });
+
+    it("revokes the deleted metrics from delegates and keeps the profile and attestations", async function () {
+      const alice = fheHealthCheckerContract.connect(signers.alice);
+      await checkVitals(signers.alice, [150, 120, 90, 365, 98]);
+
+      const expiresAt = (await time.latest()) + 24 * 60 * 60;
+      await (await alice.grantAccess(signers.bob.address, [BLOOD_PRESSURE, HEART_RATE], expiresAt)).wait();
+      await (await alice.grantAccess(signers.deployer.address, [HEART_RATE], expiresAt)).wait();
+
+      const encryptedProfile = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add8(1)
+        .add8(0)
+        .encrypt();
+      await (
+        await alice.setProfile(encryptedProfile.handles[0], encryptedProfile.handles[1], encryptedProfile.inputProof)
+      ).wait();
+
+      // any approved address can receive attestations
+      await (await fheHealthCheckerContract.setVerifierApproval(signers.bob.address, true)).wait();
+      await (await alice.attestAllNormal(signers.bob.address)).wait();
+      expect(await fheHealthCheckerContract.getAttestation(signers.alice.address, signers.bob.address)).to.not.eq(
+        ethers.ZeroHash,
+      );
+
+      await expect(alice.deleteMyData([HEART_RATE], false))
+        .to.emit(fheHealthCheckerContract, "AccessRevoked")
+        .withArgs(signers.alice.address, signers.bob.address, 1 << HEART_RATE)
+        .and.to.emit(fheHealthCheckerContract, "AccessRevoked")
+        .withArgs(signers.alice.address, signers.deployer.address, 1 << HEART_RATE);
+
+      expect(await fheHealthCheckerContract.getDelegates(signers.alice.address)).to.deep.eq([signers.bob.address]);
+      expect(await fheHealthCheckerContract.getDelegatedMetrics(signers.alice.address, signers.bob.address)).to.eq(
+        1 << BLOOD_PRESSURE,
+      );
+      expect(await fheHealthCheckerContract.getDelegatedMetrics(signers.alice.address, signers.deployer.address)).to.eq(
+        0,
+      );
+      await expect(
+        fheHealthCheckerContract.connect(signers.deployer).getHealthStatusOf(signers.alice.address, HEART_RATE),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.deployer.address);
+
+      // account data is kept, but the attestation no longer reflects the deleted metric
+      expect(await alice.hasProfile()).to.eq(true);
+      expect(await fheHealthCheckerContract.getAttestation(signers.alice.address, signers.bob.address)).to.not.eq(
+        ethers.ZeroHash,
+      );
+      expect(await fheHealthCheckerContract.isAttestationCurrent(signers.alice.address, signers.bob.address)).to.eq(
+        false,
+      );
+    });
+
+    it("deletes the profile and attestations on request", async function () {
+      const alice = fheHealthCheckerContract.connect(signers.alice);
+      await checkVitals(signers.alice, [150, 120, 90, 365, 98]);
+
+      const encryptedProfile = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add8(1)
+        .add8(0)
+        .encrypt();
+      await (
+        await alice.setProfile(encryptedProfile.handles[0], encryptedProfile.handles[1], encryptedProfile.inputProof)
+      ).wait();
+      await (await fheHealthCheckerContract.setVerifierApproval(signers.bob.address, true)).wait();
+      await (await alice.attestAllNormal(signers.bob.address)).wait();
+
+      await expect(alice.deleteMyData([], true))
+        .to.emit(fheHealthCheckerContract, "HealthDataDeleted")
+        .withArgs(signers.alice.address, 0);
+
+      expect(await alice.hasProfile()).to.eq(false);
+      expect(await fheHealthCheckerContract.getAttestation(signers.alice.address, signers.bob.address)).to.eq(
+        ethers.ZeroHash,
+      );
+      // the metrics are kept
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(2);
+      expect(await alice.getHealthHistoryLength(HEART_RATE)).to.eq(1);
+    });
+
+    it("only deletes the caller's data of registered metrics", async function () {
+      await checkHeartRate(signers.bob, 75);
+      await (await fheHealthCheckerContract.connect(signers.alice).deleteMyData([HEART_RATE], true)).wait();
+      expect(await decryptStatus(signers.bob, HEART_RATE)).to.eq(0);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).deleteMyData([HEART_RATE, 5], false))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidMetric")
+        .withArgs(5);
+    });
+  });
+
+  describe("consent", function () {
+    it("records the consented terms version and timestamp", async function () {
+      const consentVersion = await fheHealthCheckerContract.consentVersion();
+      const consent = await fheHealthCheckerContract.getConsent(signers.alice.address);
+      expect(consent.version).to.eq(consentVersion);
+      expect(consent.timestamp).to.be.greaterThan(0);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).withdrawConsent())
+        .to.emit(fheHealthCheckerContract, "ConsentWithdrawn")
+        .withArgs(signers.alice.address);
+      const withdrawn = await fheHealthCheckerContract.getConsent(signers.alice.address);
+      expect(withdrawn.version).to.eq(ethers.ZeroHash);
+      expect(withdrawn.timestamp).to.eq(0);
+    });
+
+    it("refuses checks without consent", async function () {
+      await (await fheHealthCheckerContract.connect(signers.alice).withdrawConsent()).wait();
+      await expect(checkHeartRate(signers.alice, 75))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "ConsentRequired")
+        .withArgs(signers.alice.address);
+
+      const consentVersion = await fheHealthCheckerContract.consentVersion();
+      await (await fheHealthCheckerContract.connect(signers.alice).giveConsent(consentVersion)).wait();
+      await checkHeartRate(signers.alice, 75);
+      expect(await decryptStatus(signers.alice, HEART_RATE)).to.eq(0);
+    });
+
+    it("requires consenting again once the owner updates the terms", async function () {
+      const previousVersion = await fheHealthCheckerContract.consentVersion();
+      const newVersion = ethers.id("updated consent terms");
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).setConsentVersion(newVersion),
+      ).to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized");
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setConsentVersion(newVersion))
+        .to.emit(fheHealthCheckerContract, "ConsentVersionUpdated")
+        .withArgs(newVersion);
+
+      await expect(checkHeartRate(signers.alice, 75)).to.be.revertedWithCustomError(
+        fheHealthCheckerContract,
+        "ConsentRequired",
+      );
+      await expect(fheHealthCheckerContract.connect(signers.alice).giveConsent(previousVersion))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidConsentVersion")
+        .withArgs(previousVersion);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).giveConsent(newVersion))
+        .to.emit(fheHealthCheckerContract, "ConsentGiven")
+        .withArgs(signers.alice.address, newVersion);
+      await checkHeartRate(signers.alice, 75);
+    });
+
+    it("refuses personal ranges and profiles without consent", async function () {
+      await (await fheHealthCheckerContract.connect(signers.alice).withdrawConsent()).wait();
+
+      const encryptedRange = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(45)
+        .add32(90)
+        .encrypt();
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.alice)
+          .setPersonalRange(
+            HEART_RATE,
+            encryptedRange.handles[0],
+            encryptedRange.handles[1],
+            encryptedRange.inputProof,
+          ),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "ConsentRequired")
+        .withArgs(signers.alice.address);
+
+      const encryptedProfile = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add8(1)
+        .add8(0)
+        .encrypt();
+      await expect(
+        fheHealthCheckerContract
+          .connect(signers.alice)
+          .setProfile(encryptedProfile.handles[0], encryptedProfile.handles[1], encryptedProfile.inputProof),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "ConsentRequired")
+        .withArgs(signers.alice.address);
+
+      expect(await fheHealthCheckerContract.connect(signers.alice).hasPersonalRange(HEART_RATE)).to.eq(false);
+      expect(await fheHealthCheckerContract.connect(signers.alice).hasProfile()).to.eq(false);
+    });
+
+    it("requires consent to share and records it with each grant", async function () {
+      const consentVersion = await fheHealthCheckerContract.consentVersion();
+      const expiresAt = (await time.latest()) + 24 * 60 * 60;
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).grantAccess(signers.bob.address, [HEART_RATE], expiresAt),
+      )
+        .to.emit(fheHealthCheckerContract, "SharingConsented")
+        .withArgs(signers.alice.address, signers.bob.address, consentVersion);
+
+      await (await fheHealthCheckerContract.connect(signers.alice).withdrawConsent()).wait();
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).grantAccess(signers.bob.address, [HEART_RATE], expiresAt),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "ConsentRequired")
+        .withArgs(signers.alice.address);
+    });
+  });
+
+  describe("delegated access", function () {
+    async function decryptAliceStatusAs(signer: HardhatEthersSigner, metric: number) {
+      const encryptedStatus = await fheHealthCheckerContract.connect(signers.alice).getHealthStatus(metric);
+      return fhevm.userDecryptEuint(FhevmType.euint8, encryptedStatus, fheHealthCheckerContractAddress, signer);
+    }
+
+    async function inOneDay() {
+      return (await time.latest()) + 24 * 60 * 60;
+    }
+
+    it("shares current and future statuses of the granted metrics", async function () {
+      await checkHeartRate(signers.alice, 120);
+
+      const expiresAt = await inOneDay();
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).grantAccess(signers.bob.address, [HEART_RATE], expiresAt),
+      )
+        .to.emit(fheHealthCheckerContract, "AccessGranted")
+        .withArgs(signers.alice.address, signers.bob.address, 1 << HEART_RATE, expiresAt);
+
+      expect(await decryptAliceStatusAs(signers.bob, HEART_RATE)).to.eq(2);
+
+      await checkHeartRate(signers.alice, 48);
+      expect(await decryptAliceStatusAs(signers.bob, HEART_RATE)).to.eq(1);
+
+      expect(await fheHealthCheckerContract.getDelegates(signers.alice.address)).to.deep.eq([signers.bob.address]);
+      expect(await fheHealthCheckerContract.getDelegatedMetrics(signers.alice.address, signers.bob.address)).to.eq(
+        1 << HEART_RATE,
+      );
+    });
+
+    it("does not share metrics that were not granted", async function () {
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .grantAccess(signers.bob.address, [HEART_RATE], await inOneDay());
+      await tx.wait();
+
+      const encryptedValue = await fhevm
+        .createEncryptedInput(fheHealthCheckerContractAddress, signers.alice.address)
+        .add32(120)
+        .encrypt();
+      const checkTx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .checkBloodPressure(encryptedValue.handles[0], encryptedValue.inputProof);
+      await checkTx.wait();
+
+      await expect(decryptAliceStatusAs(signers.bob, BLOOD_PRESSURE)).to.be.rejected;
+    });
+
+    it("stops sharing future statuses once revoked", async function () {
+      let tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .grantAccess(signers.bob.address, [BLOOD_PRESSURE, HEART_RATE], await inOneDay());
+      await tx.wait();
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).revokeAccess(signers.bob.address, [HEART_RATE]))
+        .to.emit(fheHealthCheckerContract, "AccessRevoked")
+        .withArgs(signers.alice.address, signers.bob.address, 1 << HEART_RATE);
+      expect(await fheHealthCheckerContract.getDelegates(signers.alice.address)).to.deep.eq([signers.bob.address]);
+
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).revokeAccess(signers.bob.address, [HEART_RATE]),
+      ).not.to.emit(fheHealthCheckerContract, "AccessRevoked");
+
+      await checkHeartRate(signers.alice, 75);
+      await expect(decryptAliceStatusAs(signers.bob, HEART_RATE)).to.be.rejected;
+
+      tx = await fheHealthCheckerContract.connect(signers.alice).revokeAccess(signers.bob.address, [BLOOD_PRESSURE]);
+      await tx.wait();
+      expect(await fheHealthCheckerContract.getDelegates(signers.alice.address)).to.deep.eq([]);
+      expect(await fheHealthCheckerContract.getDelegatedMetrics(signers.alice.address, signers.bob.address)).to.eq(0);
+    });
+
+    it("rejects invalid delegates, metrics and expiries", async function () {
+      const expiresAt = await inOneDay();
+
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).grantAccess(ethers.ZeroAddress, [HEART_RATE], expiresAt),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidDelegate")
+        .withArgs(ethers.ZeroAddress);
+
+      await expect(
+        fheHealthCheckerContract.connect(signers.alice).grantAccess(signers.alice.address, [HEART_RATE], expiresAt),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidDelegate")
+        .withArgs(signers.alice.address);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).grantAccess(signers.bob.address, [5], expiresAt))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidMetric")
+        .withArgs(5);
+
+      const now = await time.latest();
+      await expect(fheHealthCheckerContract.connect(signers.alice).grantAccess(signers.bob.address, [HEART_RATE], now))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "InvalidExpiry")
+        .withArgs(now);
+    });
+
+    it("lets delegates read shared statuses only while the grant is live", async function () {
+      await checkHeartRate(signers.alice, 120);
+
+      const expiresAt = await inOneDay();
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .grantAccess(signers.bob.address, [HEART_RATE], expiresAt);
+      await tx.wait();
+      expect(await fheHealthCheckerContract.getDelegationExpiry(signers.alice.address, signers.bob.address)).to.eq(
+        expiresAt,
+      );
+
+      const encryptedStatus = await fheHealthCheckerContract
+        .connect(signers.bob)
+        .getHealthStatusOf(signers.alice.address, HEART_RATE);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, encryptedStatus, fheHealthCheckerContractAddress, signers.bob),
+      ).to.eq(2);
+
+      await expect(
+        fheHealthCheckerContract.connect(signers.bob).getHealthStatusOf(signers.alice.address, BLOOD_PRESSURE),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.bob.address);
+      await expect(
+        fheHealthCheckerContract.connect(signers.deployer).getHealthStatusOf(signers.alice.address, HEART_RATE),
+      )
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.deployer.address);
+
+      await time.increaseTo(expiresAt);
+
+      await expect(fheHealthCheckerContract.connect(signers.bob).getHealthStatusOf(signers.alice.address, HEART_RATE))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.bob.address);
+      // expired delegates stay listed until revoked or granted again
+      expect(await fheHealthCheckerContract.getDelegates(signers.alice.address)).to.deep.eq([signers.bob.address]);
+    });
+
+    it("returns an uninitialized handle for shared metrics the patient never checked", async function () {
+      const tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .grantAccess(signers.bob.address, [BLOOD_PRESSURE, HEART_RATE], await inOneDay());
+      await tx.wait();
+      await checkHeartRate(signers.alice, 75);
+
+      expect(
+        await fheHealthCheckerContract.connect(signers.bob).getHealthStatusOf(signers.alice.address, BLOOD_PRESSURE),
+      ).to.eq(ethers.ZeroHash);
+      expect(
+        await fheHealthCheckerContract.connect(signers.bob).getHealthStatusOf(signers.alice.address, HEART_RATE),
+      ).to.eq(await fheHealthCheckerContract.connect(signers.alice).getHealthStatus(HEART_RATE));
+    });
+
+    it("stops sharing future statuses once the grant expires", async function () {
+      const expiresAt = await inOneDay();
+      let tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .grantAccess(signers.bob.address, [BLOOD_PRESSURE, HEART_RATE], expiresAt);
+      await tx.wait();
+
+      await time.increaseTo(expiresAt);
+      await checkHeartRate(signers.alice, 75);
+      await expect(decryptAliceStatusAs(signers.bob, HEART_RATE)).to.be.rejected;
+
+      // granting again after expiry starts a fresh grant without the previous metrics
+      tx = await fheHealthCheckerContract
+        .connect(signers.alice)
+        .grantAccess(signers.bob.address, [HEART_RATE], await inOneDay());
+      await tx.wait();
+      expect(await fheHealthCheckerContract.getDelegatedMetrics(signers.alice.address, signers.bob.address)).to.eq(
+        1 << HEART_RATE,
+      );
+      expect(await decryptAliceStatusAs(signers.bob, HEART_RATE)).to.eq(0);
+    });
+  });
+
+  describe("population statistics", function () {
+    it("reveals the per-status totals of a metric through the decryption oracle", async function () {
+      await checkHeartRate(signers.alice, 48); // low
+      await checkHeartRate(signers.alice, 120); // high
+      await checkHeartRate(signers.bob, 75); // normal
+      await checkHeartRate(signers.deployer, 130); // high
+
+      const stats = await fheHealthCheckerContract.getPopulationStats(HEART_RATE);
+      expect(stats.revealedAt).to.eq(0);
+
+      const tx = await fheHealthCheckerContract.connect(signers.deployer).setMinStatsSubmitters(3);
+      await tx.wait();
+
+      await expect(fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE)).to.emit(
+        fheHealthCheckerContract,
+        "StatsDecryptionRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await fheHealthCheckerContract.getPopulationStats(HEART_RATE);
+      expect(revealed.normal).to.eq(1);
+      expect(revealed.low).to.eq(1);
+      expect(revealed.high).to.eq(2);
+      expect(revealed.revealedAt).to.be.gt(0);
+    });
+
+    it("only lets the owner request statistics of checked metrics", async function () {
+      await expect(fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "NoStatistics")
+        .withArgs(HEART_RATE);
+
+      await checkHeartRate(signers.alice, 75);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).requestStatsDecryption(HEART_RATE))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.alice.address);
+    });
+
+    it("refuses to reveal statistics before enough distinct users checked the metric", async function () {
+      expect(await fheHealthCheckerContract.minStatsSubmitters()).to.eq(5);
+      const [, , , , , , statsThreshold] = await fheHealthCheckerContract.getHealthMetricRanges();
+      expect(statsThreshold).to.eq(5);
+
+      await checkHeartRate(signers.alice, 48);
+      await checkHeartRate(signers.alice, 120); // same user, counted once
+      await checkHeartRate(signers.bob, 75);
+      expect(await fheHealthCheckerContract.statsSubmitterCounts(HEART_RATE)).to.eq(2);
+
+      await expect(fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "NotEnoughSubmitters")
+        .withArgs(HEART_RATE, 2, 5);
+
+      await expect(fheHealthCheckerContract.connect(signers.alice).setMinStatsSubmitters(2))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized")
+        .withArgs(signers.alice.address);
+
+      await expect(fheHealthCheckerContract.connect(signers.deployer).setMinStatsSubmitters(2))
+        .to.emit(fheHealthCheckerContract, "MinStatsSubmittersUpdated")
+        .withArgs(2);
+      await expect(fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE)).to.emit(
+        fheHealthCheckerContract,
+        "StatsDecryptionRequested",
+      );
+    });
+
+    it("requires enough new submitters between two reveals", async function () {
+      await (await fheHealthCheckerContract.connect(signers.deployer).setMinStatsSubmitters(2)).wait();
+      await checkHeartRate(signers.alice, 48);
+      await checkHeartRate(signers.bob, 75);
+      await (await fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await fheHealthCheckerContract.statsSubmitterCounts(HEART_RATE)).to.eq(0);
+
+      // a single new check would be singled out by the difference between the two reveals
+      await checkHeartRate(signers.deployer, 130);
+      await expect(fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "NotEnoughSubmitters")
+        .withArgs(HEART_RATE, 1, 2);
+
+      // users who contributed to the previous reveal count again when they check again
+      await checkHeartRate(signers.alice, 120);
+      expect(await fheHealthCheckerContract.statsSubmitterCounts(HEART_RATE)).to.eq(2);
+      await (await fheHealthCheckerContract.connect(signers.deployer).requestStatsDecryption(HEART_RATE)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await fheHealthCheckerContract.getPopulationStats(HEART_RATE);
+      expect(revealed.normal).to.eq(1);
+      expect(revealed.low).to.eq(1);
+      expect(revealed.high).to.eq(2);
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(fheHealthCheckerContract.onStatsDecrypted(42, "0x", "0x"))
+        .to.be.revertedWithCustomError(fheHealthCheckerContract, "UnknownDecryptionRequest")
+        .withArgs(42);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { FHEHealthChecker, FHEHealthChecker__factory, HealthAccessGate, HealthAccessGate__factory } from "../types";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Blood pressure, heart rate, blood glucose, body temperature (x10), blood oxygen
+const NORMAL_VITALS = [110, 70, 90, 365, 98];
+
+async function deployFixture() {
+  // FHEHealthChecker is linked to its libraries
+  const libraries: Record<string, string> = {};
+  for (const name of [
+    "HealthAttestations",
+    "HealthDelegations",
+    "HealthMetricRegistry",
+    "HealthProfiles",
+    "HealthStatistics",
+  ]) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  const checkerFactory = (await ethers.getContractFactory("FHEHealthChecker", {
+    libraries,
+  })) as FHEHealthChecker__factory;
+  const fheHealthCheckerContract = (await checkerFactory.deploy()) as FHEHealthChecker;
+  const fheHealthCheckerContractAddress = await fheHealthCheckerContract.getAddress();
+
+  const gateFactory = (await ethers.getContractFactory("HealthAccessGate")) as HealthAccessGate__factory;
+  const healthAccessGateContract = (await gateFactory.deploy(fheHealthCheckerContractAddress)) as HealthAccessGate;
+  const healthAccessGateContractAddress = await healthAccessGateContract.getAddress();
+
+  return {
+    fheHealthCheckerContract,
+    fheHealthCheckerContractAddress,
+    healthAccessGateContract,
+    healthAccessGateContractAddress,
+  };
+}
+
+describe("HealthAccessGate", function () {
+  let signers: Signers;
+  let fheHealthCheckerContract: FHEHealthChecker;
+  let fheHealthCheckerContractAddress: string;
+  let healthAccessGateContract: HealthAccessGate;
+  let healthAccessGateContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({
+      fheHealthCheckerContract,
+      fheHealthCheckerContractAddress,
+      healthAccessGateContract,
+      healthAccessGateContractAddress,
+    } = await deployFixture());
+    await (await fheHealthCheckerContract.setVerifierApproval(healthAccessGateContractAddress, true)).wait();
+    const consentVersion = await fheHealthCheckerContract.consentVersion();
+    for (const signer of [signers.alice, signers.bob]) {
+      await (await fheHealthCheckerContract.connect(signer).giveConsent(consentVersion)).wait();
+    }
+  });
+
+  async function checkVitals(signer: HardhatEthersSigner, values: number[]) {
+    const input = fhevm.createEncryptedInput(fheHealthCheckerContractAddress, signer.address);
+    for (const value of values) {
+      input.add32(value);
+    }
+    const encryptedValues = await input.encrypt();
+
+    const tx = await fheHealthCheckerContract.connect(signer).checkMetrics(
+      values.map((_, metric) => metric),
+      encryptedValues.handles,
+      encryptedValues.inputProof,
+    );
+    await tx.wait();
+  }
+
+  async function attestAndRequestAccess(signer: HardhatEthersSigner) {
+    await (await fheHealthCheckerContract.connect(signer).attestAllNormal(healthAccessGateContractAddress)).wait();
+    await (await healthAccessGateContract.connect(signer).requestAccess()).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("opens the gate when all vitals are normal", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS);
+    await attestAndRequestAccess(signers.alice);
+
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(true);
+    expect(await healthAccessGateContract.hasAccess(signers.bob.address)).to.eq(false);
+  });
+
+  it("keeps the gate closed when a vital is abnormal", async function () {
+    await checkVitals(signers.alice, [110, 130, 90, 365, 98]);
+    await attestAndRequestAccess(signers.alice);
+
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(false);
+  });
+
+  it("keeps the gate closed while a metric was never checked", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS.slice(0, 4));
+    await attestAndRequestAccess(signers.alice);
+
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(false);
+  });
+
+  it("closes the gate again after a new attestation with abnormal vitals", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS);
+    await attestAndRequestAccess(signers.alice);
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(true);
+
+    await checkVitals(signers.alice, [150, 70, 90, 365, 98]);
+    await attestAndRequestAccess(signers.alice);
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(false);
+  });
+
+  it("revokes access once a new abnormal check makes the attestation stale", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS);
+    await attestAndRequestAccess(signers.alice);
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(true);
+    expect(
+      await fheHealthCheckerContract.isAttestationCurrent(signers.alice.address, healthAccessGateContractAddress),
+    ).to.eq(true);
+
+    await checkVitals(signers.alice, [150]);
+    expect(
+      await fheHealthCheckerContract.isAttestationCurrent(signers.alice.address, healthAccessGateContractAddress),
+    ).to.eq(false);
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(false);
+
+    await expect(healthAccessGateContract.connect(signers.alice).requestAccess())
+      .to.be.revertedWithCustomError(healthAccessGateContract, "StaleAttestation")
+      .withArgs(signers.alice.address);
+  });
+
+  it("closes the gate when the user deletes their data", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS);
+    await attestAndRequestAccess(signers.alice);
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(true);
+
+    await (await fheHealthCheckerContract.connect(signers.alice).deleteMyData([0], true)).wait();
+    expect(await healthAccessGateContract.hasAccess(signers.alice.address)).to.eq(false);
+
+    // the attestation is deleted with the data
+    await expect(healthAccessGateContract.connect(signers.alice).requestAccess())
+      .to.be.revertedWithCustomError(healthAccessGateContract, "NoAttestation")
+      .withArgs(signers.alice.address);
+  });
+
+  it("lets the user decrypt their own attestation", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS);
+    await (
+      await fheHealthCheckerContract.connect(signers.alice).attestAllNormal(healthAccessGateContractAddress)
+    ).wait();
+
+    const attestation = await fheHealthCheckerContract.getAttestation(
+      signers.alice.address,
+      healthAccessGateContractAddress,
+    );
+    const allNormal = await fhevm.userDecryptEbool(attestation, fheHealthCheckerContractAddress, signers.alice);
+    expect(allNormal).to.eq(true);
+  });
+
+  it("only accepts attestations to approved verifiers", async function () {
+    await (await fheHealthCheckerContract.setVerifierApproval(healthAccessGateContractAddress, false)).wait();
+
+    await expect(fheHealthCheckerContract.connect(signers.alice).attestAllNormal(healthAccessGateContractAddress))
+      .to.be.revertedWithCustomError(fheHealthCheckerContract, "UnapprovedVerifier")
+      .withArgs(healthAccessGateContractAddress);
+    await expect(
+      fheHealthCheckerContract.connect(signers.alice).setVerifierApproval(signers.bob.address, true),
+    ).to.be.revertedWithCustomError(fheHealthCheckerContract, "Unauthorized");
+  });
+
+  it("requires the user's consent to attest", async function () {
+    await checkVitals(signers.alice, NORMAL_VITALS);
+    await (await fheHealthCheckerContract.connect(signers.alice).withdrawConsent()).wait();
+
+    await expect(fheHealthCheckerContract.connect(signers.alice).attestAllNormal(healthAccessGateContractAddress))
+      .to.be.revertedWithCustomError(fheHealthCheckerContract, "ConsentRequired")
+      .withArgs(signers.alice.address);
+  });
+
+  it("rejects access requests without an attestation", async function () {
+    await expect(healthAccessGateContract.connect(signers.alice).requestAccess())
+      .to.be.revertedWithCustomError(healthAccessGateContract, "NoAttestation")
+      .withArgs(signers.alice.address);
+  });
+});
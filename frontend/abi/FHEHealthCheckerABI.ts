@@ -10,95 +10,2043 @@ export const FHEHealthCheckerABI = {
       "stateMutability": "nonpayable",
       "type": "constructor"
     },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ConsentRequired",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bytes32",
+          "name": "version",
+          "type": "bytes32"
+        }
+      ],
+      "name": "InvalidConsentVersion",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "delegate",
+          "type": "address"
+        }
+      ],
+      "name": "InvalidDelegate",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
+        }
+      ],
+      "name": "InvalidExpiry",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "InvalidMetric",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "ageBand",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint8",
+          "name": "sex",
+          "type": "uint8"
+        }
+      ],
+      "name": "InvalidProfile",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint32",
+          "name": "min",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "max",
+          "type": "uint32"
+        }
+      ],
+      "name": "InvalidRange",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "metrics",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "values",
+          "type": "uint256"
+        }
+      ],
+      "name": "LengthMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "MetricRegistryFull",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "NoStatistics",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint32",
+          "name": "submitters",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "required",
+          "type": "uint32"
+        }
+      ],
+      "name": "NotEnoughSubmitters",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        }
+      ],
+      "name": "UnapprovedVerifier",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        }
+      ],
+      "name": "Unauthorized",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "requestId",
+          "type": "uint256"
+        }
+      ],
+      "name": "UnknownDecryptionRequest",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint32",
+          "name": "version",
+          "type": "uint32"
+        }
+      ],
+      "name": "UnknownRangesVersion",
+      "type": "error"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "delegate",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "metrics",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
+        }
+      ],
+      "name": "AccessGranted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "delegate",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "metrics",
+          "type": "uint256"
+        }
+      ],
+      "name": "AccessRevoked",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        }
+      ],
+      "name": "AttestationCreated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes32",
+          "name": "version",
+          "type": "bytes32"
+        }
+      ],
+      "name": "ConsentGiven",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bytes32",
+          "name": "version",
+          "type": "bytes32"
+        }
+      ],
+      "name": "ConsentVersionUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ConsentWithdrawn",
+      "type": "event"
+    },
     {
       "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
+          "indexed": true,
+          "internalType": "uint32",
+          "name": "version",
+          "type": "uint32"
+        },
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "min",
+          "type": "uint32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "max",
+          "type": "uint32"
+        }
+      ],
+      "name": "DefaultRangeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes32",
+          "name": "requestId",
+          "type": "bytes32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "HealthCheckRequested",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "requestId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "status",
+          "type": "uint8"
+        }
+      ],
+      "name": "HealthCheckResult",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "metrics",
+          "type": "uint256"
+        }
+      ],
+      "name": "HealthDataDeleted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "HealthStatusUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "symbol",
+          "type": "string"
+        },
+        {
+          "indexed": false,
+          "internalType": "int32",
+          "name": "offset",
+          "type": "int32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "numerator",
+          "type": "uint32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "denominator",
+          "type": "uint32"
+        }
+      ],
+      "name": "InputUnitAdded",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "name",
+          "type": "string"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "unit",
+          "type": "string"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "scale",
+          "type": "uint32"
+        }
+      ],
+      "name": "MetricRegistered",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "minSubmitters",
+          "type": "uint32"
+        }
+      ],
+      "name": "MinStatsSubmittersUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "previousOwner",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "OwnershipTransferred",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "PersonalRangeCleared",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "PersonalRangeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "ageBand",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "sex",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "min",
+          "type": "uint32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "max",
+          "type": "uint32"
+        }
+      ],
+      "name": "ProfileRangeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ProfileSet",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "isAdmin",
+          "type": "bool"
+        }
+      ],
+      "name": "RangeAdminUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint32",
+          "name": "version",
+          "type": "uint32"
+        },
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "criticalMin",
+          "type": "uint32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "criticalMax",
+          "type": "uint32"
+        }
+      ],
+      "name": "SeverityBandsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "recipient",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes32",
+          "name": "consentVersion",
+          "type": "bytes32"
+        }
+      ],
+      "name": "SharingConsented",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "requestId",
+          "type": "uint256"
+        }
+      ],
+      "name": "StatsDecryptionRequested",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "normal",
+          "type": "uint32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "low",
+          "type": "uint32"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32",
+          "name": "high",
+          "type": "uint32"
+        }
+      ],
+      "name": "StatsRevealed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "approved",
+          "type": "bool"
+        }
+      ],
+      "name": "VerifierApprovalUpdated",
+      "type": "event"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "string",
+          "name": "name",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "unit",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "description",
+          "type": "string"
+        },
+        {
+          "internalType": "uint32",
+          "name": "scale",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "min",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "max",
+          "type": "uint32"
+        }
+      ],
+      "name": "addMetric",
+      "outputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        }
+      ],
+      "name": "approvedVerifiers",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "approved",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        }
+      ],
+      "name": "attestAllNormal",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "allNormal",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "bloodGlucose",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkBloodGlucose",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "bloodOxygen",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkBloodOxygen",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "bloodPressure",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkBloodPressure",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "systolic",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "diastolic",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkBloodPressureFull",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "bodyTemperature",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkBodyTemperature",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "heartRate",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkHeartRate",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "encryptedValue",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkMetric",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8[]",
+          "name": "metricIds",
+          "type": "uint8[]"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "encryptedValues",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "checkMetrics",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "clearPersonalRange",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "consentVersion",
+      "outputs": [
+        {
+          "internalType": "bytes32",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8[]",
+          "name": "metricIds",
+          "type": "uint8[]"
+        },
+        {
+          "internalType": "bool",
+          "name": "deleteAccountData",
+          "type": "bool"
+        }
+      ],
+      "name": "deleteMyData",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        }
+      ],
+      "name": "getAttestation",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getBloodPressureCategory",
+      "outputs": [
+        {
+          "internalType": "euint8",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getBloodPressureRanges",
+      "outputs": [
+        {
+          "internalType": "uint32",
+          "name": "min",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "max",
+          "type": "uint32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getConsent",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "bytes32",
+              "name": "version",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint64",
+              "name": "timestamp",
+              "type": "uint64"
+            }
+          ],
+          "internalType": "struct FHEHealthChecker.Consent",
+          "name": "",
+          "type": "tuple"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "delegate",
+          "type": "address"
+        }
+      ],
+      "name": "getDelegatedMetrics",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getDelegates",
+      "outputs": [
+        {
+          "internalType": "address[]",
+          "name": "",
+          "type": "address[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "delegate",
+          "type": "address"
+        }
+      ],
+      "name": "getDelegationExpiry",
+      "outputs": [
+        {
+          "internalType": "uint64",
+          "name": "",
+          "type": "uint64"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint256",
+          "name": "offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getHealthHistory",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "euint8",
+              "name": "status",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "euint32",
+              "name": "value",
+              "type": "bytes32"
+            },
+            {
+              "internalType": "uint64",
+              "name": "timestamp",
+              "type": "uint64"
+            },
+            {
+              "internalType": "uint32",
+              "name": "rangeVersion",
+              "type": "uint32"
+            },
+            {
+              "internalType": "euint8",
+              "name": "bloodPressureCategory",
+              "type": "bytes32"
+            }
+          ],
+          "internalType": "struct FHEHealthChecker.HealthRecord[]",
+          "name": "records",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getHealthHistoryLength",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getHealthMetricRanges",
+      "outputs": [
+        {
+          "internalType": "uint8[]",
+          "name": "metricTypes",
+          "type": "uint8[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "mins",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "maxs",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "string[]",
+          "name": "units",
+          "type": "string[]"
+        },
+        {
+          "internalType": "string[]",
+          "name": "descriptions",
+          "type": "string[]"
+        },
+        {
+          "internalType": "uint32",
+          "name": "version",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "statsThreshold",
+          "type": "uint32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint32",
+          "name": "version",
+          "type": "uint32"
+        }
+      ],
+      "name": "getHealthMetricRangesAt",
+      "outputs": [
+        {
+          "internalType": "uint8[]",
+          "name": "metricTypes",
+          "type": "uint8[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "mins",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "maxs",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "string[]",
+          "name": "units",
+          "type": "string[]"
+        },
+        {
+          "internalType": "string[]",
+          "name": "descriptions",
+          "type": "string[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getHealthScore",
+      "outputs": [
+        {
+          "internalType": "euint8",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getHealthStatus",
+      "outputs": [
+        {
+          "internalType": "euint8",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "patient",
+          "type": "address"
+        },
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getHealthStatusOf",
+      "outputs": [
+        {
+          "internalType": "euint8",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getHealthStatusRangeVersion",
+      "outputs": [
+        {
+          "internalType": "uint32",
+          "name": "",
+          "type": "uint32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getInputUnits",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "string",
+              "name": "symbol",
+              "type": "string"
+            },
+            {
+              "internalType": "int32",
+              "name": "offset",
+              "type": "int32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "numerator",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "denominator",
+              "type": "uint32"
+            }
+          ],
+          "internalType": "struct FHEHealthChecker.InputUnit[]",
+          "name": "units",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getMetric",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint8",
+              "name": "id",
+              "type": "uint8"
+            },
+            {
+              "internalType": "string",
+              "name": "name",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "unit",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "uint32",
+              "name": "scale",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "min",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "max",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "criticalMin",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "criticalMax",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "plausibleMin",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "plausibleMax",
+              "type": "uint32"
+            }
+          ],
+          "internalType": "struct FHEHealthChecker.MetricDefinition",
+          "name": "",
+          "type": "tuple"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getMetrics",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint8",
+              "name": "id",
+              "type": "uint8"
+            },
+            {
+              "internalType": "string",
+              "name": "name",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "unit",
+              "type": "string"
+            },
+            {
+              "internalType": "string",
+              "name": "description",
+              "type": "string"
+            },
+            {
+              "internalType": "uint32",
+              "name": "scale",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "min",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "max",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "criticalMin",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "criticalMax",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "plausibleMin",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "plausibleMax",
+              "type": "uint32"
+            }
+          ],
+          "internalType": "struct FHEHealthChecker.MetricDefinition[]",
+          "name": "definitions",
+          "type": "tuple[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getPersonalRange",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "min",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint32",
+          "name": "max",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getPopulationStats",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint32",
+              "name": "normal",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "low",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "high",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint64",
+              "name": "revealedAt",
+              "type": "uint64"
+            }
+          ],
+          "internalType": "struct FHEHealthChecker.PopulationStats",
+          "name": "",
+          "type": "tuple"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getProfile",
+      "outputs": [
+        {
+          "internalType": "euint8",
+          "name": "ageBand",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint8",
+          "name": "sex",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint8",
+          "name": "ageBand",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint8",
+          "name": "sex",
+          "type": "uint8"
+        }
+      ],
+      "name": "getProfileRange",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint32",
+              "name": "min",
+              "type": "uint32"
+            },
+            {
+              "internalType": "uint32",
+              "name": "max",
+              "type": "uint32"
+            },
+            {
+              "internalType": "bool",
+              "name": "configured",
+              "type": "bool"
+            }
+          ],
+          "internalType": "struct HealthProfiles.ProfileRange",
+          "name": "",
+          "type": "tuple"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getStatusLabels",
+      "outputs": [
+        {
+          "internalType": "string[]",
+          "name": "labels",
+          "type": "string[]"
+        }
+      ],
+      "stateMutability": "pure",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "getTrend",
+      "outputs": [
+        {
+          "internalType": "euint8",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bytes32",
+          "name": "version",
+          "type": "bytes32"
+        }
+      ],
+      "name": "giveConsent",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "delegate",
+          "type": "address"
+        },
+        {
+          "internalType": "uint8[]",
+          "name": "metricIds",
+          "type": "uint8[]"
+        },
+        {
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
+        }
+      ],
+      "name": "grantAccess",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        }
+      ],
+      "name": "hasPersonalRange",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "hasProfile",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
+        }
+      ],
+      "name": "isAttestationCurrent",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "metricCount",
+      "outputs": [
+        {
+          "internalType": "uint8",
+          "name": "",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "minStatsSubmitters",
+      "outputs": [
+        {
+          "internalType": "uint32",
+          "name": "",
+          "type": "uint32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "requestId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bytes",
+          "name": "cleartexts",
+          "type": "bytes"
+        },
+        {
+          "internalType": "bytes",
+          "name": "decryptionProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "onStatsDecrypted",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "owner",
+      "outputs": [
+        {
           "internalType": "address",
-          "name": "user",
+          "name": "",
           "type": "address"
-        },
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "profileRangeMetrics",
+      "outputs": [
         {
-          "indexed": false,
-          "internalType": "bytes32",
-          "name": "requestId",
-          "type": "bytes32"
-        },
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "protocolId",
+      "outputs": [
         {
-          "indexed": false,
-          "internalType": "uint8",
-          "name": "metric",
-          "type": "uint8"
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
         }
       ],
-      "name": "HealthCheckRequested",
-      "type": "event"
+      "stateMutability": "pure",
+      "type": "function"
     },
     {
-      "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
           "internalType": "address",
-          "name": "user",
+          "name": "account",
           "type": "address"
-        },
+        }
+      ],
+      "name": "rangeAdmins",
+      "outputs": [
         {
-          "indexed": false,
-          "internalType": "uint256",
-          "name": "requestId",
-          "type": "uint256"
-        },
+          "internalType": "bool",
+          "name": "isAdmin",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "rangesVersion",
+      "outputs": [
+        {
+          "internalType": "uint32",
+          "name": "",
+          "type": "uint32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
-          "indexed": false,
           "internalType": "uint8",
           "name": "metric",
           "type": "uint8"
-        },
+        }
+      ],
+      "name": "requestStatsDecryption",
+      "outputs": [
         {
-          "indexed": false,
-          "internalType": "uint8",
-          "name": "status",
-          "type": "uint8"
+          "internalType": "uint256",
+          "name": "requestId",
+          "type": "uint256"
         }
       ],
-      "name": "HealthCheckResult",
-      "type": "event"
+      "stateMutability": "nonpayable",
+      "type": "function"
     },
     {
-      "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
           "internalType": "address",
-          "name": "user",
+          "name": "delegate",
           "type": "address"
         },
         {
-          "indexed": false,
-          "internalType": "uint8",
-          "name": "metric",
-          "type": "uint8"
+          "internalType": "uint8[]",
+          "name": "metricIds",
+          "type": "uint8[]"
         }
       ],
-      "name": "HealthStatusUpdated",
-      "type": "event"
+      "name": "revokeAccess",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
     },
     {
       "inputs": [
         {
-          "internalType": "externalEuint32",
-          "name": "bloodGlucose",
+          "internalType": "bytes32",
+          "name": "version",
           "type": "bytes32"
-        },
-        {
-          "internalType": "bytes",
-          "name": "inputProof",
-          "type": "bytes"
         }
       ],
-      "name": "checkBloodGlucose",
+      "name": "setConsentVersion",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
@@ -106,17 +2054,22 @@ export const FHEHealthCheckerABI = {
     {
       "inputs": [
         {
-          "internalType": "externalEuint32",
-          "name": "bloodOxygen",
-          "type": "bytes32"
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
         },
         {
-          "internalType": "bytes",
-          "name": "inputProof",
-          "type": "bytes"
+          "internalType": "uint32",
+          "name": "min",
+          "type": "uint32"
+        },
+        {
+          "internalType": "uint32",
+          "name": "max",
+          "type": "uint32"
         }
       ],
-      "name": "checkBloodOxygen",
+      "name": "setDefaultRange",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
@@ -124,26 +2077,31 @@ export const FHEHealthCheckerABI = {
     {
       "inputs": [
         {
-          "internalType": "externalEuint32",
-          "name": "bloodPressure",
-          "type": "bytes32"
-        },
-        {
-          "internalType": "bytes",
-          "name": "inputProof",
-          "type": "bytes"
+          "internalType": "uint32",
+          "name": "minSubmitters",
+          "type": "uint32"
         }
       ],
-      "name": "checkBloodPressure",
+      "name": "setMinStatsSubmitters",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
     },
     {
       "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
         {
           "internalType": "externalEuint32",
-          "name": "bodyTemperature",
+          "name": "minValue",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "maxValue",
           "type": "bytes32"
         },
         {
@@ -152,7 +2110,7 @@ export const FHEHealthCheckerABI = {
           "type": "bytes"
         }
       ],
-      "name": "checkBodyTemperature",
+      "name": "setPersonalRange",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
@@ -160,8 +2118,13 @@ export const FHEHealthCheckerABI = {
     {
       "inputs": [
         {
-          "internalType": "externalEuint32",
-          "name": "heartRate",
+          "internalType": "externalEuint8",
+          "name": "ageBand",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "externalEuint8",
+          "name": "sex",
           "type": "bytes32"
         },
         {
@@ -170,15 +2133,28 @@ export const FHEHealthCheckerABI = {
           "type": "bytes"
         }
       ],
-      "name": "checkHeartRate",
+      "name": "setProfile",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
     },
     {
-      "inputs": [],
-      "name": "getBloodPressureRanges",
-      "outputs": [
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint8",
+          "name": "ageBand",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint8",
+          "name": "sex",
+          "type": "uint8"
+        },
         {
           "internalType": "uint32",
           "name": "min",
@@ -190,40 +2166,68 @@ export const FHEHealthCheckerABI = {
           "type": "uint32"
         }
       ],
-      "stateMutability": "pure",
+      "name": "setProfileRange",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
-      "inputs": [],
-      "name": "getHealthMetricRanges",
-      "outputs": [
+      "inputs": [
         {
-          "internalType": "uint8[]",
-          "name": "metricTypes",
-          "type": "uint8[]"
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
         },
         {
-          "internalType": "uint32[]",
-          "name": "mins",
-          "type": "uint32[]"
+          "internalType": "bool",
+          "name": "isAdmin",
+          "type": "bool"
+        }
+      ],
+      "name": "setRangeAdmin",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint8",
+          "name": "metric",
+          "type": "uint8"
         },
         {
-          "internalType": "uint32[]",
-          "name": "maxs",
-          "type": "uint32[]"
+          "internalType": "uint32",
+          "name": "criticalMin",
+          "type": "uint32"
         },
         {
-          "internalType": "string[]",
-          "name": "units",
-          "type": "string[]"
+          "internalType": "uint32",
+          "name": "criticalMax",
+          "type": "uint32"
+        }
+      ],
+      "name": "setSeverityBands",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "verifier",
+          "type": "address"
         },
         {
-          "internalType": "string[]",
-          "name": "descriptions",
-          "type": "string[]"
+          "internalType": "bool",
+          "name": "approved",
+          "type": "bool"
         }
       ],
-      "stateMutability": "pure",
+      "name": "setVerifierApproval",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     },
     {
@@ -234,28 +2238,35 @@ export const FHEHealthCheckerABI = {
           "type": "uint8"
         }
       ],
-      "name": "getHealthStatus",
+      "name": "statsSubmitterCounts",
       "outputs": [
         {
-          "internalType": "euint8",
+          "internalType": "uint32",
           "name": "",
-          "type": "bytes32"
+          "type": "uint32"
         }
       ],
       "stateMutability": "view",
       "type": "function"
     },
     {
-      "inputs": [],
-      "name": "protocolId",
-      "outputs": [
+      "inputs": [
         {
-          "internalType": "uint256",
-          "name": "",
-          "type": "uint256"
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
         }
       ],
-      "stateMutability": "pure",
+      "name": "transferOwnership",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "withdrawConsent",
+      "outputs": [],
+      "stateMutability": "nonpayable",
       "type": "function"
     }
   ]
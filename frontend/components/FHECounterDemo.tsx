@@ -5,6 +5,7 @@ import { useInMemoryStorage } from "../hooks/useInMemoryStorage";
 import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
 import { useFHECounter } from "@/hooks/useFHECounter";
 import { errorNotDeployed } from "./ErrorNotDeployed";
+import { TxStatus } from "./TxStatus";
 
 /*
  * Main FHECounter React component with 3 buttons
@@ -206,6 +207,7 @@ export const FHECounterDemo = () => {
       </div>
       <div className="col-span-full mx-20 p-4 rounded-lg bg-white border-2 border-black">
         {printProperty("Message", fheCounter.message)}
+        <TxStatus tx={fheCounter.incOrDecTx} />
       </div>
     </div>
   );
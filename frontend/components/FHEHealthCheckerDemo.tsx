@@ -1,31 +1,61 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { ethers } from "ethers";
+import { useState, useEffect, useMemo } from "react";
 import { useFhevm } from "../fhevm/useFhevm";
 import { useInMemoryStorage } from "../hooks/useInMemoryStorage";
+import { GenericStringLocalStorage, GenericStringStorage } from "../fhevm/GenericStringStorage";
 import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
-import { useFHEHealthChecker, HealthStatus } from "@/hooks/useFHEHealthChecker";
+import {
+  useFHEHealthChecker,
+  HealthStatus,
+  HealthHistoryEntry,
+  HealthTrend,
+  HEALTH_HISTORY_PAGE_SIZE,
+  AGE_BANDS,
+  SEXES,
+  AgeBand,
+  Sex,
+  MetricInputUnit,
+  fromScaledValue,
+  CONSENT_TERMS,
+} from "@/hooks/useFHEHealthChecker";
+import { HEALTH_ERROR_COPY, HealthCheckerError } from "@/hooks/healthCheckerErrors";
 import { errorNotDeployed } from "./ErrorNotDeployed";
+import { TxStatus } from "./TxStatus";
 
-// Health metric definitions
+// Presentation of the built-in health metrics. The metric list itself is
+// discovered from the contract's metric registry; registered metrics without an
+// entry here are displayed with generic defaults.
 export interface HealthMetric {
   id: number;
   name: string;
   description: string;
   unit: string;
+  // Readings are encrypted multiplied by `scale`; min, max and the critical
+  // bands are in these scaled integers
+  scale: number;
+  // Accepted input units, the metric's own unit first
+  inputUnits: MetricInputUnit[];
   min: number;
   max: number;
+  // Critical bands from the registry, unknown until the registry is loaded
+  criticalMin?: number;
+  criticalMax?: number;
   placeholder: string;
   icon: string;
 }
 
+// Upper critical bound of metrics without a critical high band (uint32 max)
+const NO_CRITICAL_MAX = 4294967295;
+
 export const HEALTH_METRICS: HealthMetric[] = [
   {
     id: 0,
     name: "Blood Pressure",
     description: "Systolic blood pressure",
     unit: "mmHg",
+    scale: 1,
+    inputUnits: [],
     min: 90,
     max: 140,
     placeholder: "120",
@@ -36,6 +66,8 @@ export const HEALTH_METRICS: HealthMetric[] = [
     name: "Heart Rate",
     description: "Heart rate in beats per minute",
     unit: "bpm",
+    scale: 1,
+    inputUnits: [],
     min: 60,
     max: 100,
     placeholder: "75",
@@ -46,6 +78,8 @@ export const HEALTH_METRICS: HealthMetric[] = [
     name: "Blood Glucose",
     description: "Fasting blood glucose level",
     unit: "mg/dL",
+    scale: 1,
+    inputUnits: [],
     min: 70,
     max: 100,
     placeholder: "85",
@@ -54,11 +88,13 @@ export const HEALTH_METRICS: HealthMetric[] = [
   {
     id: 3,
     name: "Body Temperature",
-    description: "Body temperature (multiplied by 10)",
-    unit: "°C × 10",
+    description: "Body temperature",
+    unit: "°C",
+    scale: 10,
+    inputUnits: [],
     min: 360,
     max: 375,
-    placeholder: "365",
+    placeholder: "36.5",
     icon: "🌡️"
   },
   {
@@ -66,6 +102,8 @@ export const HEALTH_METRICS: HealthMetric[] = [
     name: "Blood Oxygen",
     description: "Blood oxygen saturation",
     unit: "%",
+    scale: 1,
+    inputUnits: [],
     min: 95,
     max: 100,
     placeholder: "98",
@@ -81,6 +119,8 @@ export const HEALTH_METRICS: HealthMetric[] = [
  */
 export const FHEHealthCheckerDemo = () => {
   const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  // Persisted so that events missed while the page was closed are backfilled on the next visit
+  const [lastSeenBlockStorage] = useState<GenericStringStorage>(() => new GenericStringLocalStorage());
   const {
     provider,
     chainId,
@@ -115,6 +155,7 @@ export const FHEHealthCheckerDemo = () => {
   const fheHealthChecker = useFHEHealthChecker({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    lastSeenBlockStorage,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -128,52 +169,56 @@ export const FHEHealthCheckerDemo = () => {
   //////////////////////////////////////////////////////////////////////////////
 
   const [healthInputs, setHealthInputs] = useState<Record<number, string>>({});
-  const [healthStatuses, setHealthStatuses] = useState<Record<number, HealthStatus>>({});
-  const [selectedMetric, setSelectedMetric] = useState<number | null>(null);
-  const [checkedMetrics, setCheckedMetrics] = useState<Record<number, boolean>>({});
+  const [unitInputs, setUnitInputs] = useState<Record<number, string>>({});
+  const [diastolicInput, setDiastolicInput] = useState<string>("");
+  const [profileAgeBand, setProfileAgeBand] = useState<AgeBand>("adult");
+  const [profileSex, setProfileSex] = useState<Sex>("female");
+  const [rangeInputs, setRangeInputs] = useState<Record<number, { min: string; max: string }>>({});
+  const [historyMetric, setHistoryMetric] = useState<number>(0);
+  const [delegateInput, setDelegateInput] = useState<string>("");
+  const [shareMetrics, setShareMetrics] = useState<Record<number, boolean>>({});
+  const [shareDays, setShareDays] = useState<number>(7);
+  const [deleteMetrics, setDeleteMetrics] = useState<Record<number, boolean>>({});
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState<boolean>(false);
+  const [deleteAccountData, setDeleteAccountData] = useState<boolean>(false);
+  const [isConsentDismissed, setIsConsentDismissed] = useState<boolean>(false);
+  const [mode, setMode] = useState<"patient" | "clinician">("patient");
+  const [patientInput, setPatientInput] = useState<string>("");
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
 
-  // Update health status when hook's healthStatus changes
+  // Tick once a minute to refresh the remaining time of delegations
   useEffect(() => {
-    if (selectedMetric !== null && fheHealthChecker.healthStatus !== "unknown") {
-      setHealthStatuses(prev => ({ ...prev, [selectedMetric]: fheHealthChecker.healthStatus }));
-    }
-  }, [fheHealthChecker.healthStatus, selectedMetric]);
+    const id = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60_000);
+    return () => clearInterval(id);
+  }, []);
 
   //////////////////////////////////////////////////////////////////////////////
   // Effects
   //////////////////////////////////////////////////////////////////////////////
 
-  // Load health ranges on mount
-  useEffect(() => {
-    const loadRanges = async () => {
-      if (!fheHealthChecker.contractAddress || !ethersReadonlyProvider) return;
-
-      try {
-        const contract = new ethers.Contract(
-          fheHealthChecker.contractAddress,
-          await import("@/abi/FHEHealthCheckerABI").then(m => m.FHEHealthCheckerABI.abi),
-          ethersReadonlyProvider
-        );
-
-        const [metricTypes, mins, maxs, units, descriptions] = await contract.getHealthMetricRanges();
-        console.log("✅ Successfully loaded health ranges from contract:", {
-          metricTypes: metricTypes.map((t: bigint) => Number(t)),
-          mins: mins.map((m: bigint) => Number(m)),
-          maxs: maxs.map((m: bigint) => Number(m)),
-          units,
-          descriptions
-        });
-
-        // Update HEALTH_METRICS with actual ranges from contract
-        // Note: In a real application, you might want to update the metrics dynamically
-        // For now, we'll just verify the ranges match our expectations
-      } catch (error) {
-        console.error("Failed to load health ranges:", error);
-      }
-    };
-
-    loadRanges();
-  }, [fheHealthChecker.contractAddress, ethersReadonlyProvider]);
+  // Registered metrics, merged with the built-in presentation (icon, placeholder)
+  const metrics = useMemo<HealthMetric[]>(() => {
+    if (!fheHealthChecker.metrics) {
+      return HEALTH_METRICS;
+    }
+    return fheHealthChecker.metrics.map((definition) => {
+      const builtin = HEALTH_METRICS.find((m) => m.id === definition.id);
+      return {
+        id: definition.id,
+        name: definition.name,
+        description: builtin?.description ?? definition.description,
+        unit: definition.unit,
+        scale: definition.scale,
+        inputUnits: definition.inputUnits,
+        min: definition.min,
+        max: definition.max,
+        criticalMin: definition.criticalMin,
+        criticalMax: definition.criticalMax,
+        placeholder: builtin?.placeholder ?? String(fromScaledValue(definition, definition.min)),
+        icon: builtin?.icon ?? "📈",
+      };
+    });
+  }, [fheHealthChecker.metrics]);
 
   //////////////////////////////////////////////////////////////////////////////
   // Handlers
@@ -183,95 +228,101 @@ export const FHEHealthCheckerDemo = () => {
     setHealthInputs(prev => ({ ...prev, [metricId]: value }));
   };
 
-  const handleCheckHealth = async (metric: HealthMetric) => {
-    const value = parseInt(healthInputs[metric.id] || "0");
-    if (!value || value <= 0) {
-      setHealthStatuses(prev => ({ ...prev, [metric.id]: "unknown" }));
+  const handleRangeInputChange = (metricId: number, bound: "min" | "max", value: string) => {
+    setRangeInputs(prev => ({
+      ...prev,
+      [metricId]: { ...(prev[metricId] ?? { min: "", max: "" }), [bound]: value },
+    }));
+  };
+
+  // Personal range bounds are entered in the metric's own unit
+  const handleSetPersonalRange = (metric: HealthMetric) => {
+    const min = parseFloat(rangeInputs[metric.id]?.min || "");
+    const max = parseFloat(rangeInputs[metric.id]?.max || "");
+    if (Number.isNaN(min) || Number.isNaN(max)) {
       return;
     }
+    fheHealthChecker.setPersonalRange(metric.id, min, max);
+  };
 
-    setSelectedMetric(metric.id);
-
-    try {
-      await fheHealthChecker.checkHealthMetric(metric.id, value);
-      // Mark this metric as checked and store the encrypted status
-      setCheckedMetrics(prev => ({ ...prev, [metric.id]: true }));
-      // Store the encrypted status for this metric
-      // Note: The hook currently stores it globally, but we'll work with that for now
-      // Status will be updated by the hook when check completes
-    } catch (error) {
-      console.error("Health check failed:", error);
+  // Display a scaled integer in the metric's own unit
+  const formatValue = (metric: HealthMetric, value: number) => `${fromScaledValue(metric, value)}`;
+
+  const handleCheckHealth = (metric: HealthMetric) => {
+    const value = parseFloat(healthInputs[metric.id] || "0");
+    if (!value || value <= 0) {
+      return;
     }
+    fheHealthChecker.checkHealthMetric(metric.id, value, unitInputs[metric.id]);
   };
 
-  const handleDecryptStatus = async (metricId: number) => {
-    if (!fhevmInstance || !fheHealthChecker.contractAddress || !ethersSigner) {
-      console.error("FHEVM instance, contract or signer not ready");
+  // Systolic comes from the blood pressure card input, diastolic from its extra input
+  const handleCheckBloodPressureFull = () => {
+    const systolic = parseInt(healthInputs[0] || "0");
+    const diastolic = parseInt(diastolicInput || "0");
+    if (!systolic || !diastolic) {
       return;
     }
 
-    try {
-      // Import ABI dynamically
-      const { FHEHealthCheckerABI } = await import("@/abi/FHEHealthCheckerABI");
+    fheHealthChecker.checkBloodPressureFull(systolic, diastolic);
+  };
 
-      // Get the encrypted status for this specific metric from the contract
-      const readonlyContract = new ethers.Contract(
-        fheHealthChecker.contractAddress,
-        FHEHealthCheckerABI.abi,
-        ethersReadonlyProvider
-      );
+  const handleCheckAll = () => {
+    const values: Record<number, number> = {};
+    for (const metric of metrics) {
+      const value = parseFloat(healthInputs[metric.id] || "0");
+      if (value > 0) {
+        values[metric.id] = value;
+      }
+    }
 
-      const encryptedResult = await readonlyContract.getHealthStatus(metricId);
+    if (Object.keys(values).length === 0) {
+      return;
+    }
+    fheHealthChecker.checkAllMetrics(values, unitInputs);
+  };
 
-      // Use FHEVM decryption signature
-      const { FhevmDecryptionSignature } = await import("@/fhevm/FhevmDecryptionSignature");
+  // A batch check is running when more than one metric is being checked
+  const isCheckingBatch = metrics.filter((m) => fheHealthChecker.getMetricState(m.id).isChecking).length > 1;
 
-      const sig = await FhevmDecryptionSignature.loadOrSign(
-        fhevmInstance,
-        [fheHealthChecker.contractAddress as `0x${string}`],
-        ethersSigner,
-        fhevmDecryptionSignatureStorage
-      );
+  const handleToggleShareMetric = (metricId: number) => {
+    setShareMetrics(prev => ({ ...prev, [metricId]: !prev[metricId] }));
+  };
 
-      if (!sig) {
-        console.error("Unable to build FHEVM decryption signature");
-        return;
-      }
+  const selectedShareMetrics = metrics.filter((m) => shareMetrics[m.id]).map((m) => m.id);
 
-      // Decrypt using FHEVM instance with proper signature
-      const res = await fhevmInstance.userDecrypt(
-        [{ handle: encryptedResult, contractAddress: fheHealthChecker.contractAddress }],
-        sig.privateKey,
-        sig.publicKey,
-        sig.signature,
-        sig.contractAddresses,
-        sig.userAddress,
-        sig.startTimestamp,
-        sig.durationDays
-      );
-
-      // Extract the decrypted value
-      const clearStatus = res[encryptedResult];
-
-      // Convert to number and map to status
-      const statusNum = Number(clearStatus);
-      let status: HealthStatus;
-      if (statusNum === 0) {
-        status = "normal";
-      } else if (statusNum === 1) {
-        status = "low";
-      } else {
-        status = "high";
-      }
+  const handleToggleDeleteMetric = (metricId: number) => {
+    setDeleteMetrics(prev => ({ ...prev, [metricId]: !prev[metricId] }));
+    setIsConfirmingDelete(false);
+  };
 
-      // Update the status for this metric
-      setHealthStatuses(prev => ({ ...prev, [metricId]: status }));
+  const selectedDeleteMetrics = metrics.filter((m) => deleteMetrics[m.id]).map((m) => m.id);
+
+  // Second step of the deletion flow, after the user confirmed
+  const handleDeleteMyData = () => {
+    fheHealthChecker.deleteMyData(selectedDeleteMetrics, deleteAccountData);
+    setDeleteMetrics({});
+    setDeleteAccountData(false);
+    setIsConfirmingDelete(false);
+  };
 
-    } catch (error) {
-      console.error("Health status decryption failed:", error);
+  const formatRemainingTime = (expiresAt: number) => {
+    const remaining = expiresAt - now;
+    if (remaining <= 0) {
+      return "expired";
     }
+    const days = Math.floor(remaining / 86400);
+    const hours = Math.floor((remaining % 86400) / 3600);
+    const minutes = Math.floor((remaining % 3600) / 60);
+    if (days > 0) {
+      return `expires in ${days}d ${hours}h`;
+    }
+    return hours > 0 ? `expires in ${hours}h ${minutes}m` : `expires in ${minutes}m`;
   };
 
+  const getMetricNames = (metricIds: number[]) =>
+    metricIds.map((id) => metrics.find((m) => m.id === id)?.name ?? `Metric ${id}`).join(", ");
+
   //////////////////////////////////////////////////////////////////////////////
   // UI Stuff
   //////////////////////////////////////////////////////////////////////////////
@@ -296,6 +347,20 @@ export const FHEHealthCheckerDemo = () => {
         return "bg-blue-100 text-blue-800 border-blue-200";
       case "high":
         return "bg-red-100 text-red-800 border-red-200";
+      case "criticalLow":
+        return "bg-blue-600 text-white border-blue-700";
+      case "criticalHigh":
+        return "bg-red-600 text-white border-red-700";
+      case "invalid":
+        return "bg-gray-200 text-gray-800 border-gray-400";
+      case "elevated":
+        return "bg-yellow-100 text-yellow-800 border-yellow-200";
+      case "stage1":
+        return "bg-orange-100 text-orange-800 border-orange-200";
+      case "stage2":
+        return "bg-red-100 text-red-800 border-red-200";
+      case "hypotension":
+        return "bg-blue-100 text-blue-800 border-blue-200";
       default:
         return "bg-gray-100 text-gray-600 border-gray-200";
     }
@@ -309,6 +374,20 @@ export const FHEHealthCheckerDemo = () => {
         return "🔵";
       case "high":
         return "🔴";
+      case "criticalLow":
+        return "🆘";
+      case "criticalHigh":
+        return "🚨";
+      case "invalid":
+        return "⚠️";
+      case "elevated":
+        return "🟡";
+      case "stage1":
+        return "🟠";
+      case "stage2":
+        return "🔴";
+      case "hypotension":
+        return "🔵";
       default:
         return "❓";
     }
@@ -322,11 +401,111 @@ export const FHEHealthCheckerDemo = () => {
         return "Low";
       case "high":
         return "High";
+      case "criticalLow":
+        return "Critical low";
+      case "criticalHigh":
+        return "Critical high";
+      case "invalid":
+        return "Invalid reading";
+      case "elevated":
+        return "Elevated";
+      case "stage1":
+        return "Stage 1 hypertension";
+      case "stage2":
+        return "Stage 2 hypertension";
+      case "hypotension":
+        return "Hypotension";
       default:
         return "Unknown";
     }
   };
 
+  const getTrendText = (trend: HealthTrend) => {
+    switch (trend) {
+      case "improving":
+        return "📈 Improving";
+      case "worsening":
+        return "📉 Worsening";
+      case "stable":
+        return "➡️ Stable";
+      default:
+        return "Unknown";
+    }
+  };
+
+  const getStatusChartColor = (status: HealthStatus) => {
+    switch (status) {
+      case "normal":
+        return "#16a34a";
+      case "low":
+        return "#2563eb";
+      case "high":
+        return "#dc2626";
+      case "criticalLow":
+        return "#1e3a8a";
+      case "criticalHigh":
+        return "#7f1d1d";
+      case "invalid":
+        return "#374151";
+      case "elevated":
+        return "#ca8a04";
+      case "stage1":
+        return "#ea580c";
+      case "stage2":
+        return "#dc2626";
+      case "hypotension":
+        return "#2563eb";
+      default:
+        return "#6b7280";
+    }
+  };
+
+  // Line chart of decrypted readings, with the normal range shaded and each
+  // point coloured by its status. Invalid readings do not widen the scale and
+  // are pinned to the chart's edge.
+  const renderHistoryChart = (entries: HealthHistoryEntry[], metric: HealthMetric) => {
+    const width = 600;
+    const height = 200;
+    const padding = 24;
+
+    const values = entries.filter((e) => e.status !== "invalid").map((e) => e.value);
+    const lo = Math.min(...values, metric.min);
+    const hi = Math.max(...values, metric.max);
+    const span = hi - lo || 1;
+
+    const x = (i: number) =>
+      entries.length === 1 ? width / 2 : padding + (i * (width - 2 * padding)) / (entries.length - 1);
+    const y = (v: number) =>
+      Math.min(height - padding, Math.max(padding, height - padding - ((v - lo) * (height - 2 * padding)) / span));
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48">
+        <rect
+          x={padding}
+          y={y(metric.max)}
+          width={width - 2 * padding}
+          height={y(metric.min) - y(metric.max)}
+          fill="#dcfce7"
+        />
+        <polyline
+          points={entries.map((e, i) => `${x(i)},${y(e.value)}`).join(" ")}
+          fill="none"
+          stroke="#9ca3af"
+          strokeWidth={2}
+        />
+        {entries.map((e, i) => (
+          <circle key={i} cx={x(i)} cy={y(e.value)} r={5} fill={getStatusChartColor(e.status)}>
+            <title>
+              {`${new Date(e.timestamp * 1000).toLocaleString()}: ${formatValue(metric, e.value)} ${metric.unit} (${getStatusText(e.status)})`}
+              {e.rangeVersion === 0 ? ", personal range" : `, default ranges version ${e.rangeVersion}`}
+              {e.bloodPressureCategory && `, category: ${getStatusText(e.bloodPressureCategory)}`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    );
+  };
+
   if (!isConnected) {
     return (
       <div className="mx-auto max-w-md text-center">
@@ -388,105 +567,794 @@ export const FHEHealthCheckerDemo = () => {
           <p className="text-xs text-gray-500 mt-1">
             {fheHealthChecker.contractAddress?.slice(0, 10)}...{fheHealthChecker.contractAddress?.slice(-8)}
           </p>
+          {fheHealthChecker.rangesVersion !== undefined && (
+            <p className="text-xs text-gray-500">Default ranges: version {fheHealthChecker.rangesVersion}</p>
+          )}
         </div>
       </div>
 
-      {/* Health Metrics Input */}
-      <div className="space-y-6">
-        <h2 className="text-2xl font-bold text-gray-800 text-center">Health Check Dashboard</h2>
+      {/* Mode */}
+      <div className="flex justify-center space-x-2">
+        <button
+          className={`${buttonClass} text-sm py-2 ${mode === "patient" ? "" : "opacity-60"}`}
+          onClick={() => setMode("patient")}
+        >
+          🧑 My health
+        </button>
+        <button
+          className={`${buttonClass} text-sm py-2 ${mode === "clinician" ? "" : "opacity-60"}`}
+          onClick={() => setMode("clinician")}
+        >
+          🩺 Clinician
+        </button>
+      </div>
 
-        {/* Status Message */}
-        {fheHealthChecker.message && (
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
-            <p className="text-blue-800 font-medium">{fheHealthChecker.message}</p>
-          </div>
-        )}
+      {mode === "patient" && (
+        <>
+          {/* Health Metrics Input */}
+          <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-gray-800 text-center">Health Check Dashboard</h2>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {HEALTH_METRICS.map((metric) => {
-            const currentStatus = healthStatuses[metric.id] || "unknown";
-            const inputValue = healthInputs[metric.id] || "";
+            {/* Status Message */}
+            {fheHealthChecker.message && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
+                <p className="text-blue-800 font-medium">{fheHealthChecker.message}</p>
+              </div>
+            )}
+            {fheHealthChecker.error && errorBanner(fheHealthChecker.error, fheHealthChecker.clearError)}
 
-            return (
-              <div key={metric.id} className={`${cardClass} relative`}>
-                <div className="flex items-center space-x-3 mb-4">
-                  <span className="text-2xl">{metric.icon}</span>
-                  <div>
-                    <h3 className="font-semibold text-gray-800">{metric.name}</h3>
-                    <p className="text-sm text-gray-600">{metric.description}</p>
+            {/* Consent, required by the contract before any check or sharing */}
+            {fheHealthChecker.hasConsent === false && !isConsentDismissed && (
+              <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+                <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 space-y-4">
+                  <h3 className="text-xl font-bold text-gray-800">📜 Consent required</h3>
+                  {fheHealthChecker.consent?.timestamp ? (
+                    <p className="text-sm text-amber-700">
+                      The consent terms changed since you last agreed. Please review and sign them again.
+                    </p>
+                  ) : null}
+                  {fheHealthChecker.consentTermsMatch === false ? (
+                    <p className="text-sm text-amber-700">
+                      The contract requires terms {fheHealthChecker.consentVersion?.slice(0, 10)}..., which this
+                      app cannot display. Ask the operator for the current terms before signing.
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-700 rounded-md border border-gray-200 bg-gray-50 p-3">
+                      {CONSENT_TERMS}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Your consent is recorded on-chain with the hash of these terms and a timestamp. Health checks,
+                    personal ranges, profiles and sharing are disabled until you sign.
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      className={`${buttonClass} flex-1 text-sm py-2`}
+                      disabled={fheHealthChecker.isUpdatingConsent}
+                      onClick={fheHealthChecker.giveConsent}
+                    >
+                      {fheHealthChecker.isUpdatingConsent ? "✍️ Signing..." : "✍️ I agree and sign"}
+                    </button>
+                    <button className={`${buttonClass} text-sm py-2 opacity-60`} onClick={() => setIsConsentDismissed(true)}>
+                      Not now
+                    </button>
                   </div>
+                  <TxStatus tx={fheHealthChecker.consentTx} />
                 </div>
+              </div>
+            )}
+            {fheHealthChecker.hasConsent === false && isConsentDismissed && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-center space-y-2">
+                <p className="text-amber-800 text-sm">
+                  Health checks, personal ranges, profiles and sharing are disabled until you consent to the storage
+                  of your encrypted data.
+                </p>
+                <button className={`${buttonClass} text-sm py-2`} onClick={() => setIsConsentDismissed(false)}>
+                  📜 Review consent
+                </button>
+              </div>
+            )}
 
-                {/* Status Badge */}
-                {currentStatus !== "unknown" && (
-                  <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(currentStatus)} mb-3`}>
-                    <span className="mr-1">{getStatusIcon(currentStatus)}</span>
-                    {getStatusText(currentStatus)}
-                  </div>
+            {/* Profile setup, selects age- and sex-specific ranges on-chain */}
+            {fheHealthChecker.hasProfile !== undefined && (
+              <div className={`${cardClass} max-w-2xl mx-auto space-y-3`}>
+                <h3 className="font-semibold text-gray-800">
+                  {fheHealthChecker.hasProfile ? "🧬 Update your profile" : "🧬 Set up your profile"}
+                </h3>
+                <p className="text-sm text-gray-600">
+                  Normal heart rate and blood pressure ranges depend on age and sex. Your profile is encrypted
+                  before it leaves the browser; saving it again replaces the previous one.
+                </p>
+                <div className="flex space-x-2">
+                  <select
+                    className={`${inputClass} flex-1`}
+                    value={profileAgeBand}
+                    onChange={(e) => setProfileAgeBand(e.target.value as AgeBand)}
+                  >
+                    {AGE_BANDS.map((band) => (
+                      <option key={band} value={band}>
+                        {band === "child" ? "Child (<18)" : band === "adult" ? "Adult (18-64)" : "Senior (65+)"}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className={`${inputClass} flex-1`}
+                    value={profileSex}
+                    onChange={(e) => setProfileSex(e.target.value as Sex)}
+                  >
+                    {SEXES.map((sex) => (
+                      <option key={sex} value={sex}>
+                        {sex === "female" ? "Female" : "Male"}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className={`${buttonClass} flex-1 text-sm py-2`}
+                    disabled={!fhevmInstance || !fheHealthChecker.hasConsent || fheHealthChecker.isSettingProfile}
+                    onClick={() => fheHealthChecker.setProfile(profileAgeBand, profileSex)}
+                  >
+                    {fheHealthChecker.isSettingProfile ? "🔐 Saving..." : "🔐 Save encrypted profile"}
+                  </button>
+                </div>
+                <TxStatus tx={fheHealthChecker.profileTx} />
+                {fheHealthChecker.hasProfile && (
+                  <p className="text-sm text-gray-600">
+                    🧬 Encrypted profile set: heart rate and blood pressure use your age- and sex-specific ranges
+                  </p>
                 )}
+              </div>
+            )}
 
-                {/* Input */}
-                <div className="space-y-3">
-                  <div className="relative">
-                    <input
-                      type="number"
-                      className={inputClass}
-                      placeholder={metric.placeholder}
-                      value={inputValue}
-                      onChange={(e) => handleInputChange(metric.id, e.target.value)}
-                      min={metric.min}
-                      max={metric.max}
-                    />
-                    <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">
-                      {metric.unit}
-                    </span>
+            {/* Batch Check */}
+            <div className="text-center">
+              <button
+                className={`${buttonClass} text-sm`}
+                disabled={
+                  !fhevmInstance ||
+                  !fheHealthChecker.hasConsent ||
+                  fheHealthChecker.isChecking ||
+                  !metrics.some((metric) => parseFloat(healthInputs[metric.id] || "0") > 0)
+                }
+                onClick={handleCheckAll}
+              >
+                {isCheckingBatch ? "🔐 Checking all..." : "🔐 Check all in one transaction"}
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {metrics.map((metric) => {
+                const metricState = fheHealthChecker.getMetricState(metric.id);
+                const currentStatus = metricState.status;
+                const inputValue = healthInputs[metric.id] || "";
+                const personalRange = fheHealthChecker.personalRanges[metric.id];
+                const rangeInput = rangeInputs[metric.id] || { min: "", max: "" };
+                const trend = fheHealthChecker.trends[metric.id];
+
+                return (
+                  <div key={metric.id} className={`${cardClass} relative`}>
+                    <div className="flex items-center space-x-3 mb-4">
+                      <span className="text-2xl">{metric.icon}</span>
+                      <div>
+                        <h3 className="font-semibold text-gray-800">{metric.name}</h3>
+                        <p className="text-sm text-gray-600">{metric.description}</p>
+                      </div>
+                    </div>
+
+                    {/* Status Badge */}
+                    {currentStatus !== "unknown" && (
+                      <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(currentStatus)} mb-3`}>
+                        <span className="mr-1">{getStatusIcon(currentStatus)}</span>
+                        {getStatusText(currentStatus)}
+                      </div>
+                    )}
+                    {trend && trend !== "unknown" && (
+                      <div className="inline-flex items-center ml-2 px-2 py-1 rounded-full text-xs font-medium border bg-gray-50 text-gray-700 border-gray-200 mb-3">
+                        {getTrendText(trend)}
+                      </div>
+                    )}
+
+                    {/* Input */}
+                    <div className="space-y-3">
+                      <div className="relative">
+                        <input
+                          type="number"
+                          step="any"
+                          className={inputClass}
+                          placeholder={metric.placeholder}
+                          value={inputValue}
+                          onChange={(e) => handleInputChange(metric.id, e.target.value)}
+                        />
+                        {metric.inputUnits.length > 1 ? (
+                          <select
+                            className="absolute right-2 top-1/2 transform -translate-y-1/2 text-sm text-gray-500 bg-transparent"
+                            value={unitInputs[metric.id] ?? metric.unit}
+                            onChange={(e) => setUnitInputs(prev => ({ ...prev, [metric.id]: e.target.value }))}
+                          >
+                            {metric.inputUnits.map((u) => (
+                              <option key={u.symbol} value={u.symbol}>
+                                {u.symbol}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">
+                            {metric.unit}
+                          </span>
+                        )}
+                      </div>
+
+                      <p className="text-xs text-gray-500">
+                        {personalRange
+                          ? `Personal range: ${personalRange.min} - ${personalRange.max} ${metric.unit}`
+                          : `Normal range: ${formatValue(metric, metric.min)} - ${formatValue(metric, metric.max)} ${metric.unit}`}
+                      </p>
+                      {(!!metric.criticalMin || (metric.criticalMax !== undefined && metric.criticalMax < NO_CRITICAL_MAX)) && (
+                        <p className="text-xs text-gray-500">
+                          Critical:{" "}
+                          {[
+                            metric.criticalMin ? `below ${formatValue(metric, metric.criticalMin)}` : null,
+                            metric.criticalMax !== undefined && metric.criticalMax < NO_CRITICAL_MAX
+                              ? `above ${formatValue(metric, metric.criticalMax)}`
+                              : null,
+                          ]
+                            .filter(Boolean)
+                            .join(", ")}{" "}
+                          {metric.unit}
+                        </p>
+                      )}
+
+                      {/* Action Buttons */}
+                      <div className="flex space-x-2">
+                        <button
+                          className={`${buttonClass} flex-1 text-sm py-2`}
+                          disabled={
+                            !fhevmInstance || !fheHealthChecker.hasConsent || !inputValue || fheHealthChecker.isChecking
+                          }
+                          onClick={() => handleCheckHealth(metric)}
+                        >
+                          {metricState.isChecking ? "🔐 Checking..." : "🔐 Check"}
+                        </button>
+
+                        {metricState.handle && currentStatus === "unknown" && (
+                          <button
+                            className={`${buttonClass} text-sm py-2 px-3 bg-green-600 hover:bg-green-700`}
+                            disabled={!fhevmInstance || fheHealthChecker.isDecrypting}
+                            onClick={() => fheHealthChecker.decryptHealthStatus(metric.id)}
+                          >
+                            {metricState.isDecrypting ? "🔓 Decrypting..." : "🔓 Decrypt"}
+                          </button>
+                        )}
+
+                        {metricState.handle && (
+                          <button
+                            className={`${buttonClass} text-sm py-2 px-3`}
+                            disabled={fheHealthChecker.isDecrypting}
+                            onClick={() => fheHealthChecker.decryptTrend(metric.id)}
+                            title="Decrypt the trend since the previous reading"
+                          >
+                            📊 Trend
+                          </button>
+                        )}
+                      </div>
+
+                      <TxStatus tx={metricState.tx} />
+                      {metricState.checkedAt !== undefined && !metricState.isChecking && (
+                        <p className="text-xs text-gray-500">
+                          Checked {new Date(metricState.checkedAt * 1000).toLocaleString()}
+                        </p>
+                      )}
+                      {metricState.error && (
+                        <p className="text-xs text-red-600 line-clamp-2" title={metricState.error.message}>
+                          {HEALTH_ERROR_COPY[metricState.error.kind].title}: {metricState.error.message}
+                        </p>
+                      )}
+
+                      {/* Combined systolic/diastolic check (blood pressure only) */}
+                      {metric.id === 0 && (
+                        <div className="space-y-2">
+                          <div className="relative">
+                            <input
+                              type="number"
+                              className={inputClass}
+                              placeholder="Diastolic (80)"
+                              value={diastolicInput}
+                              onChange={(e) => setDiastolicInput(e.target.value)}
+                            />
+                            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">
+                              mmHg
+                            </span>
+                          </div>
+                          <div className="flex space-x-2">
+                            <button
+                              className={`${buttonClass} flex-1 text-xs py-1`}
+                              disabled={
+                                !fhevmInstance ||
+                                !fheHealthChecker.hasConsent ||
+                                !inputValue ||
+                                !diastolicInput ||
+                                fheHealthChecker.isChecking
+                              }
+                              onClick={handleCheckBloodPressureFull}
+                            >
+                              🔐 Check systolic/diastolic
+                            </button>
+                            <button
+                              className={`${buttonClass} text-xs py-1 px-3`}
+                              disabled={!fhevmInstance || fheHealthChecker.isDecrypting}
+                              onClick={fheHealthChecker.decryptBloodPressureCategory}
+                            >
+                              🔓 Category
+                            </button>
+                          </div>
+                          {fheHealthChecker.bloodPressureCategory !== "unknown" && (
+                            <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(fheHealthChecker.bloodPressureCategory)}`}>
+                              <span className="mr-1">{getStatusIcon(fheHealthChecker.bloodPressureCategory)}</span>
+                              {getStatusText(fheHealthChecker.bloodPressureCategory)}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Personal Range */}
+                      <details className="text-xs text-gray-600">
+                        <summary className="cursor-pointer select-none">🎯 Personal range</summary>
+                        <div className="mt-2 space-y-2">
+                          <div className="flex space-x-2">
+                            <input
+                              type="number"
+                              className={inputClass}
+                              step="any"
+                              placeholder={`min (${formatValue(metric, metric.min)})`}
+                              value={rangeInput.min}
+                              onChange={(e) => handleRangeInputChange(metric.id, "min", e.target.value)}
+                            />
+                            <input
+                              type="number"
+                              className={inputClass}
+                              step="any"
+                              placeholder={`max (${formatValue(metric, metric.max)})`}
+                              value={rangeInput.max}
+                              onChange={(e) => handleRangeInputChange(metric.id, "max", e.target.value)}
+                            />
+                          </div>
+                          <div className="flex space-x-2">
+                            <button
+                              className={`${buttonClass} flex-1 text-xs py-1`}
+                              disabled={
+                                !fhevmInstance ||
+                                !fheHealthChecker.hasConsent ||
+                                !rangeInput.min ||
+                                !rangeInput.max ||
+                                fheHealthChecker.isUpdatingRange
+                              }
+                              onClick={() => handleSetPersonalRange(metric)}
+                            >
+                              🔐 Set
+                            </button>
+                            <button
+                              className={`${buttonClass} flex-1 text-xs py-1`}
+                              disabled={!fhevmInstance || fheHealthChecker.isDecrypting}
+                              onClick={() => fheHealthChecker.decryptPersonalRange(metric.id)}
+                            >
+                              🔓 Read
+                            </button>
+                            <button
+                              className={`${buttonClass} flex-1 text-xs py-1`}
+                              disabled={fheHealthChecker.isUpdatingRange}
+                              onClick={() => fheHealthChecker.clearPersonalRange(metric.id)}
+                            >
+                              Reset
+                            </button>
+                          </div>
+                          <TxStatus tx={fheHealthChecker.rangeTxs[metric.id]} />
+                          {personalRange === null && (
+                            <p className="text-gray-500">No personal range, default range applies</p>
+                          )}
+                        </div>
+                      </details>
+                    </div>
                   </div>
+                );
+              })}
+            </div>
+          </div>
 
-                  <p className="text-xs text-gray-500">
-                    Normal range: {metric.min} - {metric.max} {metric.unit}
-                  </p>
+          {/* Summary Dashboard */}
+          <div className={cardClass}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-800">📊 Health Summary</h3>
+              <div className="flex items-center space-x-3">
+                {fheHealthChecker.healthScore !== undefined && (
+                  <span className="text-sm text-gray-700">
+                    {fheHealthChecker.healthScore === null
+                      ? "No checks recorded yet"
+                      : `Abnormal metrics: ${fheHealthChecker.healthScore} / ${metrics.length}`}
+                  </span>
+                )}
+                <button
+                  className={`${buttonClass} text-xs py-1 px-3 bg-green-600 hover:bg-green-700`}
+                  disabled={!fhevmInstance || !fheHealthChecker.canDecryptAll || fheHealthChecker.isDecrypting}
+                  onClick={fheHealthChecker.decryptAllStatuses}
+                  title="Decrypt every stored status with one signature"
+                >
+                  🔓 Decrypt all
+                </button>
+                <button
+                  className={`${buttonClass} text-xs py-1 px-3`}
+                  disabled={!fhevmInstance || fheHealthChecker.isDecrypting}
+                  onClick={fheHealthChecker.decryptHealthScore}
+                >
+                  🔓 Decrypt score
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {metrics.map((metric) => {
+                const metricState = fheHealthChecker.getMetricState(metric.id);
+                const status = metricState.status;
+                return (
+                  <div key={metric.id} className="text-center">
+                    <div className="text-2xl mb-1">{metric.icon}</div>
+                    <div className="text-xs text-gray-600 mb-1">{metric.name}</div>
+                    <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(status)}`}>
+                      <span className="mr-1">{getStatusIcon(status)}</span>
+                      {status === "unknown"
+                        ? metricState.handle
+                          ? "Encrypted"
+                          : "Not checked"
+                        : getStatusText(status)}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
 
-                  {/* Action Buttons */}
-                  <div className="flex space-x-2">
-                    <button
-                      className={`${buttonClass} flex-1 text-sm py-2`}
-                      disabled={!fhevmInstance || !inputValue || fheHealthChecker.isChecking}
-                      onClick={() => handleCheckHealth(metric)}
-                    >
-                      {fheHealthChecker.isChecking && selectedMetric === metric.id ? "🔐 Checking..." : "🔐 Check"}
-                    </button>
+          {/* Share with doctor */}
+          <div className={cardClass}>
+            <h3 className="font-semibold text-gray-800 mb-2">🩺 Share with doctor</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Allow another address to decrypt your current and future statuses of the selected metrics until the
+              grant expires. Revoking or expiry stops sharing new results; results already shared stay readable by
+              the delegate.
+            </p>
+            <div className="space-y-3">
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="Doctor address (0x...)"
+                value={delegateInput}
+                onChange={(e) => setDelegateInput(e.target.value.trim())}
+              />
+              <div className="flex flex-wrap gap-3">
+                {metrics.map((metric) => (
+                  <label key={metric.id} className="flex items-center space-x-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(shareMetrics[metric.id])}
+                      onChange={() => handleToggleShareMetric(metric.id)}
+                    />
+                    <span>{metric.icon} {metric.name}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                <select
+                  className={`${inputClass} flex-1`}
+                  value={shareDays}
+                  onChange={(e) => setShareDays(Number(e.target.value))}
+                >
+                  <option value={1}>1 day</option>
+                  <option value={7}>7 days</option>
+                  <option value={30}>30 days</option>
+                  <option value={90}>90 days</option>
+                </select>
+                <button
+                  className={`${buttonClass} flex-1 text-sm py-2`}
+                  disabled={
+                    !fheHealthChecker.hasConsent ||
+                    !delegateInput ||
+                    selectedShareMetrics.length === 0 ||
+                    fheHealthChecker.isUpdatingDelegation
+                  }
+                  onClick={() => fheHealthChecker.grantAccess(delegateInput, selectedShareMetrics, shareDays * 86400)}
+                >
+                  🔑 Grant access
+                </button>
+                <button
+                  className={`${buttonClass} flex-1 text-sm py-2`}
+                  disabled={!delegateInput || selectedShareMetrics.length === 0 || fheHealthChecker.isUpdatingDelegation}
+                  onClick={() => fheHealthChecker.revokeAccess(delegateInput, selectedShareMetrics)}
+                >
+                  🚫 Revoke access
+                </button>
+              </div>
+              <div className="mt-2">
+                <TxStatus tx={fheHealthChecker.delegationTx} />
+              </div>
+            </div>
 
-                    {checkedMetrics[metric.id] && currentStatus === "unknown" && (
+            <div className="mt-4">
+              <h4 className="text-sm font-medium text-gray-800 mb-2">Delegates</h4>
+              {!fheHealthChecker.delegations || fheHealthChecker.delegations.length === 0 ? (
+                <p className="text-sm text-gray-500">You are not sharing any metric.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {fheHealthChecker.delegations.map((delegation) => (
+                    <li key={delegation.delegate} className="flex items-center justify-between text-sm text-gray-700">
+                      <span>
+                        <span className="font-mono">
+                          {delegation.delegate.slice(0, 6)}...{delegation.delegate.slice(-4)}
+                        </span>
+                        : {getMetricNames(delegation.metrics)}
+                        <span className={delegation.expiresAt <= now ? "ml-2 text-red-600" : "ml-2 text-gray-500"}>
+                          ({formatRemainingTime(delegation.expiresAt)})
+                        </span>
+                      </span>
                       <button
-                        className={`${buttonClass} text-sm py-2 px-3 bg-green-600 hover:bg-green-700`}
-                        disabled={fheHealthChecker.isDecrypting}
-                        onClick={() => handleDecryptStatus(metric.id)}
+                        className={`${buttonClass} text-xs py-1 px-3`}
+                        disabled={fheHealthChecker.isUpdatingDelegation}
+                        onClick={() => fheHealthChecker.revokeAccess(delegation.delegate, delegation.metrics)}
                       >
-                        {fheHealthChecker.isDecrypting ? "🔓 Decrypting..." : "🔓 Decrypt"}
+                        Revoke all
                       </button>
-                    )}
-                  </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Health History */}
+          <div className={cardClass}>
+            <h3 className="font-semibold text-gray-800 mb-4">📈 Health History</h3>
+            <div className="flex space-x-2 mb-4">
+              <select
+                className={inputClass}
+                value={historyMetric}
+                onChange={(e) => setHistoryMetric(Number(e.target.value))}
+              >
+                {metrics.map((metric) => (
+                  <option key={metric.id} value={metric.id}>
+                    {metric.icon} {metric.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                className={`${buttonClass} text-sm py-2 whitespace-nowrap`}
+                disabled={!fhevmInstance || fheHealthChecker.isDecrypting}
+                onClick={() => fheHealthChecker.loadHealthHistory(historyMetric)}
+              >
+                {fheHealthChecker.isDecrypting ? "🔓 Decrypting..." : "🔓 Load & decrypt"}
+              </button>
+            </div>
+            {(() => {
+              const entries = fheHealthChecker.healthHistories[historyMetric];
+              const metric = metrics.find((m) => m.id === historyMetric);
+              if (!entries || !metric) {
+                return (
+                  <p className="text-sm text-gray-500">
+                    Load the last {HEALTH_HISTORY_PAGE_SIZE} readings of a metric to chart them.
+                  </p>
+                );
+              }
+              if (entries.length === 0) {
+                return <p className="text-sm text-gray-500">No readings recorded for {metric.name} yet.</p>;
+              }
+              return renderHistoryChart(entries, metric);
+            })()}
+          </div>
+
+          {/* Consent record */}
+          {fheHealthChecker.hasConsent && fheHealthChecker.consent && (
+            <div className={cardClass}>
+              <h3 className="font-semibold text-gray-800 mb-2">📜 Consent</h3>
+              <p className="text-sm text-gray-600 mb-1">
+                You consented to the current terms on {new Date(fheHealthChecker.consent.timestamp * 1000).toLocaleString()}.
+              </p>
+              <p className="text-xs text-gray-500 mb-4 break-all">Terms hash: {fheHealthChecker.consent.version}</p>
+              <button
+                className={`${buttonClass} text-sm py-2`}
+                disabled={fheHealthChecker.isUpdatingConsent}
+                onClick={() => {
+                  setIsConsentDismissed(true);
+                  fheHealthChecker.withdrawConsent();
+                }}
+              >
+                {fheHealthChecker.isUpdatingConsent ? "Withdrawing..." : "Withdraw consent"}
+              </button>
+              <div className="mt-2">
+                <TxStatus tx={fheHealthChecker.consentTx} />
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Withdrawing blocks new checks and sharing; your stored data stays until you delete it below.
+              </p>
+            </div>
+          )}
+
+          {/* Delete my health data */}
+          <div className={cardClass}>
+            <h3 className="font-semibold text-gray-800 mb-2">🗑️ Delete my health data</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Remove your stored statuses, trends, history and personal ranges of the selected metrics from the
+              contract, and stop sharing those metrics with your delegates. Your profile and attestations are only
+              removed if you select them too. Anonymous population totals keep your past contributions, and anyone
+              you already shared a result with can still decrypt it.
+            </p>
+            <div className="flex flex-wrap gap-3 mb-3">
+              {metrics.map((metric) => (
+                <label key={metric.id} className="flex items-center space-x-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(deleteMetrics[metric.id])}
+                    onChange={() => handleToggleDeleteMetric(metric.id)}
+                  />
+                  <span>{metric.icon} {metric.name}</span>
+                </label>
+              ))}
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={deleteAccountData}
+                  onChange={() => {
+                    setDeleteAccountData((value) => !value);
+                    setIsConfirmingDelete(false);
+                  }}
+                />
+                <span>🧬 Profile and attestations</span>
+              </label>
+            </div>
+            {!isConfirmingDelete ? (
+              <button
+                className={`${buttonClass} text-sm py-2 bg-red-600 hover:bg-red-700`}
+                disabled={
+                  (selectedDeleteMetrics.length === 0 && !deleteAccountData) || fheHealthChecker.isDeletingData
+                }
+                onClick={() => setIsConfirmingDelete(true)}
+              >
+                {fheHealthChecker.isDeletingData ? "🗑️ Deleting..." : "🗑️ Delete my health data"}
+              </button>
+            ) : (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-2">
+                <p className="text-sm text-red-800">
+                  Permanently delete{" "}
+                  {[
+                    selectedDeleteMetrics.length > 0 ? `your data of ${getMetricNames(selectedDeleteMetrics)}` : "",
+                    deleteAccountData ? "your profile and attestations" : "",
+                  ]
+                    .filter(Boolean)
+                    .join(" and ")}
+                  ? This cannot be undone.
+                </p>
+                <div className="flex space-x-2">
+                  <button
+                    className={`${buttonClass} text-sm py-2 bg-red-600 hover:bg-red-700`}
+                    onClick={handleDeleteMyData}
+                  >
+                    Yes, delete
+                  </button>
+                  <button className={`${buttonClass} text-sm py-2`} onClick={() => setIsConfirmingDelete(false)}>
+                    Cancel
+                  </button>
                 </div>
               </div>
-            );
-          })}
+            )}
+            <div className="mt-2">
+              <TxStatus tx={fheHealthChecker.deleteDataTx} />
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Clinician mode */}
+      {mode === "clinician" && (
+        <div className="space-y-6">
+          <h2 className="text-2xl font-bold text-gray-800 text-center">Clinician View</h2>
+
+          {fheHealthChecker.message && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
+              <p className="text-blue-800 font-medium">{fheHealthChecker.message}</p>
+            </div>
+          )}
+          {fheHealthChecker.error && errorBanner(fheHealthChecker.error, fheHealthChecker.clearError)}
+
+          <div className={cardClass}>
+            <h3 className="font-semibold text-gray-800 mb-2">🩺 Patient statuses</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Enter the address of a patient who shared metrics with your account to decrypt their latest statuses.
+            </p>
+            <div className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="Patient address (0x...)"
+                value={patientInput}
+                onChange={(e) => setPatientInput(e.target.value.trim())}
+              />
+              <button
+                className={`${buttonClass} text-sm py-2 whitespace-nowrap`}
+                disabled={!fhevmInstance || !patientInput || fheHealthChecker.isDecrypting}
+                onClick={() => fheHealthChecker.loadPatientStatuses(patientInput)}
+              >
+                {fheHealthChecker.isDecrypting ? "🔓 Decrypting..." : "🔓 Load & decrypt"}
+              </button>
+            </div>
+
+            {fheHealthChecker.patientStatuses && (
+              <div>
+                <p className="text-xs text-gray-500 mb-3">
+                  Patient{" "}
+                  <span className="font-mono">
+                    {fheHealthChecker.patientStatuses.patient.slice(0, 6)}...
+                    {fheHealthChecker.patientStatuses.patient.slice(-4)}
+                  </span>{" "}
+                  ({formatRemainingTime(fheHealthChecker.patientStatuses.expiresAt)})
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {Object.entries(fheHealthChecker.patientStatuses.statuses).map(([id, status]) => {
+                    const metric = metrics.find((m) => m.id === Number(id));
+                    return (
+                      <div key={id} className="text-center">
+                        <div className="text-2xl mb-1">{metric?.icon ?? "📈"}</div>
+                        <div className="text-xs text-gray-600 mb-1">{metric?.name ?? `Metric ${id}`}</div>
+                        <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(status)}`}>
+                          <span className="mr-1">{getStatusIcon(status)}</span>
+                          {status === "unknown" ? "Not checked" : getStatusText(status)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
-      {/* Summary Dashboard */}
+      {/* Population Statistics */}
       <div className={cardClass}>
-        <h3 className="font-semibold text-gray-800 mb-4">📊 Health Summary</h3>
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-          {HEALTH_METRICS.map((metric) => {
-            const status = healthStatuses[metric.id] || "unknown";
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-800">👥 Population Statistics</h3>
+          <button className={`${buttonClass} text-xs py-1 px-3`} onClick={fheHealthChecker.refreshPopulationStats}>
+            🔄 Refresh
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Anonymous totals of all check results, counted on encrypted data and revealed by the contract owner
+          through public decryption. No individual result is ever disclosed.
+          {fheHealthChecker.statsThreshold !== undefined && (
+            <> Totals are only revealed once {fheHealthChecker.statsThreshold} different users have checked a metric since its last reveal.</>
+          )}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {metrics.map((metric) => {
+            const stats = fheHealthChecker.populationStats[metric.id];
             return (
               <div key={metric.id} className="text-center">
                 <div className="text-2xl mb-1">{metric.icon}</div>
                 <div className="text-xs text-gray-600 mb-1">{metric.name}</div>
-                <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(status)}`}>
-                  <span className="mr-1">{getStatusIcon(status)}</span>
-                  {getStatusText(status)}
-                </div>
+                {stats && stats.revealedAt > 0 ? (
+                  <div className="text-xs text-gray-700 space-y-1">
+                    <div>{getStatusIcon("normal")} {stats.normal} normal</div>
+                    <div>{getStatusIcon("low")} {stats.low} low</div>
+                    <div>{getStatusIcon("high")} {stats.high} high</div>
+                    <div className="text-gray-400">{new Date(stats.revealedAt * 1000).toLocaleDateString()}</div>
+                    {fheHealthChecker.statsThreshold !== undefined && (
+                      <div className="text-gray-400">
+                        {stats.submitters}/{fheHealthChecker.statsThreshold} new users
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-400">
+                    Not revealed yet
+                    {stats && fheHealthChecker.statsThreshold !== undefined && (
+                      <div>
+                        {stats.submitters}/{fheHealthChecker.statsThreshold} users
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -515,7 +1383,7 @@ export const FHEHealthCheckerDemo = () => {
             <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white font-bold">3</div>
             <div>
               <h4 className="font-medium">Selective Disclosure</h4>
-              <p>Only the classification result (normal/low/high) can be decrypted - your specific measurements remain private</p>
+              <p>Only you can decrypt your classification results (normal/low/high) and your recorded readings - nobody else ever sees them</p>
             </div>
           </div>
         </div>
@@ -531,3 +1399,23 @@ export const FHEHealthCheckerDemo = () => {
   );
 };
 
+/**
+ * Banner with the copy of `error`'s kind, and its message and code as details.
+ */
+function errorBanner(error: HealthCheckerError, onDismiss: () => void) {
+  const copy = HEALTH_ERROR_COPY[error.kind];
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-red-800 font-semibold">{copy.title}</p>
+        <p className="text-sm text-red-700">{copy.hint}</p>
+        <p className="text-xs text-red-600 mt-1 break-all line-clamp-2" title={error.message}>
+          {error.message} <span className="font-mono">({error.code})</span>
+        </p>
+      </div>
+      <button className="text-red-800 text-sm font-semibold shrink-0" onClick={onDismiss}>
+        Dismiss
+      </button>
+    </div>
+  );
+}
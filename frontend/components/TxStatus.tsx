@@ -0,0 +1,36 @@
+import { describeTxState, isTxInProgress, TxState } from "@/hooks/txLifecycle";
+
+const statusClasses: Record<TxState["status"], string> = {
+  encrypting: "bg-indigo-100 text-indigo-800",
+  "awaiting-signature": "bg-amber-100 text-amber-800",
+  pending: "bg-blue-100 text-blue-800",
+  replaced: "bg-purple-100 text-purple-800",
+  mined: "bg-green-100 text-green-800",
+  reverted: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-200 text-gray-700",
+};
+
+/**
+ * Badge with the lifecycle state of a transaction (see `trackTransaction`),
+ * followed by its description. Renders nothing without a transaction.
+ */
+export const TxStatus = ({ tx }: { tx?: TxState }) => {
+  if (!tx) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      <span
+        className={`shrink-0 px-2 py-0.5 rounded-full font-semibold ${statusClasses[tx.status]} ${
+          isTxInProgress(tx) ? "animate-pulse" : ""
+        }`}
+      >
+        {tx.status}
+      </span>
+      <span className="text-gray-600 break-all line-clamp-2" title={describeTxState(tx)}>
+        {describeTxState(tx)}
+      </span>
+    </div>
+  );
+};
@@ -17,3 +17,15 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
     this.#store.delete(key);
   }
 }
+
+export class GenericStringLocalStorage implements GenericStringStorage {
+  getItem(key: string): string | Promise<string | null> | null {
+    return window.localStorage.getItem(key);
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    window.localStorage.setItem(key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    window.localStorage.removeItem(key);
+  }
+}
@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+
+import {
+  chainChangedError,
+  HealthCheckerError,
+  notDeployedError,
+  toHealthCheckerError,
+} from "@/hooks/healthCheckerErrors";
+import { TxFailedError } from "@/hooks/txLifecycle";
+
+const HASH = "0x" + "11".repeat(32);
+const REPLACEMENT = "0x" + "22".repeat(32);
+
+/**
+ * Error thrown by the relayer SDK, whose cause carries the relayer code
+ */
+function relayerError(operation: string, status?: number): Error {
+  return new Error("Relayer didn't respond correctly", {
+    cause: { code: "RELAYER_FETCH_ERROR", operation, status },
+  });
+}
+
+describe("toHealthCheckerError", () => {
+  it("classifies a request rejected in the wallet", () => {
+    const rejected = ethers.makeError("user rejected action", "ACTION_REJECTED", {
+      action: "sendTransaction",
+      reason: "rejected",
+    });
+
+    const error = toHealthCheckerError(rejected);
+    expect(error).toBeInstanceOf(HealthCheckerError);
+    expect(error.kind).toBe("user-rejected");
+    expect(error.code).toBe("ACTION_REJECTED");
+    expect(error.cause).toBe(rejected);
+  });
+
+  it("classifies a transaction rejected in the wallet by trackTransaction", () => {
+    const rejected = ethers.makeError("user rejected action", "ACTION_REJECTED", {
+      action: "sendTransaction",
+      reason: "rejected",
+    });
+    const failed = new TxFailedError({ status: "cancelled", reason: "rejected in the wallet" }, { cause: rejected });
+
+    expect(toHealthCheckerError(failed).kind).toBe("user-rejected");
+  });
+
+  it("classifies an EIP-1193 user rejection wrapped by ethers", () => {
+    const wrapped = ethers.makeError("could not coalesce error", "UNKNOWN_ERROR", {
+      error: { code: 4001, message: "User denied message signature." },
+    });
+
+    const error = toHealthCheckerError(wrapped);
+    expect(error.kind).toBe("user-rejected");
+    expect(error.code).toBe("4001");
+  });
+
+  it("classifies a replaced transaction as cancelled", () => {
+    const failed = new TxFailedError({ status: "replaced", hash: HASH, replacement: REPLACEMENT });
+
+    const error = toHealthCheckerError(failed);
+    expect(error.kind).toBe("cancelled");
+    expect(error.code).toBe("TRANSACTION_REPLACED");
+  });
+
+  it("keeps the custom error of a reverted transaction", () => {
+    const failed = new TxFailedError({
+      status: "reverted",
+      hash: HASH,
+      reason: `ConsentRequired(${ethers.ZeroAddress})`,
+      errorName: "ConsentRequired",
+    });
+
+    const error = toHealthCheckerError(failed);
+    expect(error.kind).toBe("reverted");
+    expect(error.code).toBe("ConsentRequired");
+    expect(error.message).toBe(`Transaction reverted: ConsentRequired(${ethers.ZeroAddress})`);
+  });
+
+  it("classifies an InputVerifier revert as a rejected input proof", () => {
+    const failed = new TxFailedError({
+      status: "reverted",
+      hash: HASH,
+      reason: "InvalidSigner(0x0000000000000000000000000000000000000001)",
+      errorName: "InvalidSigner",
+    });
+
+    const error = toHealthCheckerError(failed);
+    expect(error.kind).toBe("input-proof-rejected");
+    expect(error.code).toBe("InvalidSigner");
+  });
+
+  it("classifies a reverted call without a decoded reason", () => {
+    const failed = new TxFailedError({ status: "reverted", hash: HASH, reason: "execution reverted" });
+
+    const error = toHealthCheckerError(failed);
+    expect(error.kind).toBe("reverted");
+    expect(error.code).toBe("CALL_EXCEPTION");
+  });
+
+  it("classifies relayer failures", () => {
+    const error = toHealthCheckerError(relayerError("USER_DECRYPT", 500));
+    expect(error.kind).toBe("relayer");
+    expect(error.code).toBe("RELAYER_FETCH_ERROR");
+
+    expect(toHealthCheckerError(relayerError("KEY_URL")).kind).toBe("relayer");
+    // Rate limiting is not a problem of the input
+    expect(toHealthCheckerError(relayerError("INPUT_PROOF", 429)).kind).toBe("relayer");
+  });
+
+  it("classifies an input proof refused by the relayer", () => {
+    expect(toHealthCheckerError(relayerError("INPUT_PROOF", 400)).kind).toBe("input-proof-rejected");
+  });
+
+  it("classifies empty call data as a missing deployment", () => {
+    const badData = ethers.makeError("could not decode result data", "BAD_DATA", { value: "0x" });
+
+    const error = toHealthCheckerError(badData);
+    expect(error.kind).toBe("not-deployed");
+    expect(error.code).toBe("BAD_DATA");
+  });
+
+  it("does not classify other undecodable data as a missing deployment", () => {
+    const badData = ethers.makeError("could not decode result data", "BAD_DATA", { value: "0x1234" });
+
+    expect(toHealthCheckerError(badData).kind).toBe("unknown");
+  });
+
+  it("returns health checker errors unchanged", () => {
+    const error = chainChangedError();
+    expect(toHealthCheckerError(error)).toBe(error);
+  });
+});
+
+describe("notDeployedError", () => {
+  it("reports the chain without a deployment", () => {
+    const error = notDeployedError(11155111);
+    expect(error.kind).toBe("not-deployed");
+    expect(error.code).toBe("NOT_DEPLOYED");
+    expect(error.message).toContain("chainId=11155111");
+  });
+});
+
+describe("chainChangedError", () => {
+  it("is a wrong network error", () => {
+    const error = chainChangedError();
+    expect(error.kind).toBe("wrong-network");
+    expect(error.code).toBe("CHAIN_CHANGED");
+  });
+});
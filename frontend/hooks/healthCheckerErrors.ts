@@ -0,0 +1,250 @@
+import { ethers } from "ethers";
+
+import { FhevmAbortError, FhevmReactError } from "@/fhevm/internal/fhevm";
+import { inputVerifierInterface, TxFailedError } from "@/hooks/txLifecycle";
+
+/**
+ * What went wrong, as far as the user is concerned:
+ *
+ * - `user-rejected`: a signature or transaction was rejected in the wallet
+ * - `wrong-network`: the wallet is disconnected from the chain, on an unknown
+ *   chain, or switched chains during the operation
+ * - `not-deployed`: there is no FHEHealthChecker contract at the address used
+ * - `relayer`: the FHEVM relayer (or the FHEVM Hardhat node) failed or could not
+ *   be reached
+ * - `input-proof-rejected`: the proof of an encrypted input was rejected, by the
+ *   relayer or on-chain by the InputVerifier
+ * - `insufficient-funds`: the account cannot pay for the transaction
+ * - `reverted`: the contract rejected the transaction or call
+ * - `cancelled`: the operation was cancelled or its transaction replaced
+ * - `unknown`: anything else
+ */
+export type HealthErrorKind =
+  | "user-rejected"
+  | "wrong-network"
+  | "not-deployed"
+  | "relayer"
+  | "input-proof-rejected"
+  | "insufficient-funds"
+  | "reverted"
+  | "cancelled"
+  | "unknown";
+
+/**
+ * Error reported by `useFHEHealthChecker`. `kind` classifies it for the UI
+ * (see `HEALTH_ERROR_COPY`); `code` is the underlying code: the ethers error
+ * code, EIP-1193 error code, relayer SDK cause code, `FhevmReactError` code or
+ * name of the contract's custom error. The original error is kept as `cause`.
+ */
+export class HealthCheckerError extends FhevmReactError {
+  kind: HealthErrorKind;
+  constructor(kind: HealthErrorKind, code: string, message?: string, options?: ErrorOptions) {
+    super(code, message, options);
+    this.kind = kind;
+    this.name = "HealthCheckerError";
+  }
+}
+
+/**
+ * UI copy of each error kind: a short title and what the user can do about it.
+ */
+export const HEALTH_ERROR_COPY: Record<HealthErrorKind, { title: string; hint: string }> = {
+  "user-rejected": {
+    title: "Request rejected",
+    hint: "You rejected the request in your wallet, nothing was sent.",
+  },
+  "wrong-network": {
+    title: "Wrong network",
+    hint: "Connect your wallet to Sepolia or the local Hardhat node and try again.",
+  },
+  "not-deployed": {
+    title: "Contract not deployed",
+    hint: "FHEHealthChecker is not deployed at the configured address on this network. Deploy it or update the ABI directory.",
+  },
+  relayer: {
+    title: "Relayer unavailable",
+    hint: "The FHEVM relayer did not respond correctly. Wait a moment and try again.",
+  },
+  "input-proof-rejected": {
+    title: "Encrypted input rejected",
+    hint: "The proof of your encrypted input was rejected. Submit the reading again from the same account and network.",
+  },
+  "insufficient-funds": {
+    title: "Insufficient funds",
+    hint: "Your account does not have enough ETH to pay for the transaction.",
+  },
+  reverted: {
+    title: "Transaction reverted",
+    hint: "The contract rejected the request, see the reason for details.",
+  },
+  cancelled: {
+    title: "Cancelled",
+    hint: "The request was cancelled before it completed.",
+  },
+  unknown: {
+    title: "Something went wrong",
+    hint: "See the details and try again.",
+  },
+};
+
+/**
+ * Kinds of the codes thrown by `fhevm/internal/fhevm.ts`
+ */
+const FHEVM_ERROR_KINDS: Record<string, HealthErrorKind> = {
+  WEB3_CLIENTVERSION_ERROR: "wrong-network",
+  FHEVM_RELAYER_METADATA_ERROR: "relayer",
+};
+
+/**
+ * Kinds of the EIP-1193 provider error codes
+ */
+const EIP1193_ERROR_KINDS: Record<number, HealthErrorKind> = {
+  4001: "user-rejected", // User Rejected Request
+  4900: "wrong-network", // Disconnected
+  4901: "wrong-network", // Chain Disconnected
+  4902: "wrong-network", // Unrecognized chain (MetaMask)
+};
+
+/**
+ * EIP-1193 error code of `error`, also when ethers wrapped the provider's error
+ */
+function getEip1193Code(error: unknown): number | undefined {
+  for (const candidate of [
+    error,
+    (error as { error?: unknown })?.error,
+    (error as { info?: { error?: unknown } })?.info?.error,
+  ]) {
+    const code = (candidate as { code?: unknown })?.code;
+    if (typeof code === "number") {
+      return code;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The relayer SDK throws plain errors whose cause has a `RELAYER_*` code, the
+ * relayer operation and, for HTTP errors, the response status
+ */
+function getRelayerCause(error: unknown): { code: string; operation?: string; status?: number } | undefined {
+  const cause = error instanceof Error ? (error.cause as Record<string, unknown> | undefined) : undefined;
+  if (typeof cause?.code !== "string" || !cause.code.startsWith("RELAYER_")) {
+    return undefined;
+  }
+  return {
+    code: cause.code,
+    operation: typeof cause.operation === "string" ? cause.operation : undefined,
+    status: typeof cause.status === "number" ? cause.status : undefined,
+  };
+}
+
+/**
+ * Message of `error`, without the details ethers appends to its messages
+ */
+function errorMessage(error: unknown): string {
+  const shortMessage = (error as { shortMessage?: unknown })?.shortMessage;
+  if (typeof shortMessage === "string") {
+    return shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Error reported when there is no FHEHealthChecker deployment for `chainId` in
+ * the ABI directory.
+ */
+export function notDeployedError(chainId: number | undefined): HealthCheckerError {
+  return new HealthCheckerError(
+    "not-deployed",
+    "NOT_DEPLOYED",
+    `FHEHealthChecker deployment not found for chainId=${chainId}.`
+  );
+}
+
+/**
+ * Error reported when the wallet switched chains while an operation was
+ * running; its result is discarded.
+ */
+export function chainChangedError(): HealthCheckerError {
+  return new HealthCheckerError(
+    "wrong-network",
+    "CHAIN_CHANGED",
+    "The wallet switched networks before the operation completed."
+  );
+}
+
+/**
+ * Classify any error thrown while checking, decrypting or sharing health data.
+ */
+export function toHealthCheckerError(error: unknown): HealthCheckerError {
+  if (error instanceof HealthCheckerError) {
+    return error;
+  }
+  const options = { cause: error };
+
+  if (error instanceof TxFailedError) {
+    const state = error.state;
+    if (ethers.isError(error.cause, "ACTION_REJECTED")) {
+      return new HealthCheckerError("user-rejected", "ACTION_REJECTED", error.message, options);
+    }
+    if (state.status === "reverted") {
+      const isInputProof = state.errorName !== undefined && inputVerifierInterface.getError(state.errorName) !== null;
+      return new HealthCheckerError(
+        isInputProof ? "input-proof-rejected" : "reverted",
+        state.errorName ?? "CALL_EXCEPTION",
+        error.message,
+        options
+      );
+    }
+    return new HealthCheckerError("cancelled", "TRANSACTION_REPLACED", error.message, options);
+  }
+
+  if (error instanceof FhevmAbortError) {
+    return new HealthCheckerError("cancelled", "FHEVM_ABORTED", error.message, options);
+  }
+  if (error instanceof FhevmReactError) {
+    return new HealthCheckerError(FHEVM_ERROR_KINDS[error.code] ?? "unknown", error.code, error.message, options);
+  }
+
+  const relayerCause = getRelayerCause(error);
+  if (relayerCause) {
+    // The relayer answers invalid inputs with a 4xx status (429 is rate limiting)
+    const isInputProof =
+      relayerCause.operation === "INPUT_PROOF" &&
+      relayerCause.status !== undefined &&
+      relayerCause.status >= 400 &&
+      relayerCause.status < 500 &&
+      relayerCause.status !== 429;
+    return new HealthCheckerError(
+      isInputProof ? "input-proof-rejected" : "relayer",
+      relayerCause.code,
+      errorMessage(error),
+      options
+    );
+  }
+
+  if (ethers.isError(error, "ACTION_REJECTED")) {
+    return new HealthCheckerError("user-rejected", error.code, error.shortMessage, options);
+  }
+  if (ethers.isError(error, "NETWORK_ERROR")) {
+    return new HealthCheckerError("wrong-network", error.code, error.shortMessage, options);
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) {
+    return new HealthCheckerError("insufficient-funds", error.code, error.shortMessage, options);
+  }
+  // Calls to an address without code return empty data
+  if (ethers.isError(error, "BAD_DATA") && error.value === "0x") {
+    return new HealthCheckerError("not-deployed", error.code, error.shortMessage, options);
+  }
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    return new HealthCheckerError("reverted", error.revert?.name ?? error.code, error.shortMessage, options);
+  }
+
+  const eip1193Code = getEip1193Code(error);
+  if (eip1193Code !== undefined && EIP1193_ERROR_KINDS[eip1193Code]) {
+    return new HealthCheckerError(EIP1193_ERROR_KINDS[eip1193Code], String(eip1193Code), errorMessage(error), options);
+  }
+
+  const code = (error as { code?: unknown })?.code;
+  return new HealthCheckerError("unknown", code !== undefined ? String(code) : "UNKNOWN_ERROR", errorMessage(error), options);
+}
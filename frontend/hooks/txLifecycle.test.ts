@@ -0,0 +1,220 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+
+import { trackTransaction, TxFailedError, TxState } from "@/hooks/txLifecycle";
+
+const HASH = "0x" + "11".repeat(32);
+const REPLACEMENT = "0x" + "22".repeat(32);
+const USER = "0x0000000000000000000000000000000000000001";
+
+const iface = new ethers.Interface(["error ConsentRequired(address user)"]);
+
+/**
+ * Contract whose provider is only asked for the current block
+ */
+function fakeContract(): ethers.Contract {
+  return {
+    interface: iface,
+    runner: { provider: { getBlockNumber: async () => 10 } },
+  } as unknown as ethers.Contract;
+}
+
+/**
+ * Transaction response whose `wait()` runs `wait`, and whose replay with
+ * `eth_call` (to read the reason of a mined revert) runs `call`
+ */
+function fakeTx(
+  wait: () => Promise<unknown>,
+  call: () => Promise<string> = async () => "0x",
+  hash = HASH
+): ethers.TransactionResponse {
+  const tx = {
+    hash,
+    provider: { call },
+    wait,
+    replaceableTransaction: () => tx,
+  };
+  return tx as unknown as ethers.TransactionResponse;
+}
+
+function receipt(hash: string, status: number): ethers.TransactionReceipt {
+  return { hash, status, blockNumber: 12 } as unknown as ethers.TransactionReceipt;
+}
+
+function consentRequired(): ethers.CallExceptionError {
+  return ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+    action: "estimateGas",
+    data: iface.encodeErrorResult("ConsentRequired", [USER]),
+    reason: null,
+    transaction: { to: null, data: "0x" },
+    invocation: null,
+    revert: null,
+  });
+}
+
+function replaced(reason: "repriced" | "cancelled" | "replaced", status = 1): ethers.TransactionReplacedError {
+  return ethers.makeError("transaction was replaced", "TRANSACTION_REPLACED", {
+    cancelled: reason !== "repriced",
+    reason,
+    hash: HASH,
+    replacement: fakeTx(
+      async () => null,
+      async () => {
+        throw consentRequired();
+      },
+      REPLACEMENT
+    ),
+    receipt: receipt(REPLACEMENT, status),
+  });
+}
+
+/**
+ * Track `send` and collect the reported states, with the error it threw
+ */
+async function track(send: () => Promise<ethers.TransactionResponse>) {
+  const states: TxState[] = [];
+  let error: unknown;
+  try {
+    await trackTransaction(send, fakeContract(), (state) => states.push(state));
+  } catch (e) {
+    error = e;
+  }
+  return { states, error };
+}
+
+describe("trackTransaction", () => {
+  it("reports a mined transaction", async () => {
+    const { states, error } = await track(async () => fakeTx(async () => receipt(HASH, 1)));
+
+    expect(error).toBeUndefined();
+    expect(states).toEqual([
+      { status: "awaiting-signature" },
+      { status: "pending", hash: HASH },
+      { status: "mined", hash: HASH, blockNumber: 12 },
+    ]);
+  });
+
+  it("reports a transaction rejected in the wallet as cancelled", async () => {
+    const { states, error } = await track(async () => {
+      throw ethers.makeError("user rejected action", "ACTION_REJECTED", {
+        action: "sendTransaction",
+        reason: "rejected",
+      });
+    });
+
+    expect(states).toEqual([
+      { status: "awaiting-signature" },
+      { status: "cancelled", reason: "rejected in the wallet" },
+    ]);
+    expect(error).toBeInstanceOf(TxFailedError);
+  });
+
+  it("decodes the custom error of a revert detected before sending", async () => {
+    const { states, error } = await track(async () => {
+      throw consentRequired();
+    });
+
+    expect(states.at(-1)).toEqual({
+      status: "reverted",
+      reason: `ConsentRequired(${USER})`,
+      errorName: "ConsentRequired",
+    });
+    expect((error as TxFailedError).state).toEqual(states.at(-1));
+  });
+
+  it("replays a transaction mined with a failed status to read its revert reason", async () => {
+    const minedRevert = ethers.makeError("transaction execution reverted", "CALL_EXCEPTION", {
+      action: "sendTransaction",
+      data: null,
+      reason: null,
+      transaction: { to: null, data: "0x" },
+      invocation: null,
+      revert: null,
+      receipt: receipt(HASH, 0),
+    });
+    const { states, error } = await track(async () =>
+      fakeTx(
+        async () => {
+          throw minedRevert;
+        },
+        async () => {
+          throw consentRequired();
+        }
+      )
+    );
+
+    expect(states).toEqual([
+      { status: "awaiting-signature" },
+      { status: "pending", hash: HASH },
+      { status: "reverted", hash: HASH, reason: `ConsentRequired(${USER})`, errorName: "ConsentRequired" },
+    ]);
+    expect(error).toBeInstanceOf(TxFailedError);
+  });
+
+  it("follows a sped-up transaction to its replacement", async () => {
+    const { states, error } = await track(async () =>
+      fakeTx(async () => {
+        throw replaced("repriced");
+      })
+    );
+
+    expect(error).toBeUndefined();
+    expect(states).toEqual([
+      { status: "awaiting-signature" },
+      { status: "pending", hash: HASH },
+      { status: "replaced", hash: HASH, replacement: REPLACEMENT },
+      { status: "mined", hash: REPLACEMENT, blockNumber: 12 },
+    ]);
+  });
+
+  it("reports a sped-up transaction whose replacement reverted", async () => {
+    const { states, error } = await track(async () =>
+      fakeTx(async () => {
+        throw replaced("repriced", 0);
+      })
+    );
+
+    expect(states.slice(2)).toEqual([
+      { status: "replaced", hash: HASH, replacement: REPLACEMENT },
+      {
+        status: "reverted",
+        hash: REPLACEMENT,
+        reason: `ConsentRequired(${USER})`,
+        errorName: "ConsentRequired",
+      },
+    ]);
+    expect(error).toBeInstanceOf(TxFailedError);
+  });
+
+  it("reports a transaction cancelled with a same-nonce transfer", async () => {
+    const { states, error } = await track(async () =>
+      fakeTx(async () => {
+        throw replaced("cancelled");
+      })
+    );
+
+    expect(states.at(-1)).toEqual({ status: "cancelled", hash: HASH, reason: `cancelled by tx:${REPLACEMENT}` });
+    expect(error).toBeInstanceOf(TxFailedError);
+  });
+
+  it("stops at a replacement by an unrelated transaction", async () => {
+    const { states, error } = await track(async () =>
+      fakeTx(async () => {
+        throw replaced("replaced");
+      })
+    );
+
+    expect(states.at(-1)).toEqual({ status: "replaced", hash: HASH, replacement: REPLACEMENT });
+    expect((error as TxFailedError).state).toEqual(states.at(-1));
+  });
+
+  it("rethrows other errors unchanged", async () => {
+    const failure = new Error("connection lost");
+    const { states, error } = await track(async () => {
+      throw failure;
+    });
+
+    expect(states).toEqual([{ status: "awaiting-signature" }]);
+    expect(error).toBe(failure);
+  });
+});
@@ -0,0 +1,238 @@
+import { ethers } from "ethers";
+
+/**
+ * Lifecycle of a transaction sent by a hook, from encrypting its inputs to its
+ * outcome:
+ *
+ * - `encrypting`: the FHE inputs are being encrypted, nothing was sent yet
+ * - `awaiting-signature`: waiting for the wallet to sign and send it
+ * - `pending`: sent as `hash`, waiting to be mined
+ * - `replaced`: `hash` was replaced by `replacement`. A speed-up (same call,
+ *   higher fee) is followed by `mined` or `reverted` for the replacement; a
+ *   replacement by an unrelated transaction is final
+ * - `mined`: mined successfully in `blockNumber`
+ * - `reverted`: the contract rejected it, with the revert `reason` decoded from
+ *   the contract's custom errors when possible (`errorName` is then the name of
+ *   the custom error)
+ * - `cancelled`: rejected in the wallet, cancelled with a same-nonce transfer,
+ *   or abandoned because the chain, account or contract changed
+ */
+export type TxState =
+  | { status: "encrypting" }
+  | { status: "awaiting-signature" }
+  | { status: "pending"; hash: string }
+  | { status: "replaced"; hash: string; replacement: string }
+  | { status: "mined"; hash: string; blockNumber: number }
+  | { status: "reverted"; hash?: string; reason: string; errorName?: string }
+  | { status: "cancelled"; hash?: string; reason: string };
+
+/**
+ * State of a transaction abandoned before sending because the chain, account or
+ * contract changed while its inputs were encrypted.
+ */
+export const STALE_TX_CANCELLED: TxState = {
+  status: "cancelled",
+  reason: "the chain, account or contract changed",
+};
+
+/**
+ * Whether `state` is still in progress (a later state will follow).
+ */
+export function isTxInProgress(state: TxState | undefined): boolean {
+  return (
+    state !== undefined &&
+    (state.status === "encrypting" ||
+      state.status === "awaiting-signature" ||
+      state.status === "pending")
+  );
+}
+
+/**
+ * One-line description of `state`, e.g. for a status message.
+ */
+export function describeTxState(state: TxState): string {
+  switch (state.status) {
+    case "encrypting":
+      return "Encrypting inputs...";
+    case "awaiting-signature":
+      return "Waiting for the wallet signature...";
+    case "pending":
+      return `Wait for tx:${state.hash}...`;
+    case "replaced":
+      return `tx:${state.hash} was replaced by tx:${state.replacement}`;
+    case "mined":
+      return `tx:${state.hash} mined in block ${state.blockNumber}`;
+    case "reverted":
+      return `Transaction reverted: ${state.reason}`;
+    case "cancelled":
+      return `Transaction cancelled: ${state.reason}`;
+  }
+}
+
+/**
+ * Thrown by `trackTransaction` when the transaction did not succeed; `state` is
+ * its final (`reverted`, `cancelled` or `replaced`) state.
+ */
+export class TxFailedError extends Error {
+  state: TxState;
+  constructor(state: TxState, options?: ErrorOptions) {
+    super(describeTxState(state), options);
+    this.state = state;
+    this.name = "TxFailedError";
+  }
+}
+
+/**
+ * Custom errors of the FHEVM InputVerifier, which reverts the calling
+ * transaction when it rejects the proof of an encrypted input. They are not part
+ * of the calling contract's ABI.
+ */
+export const inputVerifierInterface = new ethers.Interface([
+  "error DeserializingInputProofFail()",
+  "error EmptyInputProof()",
+  "error InvalidChainId()",
+  "error InvalidIndex()",
+  "error InvalidInputHandle()",
+  "error InvalidHandleVersion()",
+  "error InvalidSigner(address signerRecovered)",
+  "error SignatureThresholdNotReached(uint256 numSignatures)",
+  "error ZeroSignature()",
+  "error SignaturesVerificationFailed()",
+]);
+
+type RevertReason = { reason: string; errorName?: string };
+
+/**
+ * Formats a revert decoded by ethers, e.g. `ConsentRequired(0x12...)`.
+ */
+function formatRevert(revert: { name: string; args: ArrayLike<unknown> }): RevertReason {
+  return {
+    reason: `${revert.name}(${Array.from(revert.args).map(String).join(", ")})`,
+    errorName: revert.name,
+  };
+}
+
+/**
+ * Revert reason of a failed call, decoded with the contract's custom errors
+ * (or the InputVerifier's).
+ */
+function decodeRevertReason(error: ethers.CallExceptionError, contract: ethers.Contract): RevertReason {
+  if (error.revert) {
+    return formatRevert(error.revert);
+  }
+  if (error.data) {
+    const parsed = contract.interface.parseError(error.data) ?? inputVerifierInterface.parseError(error.data);
+    if (parsed) {
+      return formatRevert(parsed);
+    }
+  }
+  return { reason: error.reason ?? error.shortMessage };
+}
+
+/**
+ * Revert reason of a transaction mined with a failed status. Receipts carry no
+ * revert data, so the transaction is replayed with `eth_call` at its block.
+ */
+async function replayRevertReason(
+  tx: ethers.TransactionResponse,
+  blockNumber: number,
+  contract: ethers.Contract
+): Promise<RevertReason> {
+  try {
+    await tx.provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      blockTag: blockNumber,
+    });
+  } catch (error) {
+    if (ethers.isError(error, "CALL_EXCEPTION")) {
+      return decodeRevertReason(error, contract);
+    }
+  }
+  return { reason: "execution reverted" };
+}
+
+/**
+ * Send a transaction with `send` and report each step of its lifecycle to
+ * `onState`, starting with `awaiting-signature`. Callers report `encrypting`
+ * themselves before encrypting the inputs.
+ *
+ * Resolves with the receipt once mined (possibly of a sped-up replacement).
+ * Throws a `TxFailedError` once the transaction reverted, was cancelled or was
+ * replaced by an unrelated one; other errors are rethrown unchanged.
+ */
+export async function trackTransaction(
+  send: () => Promise<ethers.TransactionResponse>,
+  contract: ethers.Contract,
+  onState: (state: TxState) => void
+): Promise<ethers.TransactionReceipt> {
+  const fail = (state: TxState, cause: unknown): never => {
+    onState(state);
+    throw new TxFailedError(state, { cause });
+  };
+
+  onState({ status: "awaiting-signature" });
+
+  // Responses of contract calls lose the block they were sent at, without which
+  // ethers cannot detect their replacement
+  const startBlock = await contract.runner?.provider?.getBlockNumber();
+
+  let tx: ethers.TransactionResponse;
+  try {
+    tx = await send();
+    if (startBlock !== undefined) {
+      tx = tx.replaceableTransaction(startBlock);
+    }
+  } catch (error) {
+    if (ethers.isError(error, "ACTION_REJECTED")) {
+      return fail({ status: "cancelled", reason: "rejected in the wallet" }, error);
+    }
+    // Reverts are usually detected while estimating gas, before sending
+    if (ethers.isError(error, "CALL_EXCEPTION")) {
+      return fail({ status: "reverted", ...decodeRevertReason(error, contract) }, error);
+    }
+    throw error;
+  }
+
+  onState({ status: "pending", hash: tx.hash });
+
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.wait();
+  } catch (error) {
+    if (ethers.isError(error, "TRANSACTION_REPLACED")) {
+      const replacement = error.replacement.hash;
+      if (error.reason === "cancelled") {
+        return fail({ status: "cancelled", hash: tx.hash, reason: `cancelled by tx:${replacement}` }, error);
+      }
+      onState({ status: "replaced", hash: tx.hash, replacement });
+      if (error.reason === "replaced") {
+        throw new TxFailedError({ status: "replaced", hash: tx.hash, replacement }, { cause: error });
+      }
+
+      // Sped up: the replacement performs the same call
+      if (error.receipt.status === 0) {
+        const revert = await replayRevertReason(error.replacement, error.receipt.blockNumber, contract);
+        return fail({ status: "reverted", hash: replacement, ...revert }, error);
+      }
+      receipt = error.receipt;
+    } else if (ethers.isError(error, "CALL_EXCEPTION")) {
+      const revert = error.receipt
+        ? await replayRevertReason(tx, error.receipt.blockNumber, contract)
+        : decodeRevertReason(error, contract);
+      return fail({ status: "reverted", hash: tx.hash, ...revert }, error);
+    } else {
+      throw error;
+    }
+  }
+
+  // wait() only resolves with null for 0 confirmations
+  if (!receipt) {
+    throw new Error(`No receipt for tx:${tx.hash}`);
+  }
+
+  onState({ status: "mined", hash: receipt.hash, blockNumber: receipt.blockNumber });
+  return receipt;
+}
@@ -13,6 +13,13 @@ import {
 import { FhevmInstance } from "@/fhevm/fhevmTypes";
 import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
 import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import {
+  describeTxState,
+  STALE_TX_CANCELLED,
+  trackTransaction,
+  TxFailedError,
+  TxState,
+} from "@/hooks/txLifecycle";
 
 /*
   The following two files are automatically generated by the script located at 
@@ -117,6 +124,7 @@ export const useFHECounter = (parameters: {
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
   const [isIncOrDec, setIsIncOrDec] = useState<boolean>(false);
+  const [incOrDecTx, setIncOrDecTx] = useState<TxState | undefined>(undefined);
   const [message, setMessage] = useState<string>("");
 
   const fheCounterRef = useRef<FHECounterInfoType | undefined>(undefined);
@@ -397,6 +405,7 @@ export const useFHECounter = (parameters: {
 
       isIncOrDecRef.current = true;
       setIsIncOrDec(true);
+      setIncOrDecTx({ status: "encrypting" });
       setMessage(`Start ${opMsg}...`);
 
       const run = async (op: "increment" | "decrement", valueAbs: number) => {
@@ -419,27 +428,29 @@ export const useFHECounter = (parameters: {
           const enc = await input.encrypt();
 
           if (isStale()) {
+            setIncOrDecTx(STALE_TX_CANCELLED);
             setMessage(`Ignore ${opMsg}`);
             return;
           }
 
-          setMessage(`Call ${opMsg}...`);
-
           // Call contract (increment or decrement)
-          const tx: ethers.TransactionResponse =
-            op === "increment"
-              ? await thisFheCounterContract.increment(
-                  enc.handles[0],
-                  enc.inputProof
-                )
-              : await thisFheCounterContract.decrement(
-                  enc.handles[0],
-                  enc.inputProof
-                );
-
-          setMessage(`Wait for tx:${tx.hash}...`);
-
-          const receipt = await tx.wait();
+          const receipt = await trackTransaction(
+            () =>
+              op === "increment"
+                ? thisFheCounterContract.increment(
+                    enc.handles[0],
+                    enc.inputProof
+                  )
+                : thisFheCounterContract.decrement(
+                    enc.handles[0],
+                    enc.inputProof
+                  ),
+            thisFheCounterContract,
+            (tx) => {
+              setIncOrDecTx(tx);
+              setMessage(describeTxState(tx));
+            }
+          );
 
           setMessage(`Call ${opMsg} completed status=${receipt?.status}`);
 
@@ -449,7 +460,10 @@ export const useFHECounter = (parameters: {
           }
 
           refreshCountHandle();
-        } catch {
+        } catch (error) {
+          if (!(error instanceof TxFailedError)) {
+            setIncOrDecTx(undefined);
+          }
           setMessage(`${opMsg} Failed!`);
         } finally {
           isIncOrDecRef.current = false;
@@ -486,6 +500,7 @@ export const useFHECounter = (parameters: {
     isDecrypting,
     isRefreshing,
     isIncOrDec,
+    incOrDecTx,
     isDeployed
   };
 };
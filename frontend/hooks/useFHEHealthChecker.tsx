@@ -10,9 +10,22 @@ import {
   useState,
 } from "react";
 
-import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { DecryptedResults, FhevmInstance } from "@/fhevm/fhevmTypes";
 import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
 import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import {
+  describeTxState,
+  STALE_TX_CANCELLED,
+  trackTransaction,
+  TxFailedError,
+  TxState,
+} from "@/hooks/txLifecycle";
+import {
+  chainChangedError,
+  HealthCheckerError,
+  notDeployedError,
+  toHealthCheckerError,
+} from "@/hooks/healthCheckerErrors";
 
 /*
   The following two files are automatically generated by the script located at
@@ -26,7 +39,339 @@ import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
 import { FHEHealthCheckerAddresses } from "@/abi/FHEHealthCheckerAddresses";
 import { FHEHealthCheckerABI } from "@/abi/FHEHealthCheckerABI";
 
-export type HealthStatus = "unknown" | "normal" | "low" | "high";
+/**
+ * Decrypted health status. Metric statuses are "normal", "low", "high",
+ * "criticalLow", "criticalHigh" or "invalid" (reading outside the metric's
+ * physiological bounds, rejected by the contract); the combined blood pressure category of
+ * `checkBloodPressureFull` is "normal", "elevated", "stage1", "stage2",
+ * "hypotension" or "invalid" (either reading outside the physiological bounds).
+ */
+export type HealthStatus =
+  | "unknown"
+  | "normal"
+  | "low"
+  | "high"
+  | "criticalLow"
+  | "criticalHigh"
+  | "invalid"
+  | "elevated"
+  | "stage1"
+  | "stage2"
+  | "hypotension";
+
+/**
+ * Direction of the latest reading compared to the previous one, relative to
+ * the normal range.
+ */
+export type HealthTrend = "unknown" | "stable" | "improving" | "worsening";
+
+/**
+ * Unit a metric's readings can be entered in, as published by the contract's
+ * `getInputUnits`. A reading converts to the metric's unit as
+ * `(reading + offset) * numerator / denominator`.
+ */
+export type MetricInputUnit = {
+  symbol: string;
+  offset: number;
+  numerator: number;
+  denominator: number;
+};
+
+/**
+ * Metric registered in the FHEHealthChecker metric registry, with its current
+ * default normal range and critical bands (readings below `criticalMin` or
+ * above `criticalMax` are critical). Readings outside `plausibleMin` -
+ * `plausibleMax` get the "invalid" status. Values are submitted as integers
+ * multiplied by `scale`; ranges are expressed in these scaled integers.
+ * `inputUnits` lists the accepted units, the metric's own `unit` first.
+ */
+export type HealthMetricDefinition = {
+  id: number;
+  name: string;
+  unit: string;
+  description: string;
+  scale: number;
+  min: number;
+  max: number;
+  criticalMin: number;
+  criticalMax: number;
+  plausibleMin: number;
+  plausibleMax: number;
+  inputUnits: MetricInputUnit[];
+};
+
+/**
+ * Converts a reading entered in one of the metric's input units (its own unit
+ * when `unit` is omitted) to the scaled integer that is encrypted, e.g. 97.7 °F
+ * to 365 for body temperature. Returns `undefined` for units the metric does
+ * not accept.
+ */
+export function toScaledValue(
+  metric: Pick<HealthMetricDefinition, "unit" | "scale" | "inputUnits">,
+  value: number,
+  unit?: string
+): number | undefined {
+  const inputUnit = unit
+    ? metric.inputUnits.find((u) => u.symbol === unit)
+    : { symbol: metric.unit, offset: 0, numerator: 1, denominator: 1 };
+  if (!inputUnit) {
+    return undefined;
+  }
+  const converted = ((value + inputUnit.offset) * inputUnit.numerator) / inputUnit.denominator;
+  return Math.round(converted * metric.scale);
+}
+
+/**
+ * Converts a scaled integer (range bound, decrypted reading) back to the
+ * metric's own unit, e.g. 365 to 36.5 °C.
+ */
+export function fromScaledValue(metric: Pick<HealthMetricDefinition, "scale">, value: number): number {
+  return value / metric.scale;
+}
+
+/**
+ * Profile used by the contract to select context-aware normal ranges. It is
+ * submitted encrypted, as the index of each value in `AGE_BANDS` and `SEXES`.
+ */
+export type AgeBand = "child" | "adult" | "senior";
+export type Sex = "female" | "male";
+
+export const AGE_BANDS: AgeBand[] = ["child", "adult", "senior"];
+export const SEXES: Sex[] = ["female", "male"];
+
+/**
+ * Consent terms the user agrees to before storing or sharing health data.
+ * Their keccak256 hash is the contract's initial `consentVersion`; once the
+ * owner publishes new terms the hashes differ and this text is outdated.
+ */
+export const CONSENT_TERMS =
+  "I consent to FHEHealthChecker storing my encrypted health readings and statuses on-chain, " +
+  "and to sharing them only with the delegates and verifiers I choose. " +
+  "I can withdraw this consent at any time.";
+
+/**
+ * Consent recorded on-chain for the connected user: the hash of the terms
+ * they agreed to and when (unix seconds). `timestamp` is 0 if they never
+ * consented or withdrew their consent.
+ */
+export type ConsentRecord = {
+  version: string;
+  timestamp: number;
+};
+
+/**
+ * Decrypted personal reference range for a metric, in the metric's own unit
+ * (see `fromScaledValue`). `null` means the user has no personal range and the
+ * contract defaults apply.
+ */
+export type PersonalRange = { min: number; max: number } | null;
+
+/**
+ * Delegate (e.g. a doctor) the connected user shares statuses with, the ids
+ * of the shared metrics and when the grant expires (unix seconds). Expired
+ * delegations are listed until revoked or granted again.
+ */
+export type Delegation = {
+  delegate: string;
+  metrics: number[];
+  expiresAt: number;
+};
+
+/**
+ * Population totals of a metric revealed by the contract owner through
+ * public decryption. `revealedAt` is 0 while nothing has been revealed.
+ * `submitters` is the number of distinct users who checked the metric since
+ * its last reveal request.
+ */
+export type PopulationStats = {
+  normal: number;
+  low: number;
+  high: number;
+  revealedAt: number;
+  submitters: number;
+};
+
+/**
+ * Statuses a patient shares with the connected account (clinician mode),
+ * decrypted. Shared metrics the patient never checked are "unknown".
+ */
+export type PatientStatuses = {
+  patient: string;
+  expiresAt: number;
+  statuses: Record<number, HealthStatus>;
+};
+
+/**
+ * Decrypted entry of a user's health history for a metric.
+ * `value` is the scaled reading (see `fromScaledValue`), `timestamp` the block
+ * timestamp of the check, in seconds. `rangeVersion` is the default range
+ * registry version the status was evaluated against, 0 for a personal range.
+ * `bloodPressureCategory` is the combined category of blood pressure entries
+ * checked with `checkBloodPressureFull`.
+ */
+export type HealthHistoryEntry = {
+  status: HealthStatus;
+  value: number;
+  timestamp: number;
+  rangeVersion: number;
+  bloodPressureCategory?: HealthStatus;
+};
+
+/**
+ * State of one metric for the connected user. `handle` is the latest encrypted
+ * status (loaded on connect, replaced by each check; unset while the metric has
+ * no stored status), `status` its decrypted value ("unknown" until
+ * decrypted), `tx` the lifecycle of the last check transaction including it,
+ * `error` the last check or decryption failure and `checkedAt` the block
+ * timestamp of the check that produced `handle`, in seconds.
+ */
+export type MetricState = {
+  handle?: string;
+  status: HealthStatus;
+  isChecking: boolean;
+  isDecrypting: boolean;
+  tx?: TxState;
+  error?: HealthCheckerError;
+  checkedAt?: number;
+};
+
+// Id of the built-in blood pressure metric (HealthMetric.BLOOD_PRESSURE)
+const BLOOD_PRESSURE = 0;
+
+// Largest reading that fits the contract's encrypted inputs (euint32)
+const MAX_ENCRYPTED_VALUE = 2 ** 32 - 1;
+
+const EMPTY_METRIC_STATE: MetricState = {
+  status: "unknown",
+  isChecking: false,
+  isDecrypting: false,
+};
+
+/**
+ * Number of most recent history entries fetched by `loadHealthHistory`.
+ */
+export const HEALTH_HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Status of each code, in the order of the contract's `getStatusLabels()`
+ * encoding table (normal, low, high, critical-low, critical-high, invalid).
+ */
+const HEALTH_STATUS_CODES: HealthStatus[] = ["normal", "low", "high", "criticalLow", "criticalHigh", "invalid"];
+
+/**
+ * Maps a decrypted status code to its `HealthStatus`.
+ */
+function toHealthStatus(status: bigint | number | boolean | string): HealthStatus {
+  return HEALTH_STATUS_CODES[Number(status)] ?? "unknown";
+}
+
+/**
+ * Maps a decrypted combined blood pressure category code to its `HealthStatus`.
+ */
+function toBloodPressureCategory(category: bigint | number | boolean | string): HealthStatus {
+  const categories: HealthStatus[] = ["normal", "elevated", "stage1", "stage2", "hypotension", "invalid"];
+  return categories[Number(category)] ?? "unknown";
+}
+
+/**
+ * Maps a decrypted trend code to its `HealthTrend`.
+ */
+function toHealthTrend(trend: bigint | number | boolean | string): HealthTrend {
+  const numericValue = Number(trend);
+  return numericValue === 1 ? "improving" : numericValue === 2 ? "worsening" : "stable";
+}
+
+/**
+ * The same `patch` for each of `metricIds`, see `patchMetricStates`.
+ */
+function forMetrics(
+  metricIds: number[],
+  patch: Partial<MetricState>
+): Record<number, Partial<MetricState>> {
+  return Object.fromEntries(metricIds.map((id) => [id, patch]));
+}
+
+/**
+ * `prev` without the entries of `metricIds`.
+ */
+function withoutMetrics<T>(prev: Record<number, T>, metricIds: number[]): Record<number, T> {
+  return Object.fromEntries(
+    Object.entries(prev).filter(([id]) => !metricIds.includes(Number(id)))
+  ) as Record<number, T>;
+}
+
+/**
+ * Metric ids of the bits set in a metric bitmask (grants, deletions).
+ */
+function metricIdsOfMask(mask: bigint): number[] {
+  const metricIds: number[] = [];
+  for (let id = 0; mask >> BigInt(id) > BigInt(0); id++) {
+    if ((mask >> BigInt(id)) & BigInt(1)) {
+      metricIds.push(id);
+    }
+  }
+  return metricIds;
+}
+
+/**
+ * Reads the caller's new status handles of `metricIds` once the check in
+ * `receipt` is mined. `contract` must be connected to the signer since
+ * `getHealthStatus` reads msg.sender. The decrypted statuses are reset.
+ */
+async function readCheckedMetricStates(
+  contract: ethers.Contract,
+  metricIds: number[],
+  receipt: ethers.TransactionReceipt | null
+): Promise<Record<number, Partial<MetricState>>> {
+  const [handles, block] = await Promise.all([
+    Promise.all(metricIds.map((id): Promise<string> => contract.getHealthStatus(id))),
+    receipt?.getBlock(),
+  ]);
+  return Object.fromEntries(
+    metricIds.map((id, i) => [
+      id,
+      { handle: handles[i], status: "unknown" as HealthStatus, checkedAt: block?.timestamp },
+    ])
+  );
+}
+
+/**
+ * Returns an error message if the scaled `value` cannot be encrypted as a
+ * reading. Readings outside the metric's physiological bounds are submitted
+ * anyway: the contract checks them on the encrypted value and stores the
+ * "invalid" status, which is shown once decrypted.
+ */
+function validateMetricValue(
+  metric: Pick<HealthMetricDefinition, "name" | "unit" | "scale">,
+  value: number
+): string | undefined {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_ENCRYPTED_VALUE) {
+    return `${metric.name} value must be between 0 and ${fromScaledValue(metric, MAX_ENCRYPTED_VALUE)} ${metric.unit}`;
+  }
+  return undefined;
+}
+
+type EncryptedInput = ReturnType<FhevmInstance["createEncryptedInput"]>;
+type EncryptedValues = Awaited<ReturnType<EncryptedInput["encrypt"]>>;
+
+// A transaction sent by `sendTransaction`, optionally with encrypted values
+type TransactionRequest = {
+  // Names the operation in the "cancelled" and "failed" messages
+  label: string;
+  onTxState: (tx: TxState | undefined) => void;
+  onMined: (receipt: ethers.TransactionReceipt, contract: ethers.Contract) => void | Promise<void>;
+  onError?: (error: HealthCheckerError) => void;
+} & (
+  | {
+      encrypt?: undefined;
+      send: (contract: ethers.Contract) => Promise<ethers.TransactionResponse>;
+    }
+  | {
+      // Adds the values to encrypt for the connected user
+      encrypt: (input: EncryptedInput) => void;
+      send: (contract: ethers.Contract, enc: EncryptedValues) => Promise<ethers.TransactionResponse>;
+    }
+);
 
 type FHEHealthCheckerInfoType = {
   abi: typeof FHEHealthCheckerABI.abi;
@@ -81,6 +426,9 @@ function getFHEHealthCheckerByChainId(
 export const useFHEHealthChecker = (parameters: {
   instance: FhevmInstance | undefined;
   fhevmDecryptionSignatureStorage: GenericStringStorage;
+  // Keeps the last block whose HealthStatusUpdated and HealthDataDeleted events were seen, per user.
+  // Should outlive the page (e.g. GenericStringLocalStorage) so reloads backfill missed events.
+  lastSeenBlockStorage: GenericStringStorage;
   eip1193Provider: ethers.Eip1193Provider | undefined;
   chainId: number | undefined;
   ethersSigner: ethers.JsonRpcSigner | undefined;
@@ -93,6 +441,7 @@ export const useFHEHealthChecker = (parameters: {
   const {
     instance,
     fhevmDecryptionSignatureStorage,
+    lastSeenBlockStorage,
     chainId,
     ethersSigner,
     ethersReadonlyProvider,
@@ -106,17 +455,52 @@ export const useFHEHealthChecker = (parameters: {
   // handle async operations like FHEVM encryption/decryption
   //////////////////////////////////////////////////////////////////////////////
 
-  const [healthStatus, setHealthStatus] = useState<HealthStatus>("unknown");
-  const [encryptedStatus, setEncryptedStatus] = useState<string | undefined>(undefined);
+  const [metricStates, setMetricStates] = useState<Record<number, MetricState>>({});
   const [bloodPressureRanges, setBloodPressureRanges] = useState<{min: number, max: number} | undefined>(undefined);
   const [isChecking, setIsChecking] = useState<boolean>(false);
   const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
   const [message, setMessage] = useState<string>("");
-  const [hasChecked, setHasChecked] = useState<boolean>(false);
+  const [error, setError] = useState<HealthCheckerError | undefined>(undefined);
+  const [metrics, setMetrics] = useState<HealthMetricDefinition[] | undefined>(undefined);
+  const [rangesVersion, setRangesVersion] = useState<number | undefined>(undefined);
+  const [personalRanges, setPersonalRanges] = useState<Record<number, PersonalRange>>({});
+  const [isUpdatingRange, setIsUpdatingRange] = useState<boolean>(false);
+  const [rangeTxs, setRangeTxs] = useState<Record<number, TxState>>({});
+  const [delegations, setDelegations] = useState<Delegation[] | undefined>(undefined);
+  const [delegationsVersion, setDelegationsVersion] = useState<number>(0);
+  const [isUpdatingDelegation, setIsUpdatingDelegation] = useState<boolean>(false);
+  const [delegationTx, setDelegationTx] = useState<TxState | undefined>(undefined);
+  const [populationStats, setPopulationStats] = useState<Record<number, PopulationStats>>({});
+  const [populationStatsVersion, setPopulationStatsVersion] = useState<number>(0);
+  const [statsThreshold, setStatsThreshold] = useState<number | undefined>(undefined);
+  const [patientStatuses, setPatientStatuses] = useState<PatientStatuses | undefined>(undefined);
+  const [healthScore, setHealthScore] = useState<number | null | undefined>(undefined);
+  const [bloodPressureCategory, setBloodPressureCategory] = useState<HealthStatus>("unknown");
+  const [hasProfile, setHasProfile] = useState<boolean | undefined>(undefined);
+  const [profileVersion, setProfileVersion] = useState<number>(0);
+  const [isSettingProfile, setIsSettingProfile] = useState<boolean>(false);
+  const [profileTx, setProfileTx] = useState<TxState | undefined>(undefined);
+  const [trends, setTrends] = useState<Record<number, HealthTrend>>({});
+  const [healthHistories, setHealthHistories] = useState<Record<number, HealthHistoryEntry[]>>({});
+  const [isDeletingData, setIsDeletingData] = useState<boolean>(false);
+  const [deleteDataTx, setDeleteDataTx] = useState<TxState | undefined>(undefined);
+  const [consentVersion, setConsentVersion] = useState<string | undefined>(undefined);
+  const [consent, setConsent] = useState<ConsentRecord | undefined>(undefined);
+  const [consentRecordVersion, setConsentRecordVersion] = useState<number>(0);
+  const [isUpdatingConsent, setIsUpdatingConsent] = useState<boolean>(false);
+  const [consentTx, setConsentTx] = useState<TxState | undefined>(undefined);
 
   const fheHealthCheckerRef = useRef<FHEHealthCheckerInfoType | undefined>(undefined);
   const isCheckingRef = useRef<boolean>(isChecking);
   const isDecryptingRef = useRef<boolean>(isDecrypting);
+  const isUpdatingRangeRef = useRef<boolean>(isUpdatingRange);
+  const isUpdatingDelegationRef = useRef<boolean>(isUpdatingDelegation);
+  const isSettingProfileRef = useRef<boolean>(isSettingProfile);
+  const isDeletingDataRef = useRef<boolean>(isDeletingData);
+  const isUpdatingConsentRef = useRef<boolean>(isUpdatingConsent);
+  // Metrics whose handle was written by a check, an event or a deletion since the
+  // stored handles started loading, so the load does not overwrite newer handles
+  const handlesWrittenRef = useRef<Set<number>>(new Set());
 
   //////////////////////////////////////////////////////////////////////////////
   // FHEHealthChecker
@@ -128,7 +512,9 @@ export const useFHEHealthChecker = (parameters: {
     fheHealthCheckerRef.current = c;
 
     if (!c.address && chainId !== undefined) {
-      setMessage(`FHEHealthChecker deployment not found for chainId=${chainId}.`);
+      setError(notDeployedError(chainId));
+    } else {
+      setError((prev) => (prev?.kind === "not-deployed" ? undefined : prev));
     }
 
     return c;
@@ -145,150 +531,198 @@ export const useFHEHealthChecker = (parameters: {
     return (Boolean(fheHealthChecker.address) && fheHealthChecker.address !== ethers.ZeroAddress);
   }, [fheHealthChecker]);
 
-  const canCheckBP = useMemo(() => {
-    return fheHealthChecker.address && instance && ethersSigner && !isChecking;
-  }, [fheHealthChecker.address, instance, ethersSigner, isChecking]);
-
-  const canDecryptStatus = useMemo(() => {
-    return (
-      fheHealthChecker.address &&
-      instance &&
-      ethersSigner &&
-      !isDecrypting &&
-      hasChecked &&
-      healthStatus === "unknown"
-    );
-  }, [
-    fheHealthChecker.address,
-    instance,
-    ethersSigner,
-    isDecrypting,
-    hasChecked,
-    healthStatus,
-  ]);
-
-  // Load blood pressure ranges on mount
-  useEffect(() => {
-    if (!fheHealthChecker.address || !ethersReadonlyProvider) {
-      return;
+  // Whether the connected user consented to the current terms, undefined while loading.
+  // The contract refuses checks and sharing without it.
+  const hasConsent = useMemo(() => {
+    if (consent === undefined || consentVersion === undefined) {
+      return undefined;
     }
+    return consent.timestamp > 0 && consent.version === consentVersion;
+  }, [consent, consentVersion]);
 
-    const contract = new ethers.Contract(
-      fheHealthChecker.address,
-      fheHealthChecker.abi,
-      ethersReadonlyProvider
-    );
+  // Whether some stored status is not decrypted yet (see decryptAllStatuses)
+  const canDecryptAll = useMemo(() => {
+    return Object.values(metricStates).some((state) => state.handle && state.status === "unknown");
+  }, [metricStates]);
 
-    contract.getBloodPressureRanges()
-      .then((ranges: [bigint, bigint]) => {
-        setBloodPressureRanges({
-          min: Number(ranges[0]),
-          max: Number(ranges[1])
-        });
-      })
-      .catch((e) => {
-        console.error("Failed to load blood pressure ranges:", e);
-      });
-  }, [fheHealthChecker.address, ethersReadonlyProvider, fheHealthChecker.abi]);
+  const canCheckBP = useMemo(() => {
+    return fheHealthChecker.address && instance && ethersSigner && !isChecking && hasConsent;
+  }, [fheHealthChecker.address, instance, ethersSigner, isChecking, hasConsent]);
 
   /**
-   * Check blood pressure using FHEVM encryption
+   * Dismiss the last error
    */
-  const checkBloodPressure = useCallback(
-    (bloodPressureValue: number) => {
-      if (isCheckingRef.current) {
-        return;
+  const clearError = useCallback(() => setError(undefined), []);
+
+  /**
+   * Report an operation abandoned because the chain, account or contract changed
+   * while it ran. A chain switch is also reported as a wrong-network error.
+   */
+  const reportStale = useCallback(
+    (cancelledMessage: string, thisChainId: number | undefined) => {
+      setMessage(cancelledMessage);
+      if (!sameChain.current(thisChainId)) {
+        setError(chainChangedError());
       }
+    },
+    [sameChain]
+  );
 
+  /**
+   * Decrypt FHEHealthChecker `handles` for the connected user in a single
+   * `userDecrypt` call, with the stored (or a newly signed) decryption
+   * signature. Resolves `undefined`, with the reason in `message`, when no
+   * signature could be built or the contract, chain or signer changed meanwhile.
+   */
+  const decryptHandles = useCallback(
+    async (
+      handles: string[],
+      progressMessage = "Calling FHEVM userDecrypt..."
+    ): Promise<DecryptedResults | undefined> => {
       if (!fheHealthChecker.address || !instance || !ethersSigner) {
-        return;
+        return undefined;
+      }
+
+      const thisChainId = chainId;
+      const thisFheHealthCheckerAddress = fheHealthChecker.address;
+      const thisEthersSigner = ethersSigner;
+
+      const isStale = () =>
+        thisFheHealthCheckerAddress !== fheHealthCheckerRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisEthersSigner);
+
+      const sig: FhevmDecryptionSignature | null =
+        await FhevmDecryptionSignature.loadOrSign(
+          instance,
+          [thisFheHealthCheckerAddress],
+          thisEthersSigner,
+          fhevmDecryptionSignatureStorage
+        );
+
+      if (!sig) {
+        setMessage("Unable to build FHEVM decryption signature");
+        return undefined;
+      }
+
+      if (isStale()) {
+        reportStale("Decryption cancelled", thisChainId);
+        return undefined;
+      }
+
+      setMessage(progressMessage);
+
+      const res = await instance.userDecrypt(
+        handles.map((handle) => ({ handle, contractAddress: thisFheHealthCheckerAddress })),
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+
+      if (isStale()) {
+        reportStale("Decryption cancelled", thisChainId);
+        return undefined;
       }
 
-      if (bloodPressureValue <= 0 || bloodPressureValue > 300) {
-        setMessage("Blood pressure value must be between 1 and 300 mmHg");
+      return res;
+    },
+    [
+      fhevmDecryptionSignatureStorage,
+      ethersSigner,
+      fheHealthChecker.address,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+      reportStale,
+    ]
+  );
+
+  /**
+   * Send an FHEHealthChecker transaction from the connected signer and follow
+   * it with `trackTransaction`, reporting each state to `onTxState` and in
+   * `message`. With `encrypt`, the values it adds are encrypted first and
+   * passed to `send`. `onMined` runs once the transaction is mined, unless the
+   * contract, chain or signer changed meanwhile ("<label> cancelled"). Failures
+   * set `error` and "<label> failed"; failed transactions keep their final
+   * state, other failures clear it with `onTxState(undefined)`.
+   */
+  const sendTransaction = useCallback(
+    async (request: TransactionRequest): Promise<void> => {
+      if (!fheHealthChecker.address || !ethersSigner) {
         return;
       }
 
       const thisChainId = chainId;
       const thisFheHealthCheckerAddress = fheHealthChecker.address;
       const thisEthersSigner = ethersSigner;
+      const thisInstance = instance;
       const thisFheHealthCheckerContract = new ethers.Contract(
         thisFheHealthCheckerAddress,
         fheHealthChecker.abi,
         thisEthersSigner
       );
+      const { label, onTxState, onMined, onError } = request;
 
-      isCheckingRef.current = true;
-      setIsChecking(true);
-      setMessage(`Checking blood pressure: ${bloodPressureValue} mmHg...`);
-
-      const run = async () => {
-        // let the browser repaint before running 'input.encrypt()' (CPU-costly)
-        await new Promise((resolve) => setTimeout(resolve, 100));
+      const isStale = () =>
+        thisFheHealthCheckerAddress !== fheHealthCheckerRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisEthersSigner);
 
-        const isStale = () =>
-          thisFheHealthCheckerAddress !== fheHealthCheckerRef.current?.address ||
-          !sameChain.current(thisChainId) ||
-          !sameSigner.current(thisEthersSigner);
+      try {
+        let send: () => Promise<ethers.TransactionResponse>;
+        if (request.encrypt === undefined) {
+          const sendPlain = request.send;
+          send = () => sendPlain(thisFheHealthCheckerContract);
+        } else {
+          if (!thisInstance) {
+            return;
+          }
+          onTxState({ status: "encrypting" });
+          // let the browser repaint before running 'input.encrypt()' (CPU-costly)
+          await new Promise((resolve) => setTimeout(resolve, 100));
 
-        try {
-          // Create encrypted input
-          const input = instance.createEncryptedInput(
+          const input = thisInstance.createEncryptedInput(
             thisFheHealthCheckerAddress,
             thisEthersSigner.address
           );
-          input.add32(bloodPressureValue);
-
-          // Encrypt (CPU-intensive)
+          request.encrypt(input);
           const enc = await input.encrypt();
 
           if (isStale()) {
-            setMessage("Check cancelled");
-            return;
-          }
-
-          setMessage(`Calling checkBloodPressure...`);
-
-          // Call contract
-          const tx: ethers.TransactionResponse =
-            await thisFheHealthCheckerContract.checkBloodPressure(
-              enc.handles[0],
-              enc.inputProof
-            );
-
-          setMessage(`Wait for tx:${tx.hash}...`);
-
-          const receipt = await tx.wait();
-
-          setMessage(`Check completed status=${receipt?.status}`);
-
-          if (isStale()) {
-            setMessage("Check cancelled");
+            onTxState(STALE_TX_CANCELLED);
+            reportStale(`${label} cancelled`, thisChainId);
             return;
           }
+          const sendEncrypted = request.send;
+          send = () => sendEncrypted(thisFheHealthCheckerContract, enc);
+        }
 
-          // Get the encrypted health status from the contract
-          const fheHealthCheckerContract = new ethers.Contract(
-            thisFheHealthCheckerAddress,
-            fheHealthChecker.abi,
-            ethersReadonlyProvider
-          );
-
-          const encryptedResult = await fheHealthCheckerContract.getHealthStatus();
-          setEncryptedStatus(encryptedResult);
-          setHasChecked(true);
-
-          setMessage("Health check completed! Click 'Decrypt Result' to see the status.");
+        const receipt = await trackTransaction(send, thisFheHealthCheckerContract, (tx) => {
+          onTxState(tx);
+          setMessage(describeTxState(tx));
+        });
 
-        } catch (error) {
-          setMessage(`Check failed: ${error}`);
-        } finally {
-          isCheckingRef.current = false;
-          setIsChecking(false);
+        if (isStale()) {
+          reportStale(`${label} cancelled`, thisChainId);
+          return;
         }
-      };
 
-      run();
+        await onMined(receipt, thisFheHealthCheckerContract);
+      } catch (error) {
+        const healthError = toHealthCheckerError(error);
+        setError(healthError);
+        onError?.(healthError);
+        // Failed transactions keep their final tx state
+        if (!(error instanceof TxFailedError)) {
+          onTxState(undefined);
+        }
+        setMessage(`${label} failed: ${healthError.message}`);
+      }
     },
     [
       ethersSigner,
@@ -298,93 +732,1509 @@ export const useFHEHealthChecker = (parameters: {
       chainId,
       sameChain,
       sameSigner,
+      reportStale,
     ]
   );
 
   /**
-   * Decrypt health status result
+   * State of a metric, empty until it is checked
    */
-  const decryptHealthStatus = useCallback(() => {
-    if (isDecryptingRef.current) {
-      return;
-    }
-
-    if (!fheHealthChecker.address || !instance || !ethersSigner) {
-      return;
-    }
+  const getMetricState = useCallback(
+    (metricId: number): MetricState => metricStates[metricId] ?? EMPTY_METRIC_STATE,
+    [metricStates]
+  );
 
-    if (!encryptedStatus) {
-      setMessage("No encrypted status to decrypt");
-      return;
-    }
+  // Merge each patch into the state of its metric
+  const patchMetricStates = useCallback(
+    (patches: Record<number, Partial<MetricState>>) => {
+      for (const [id, patch] of Object.entries(patches)) {
+        if ("handle" in patch) {
+          handlesWrittenRef.current.add(Number(id));
+        }
+      }
+      setMetricStates((prev) => {
+        const next = { ...prev };
+        for (const [id, patch] of Object.entries(patches)) {
+          next[Number(id)] = { ...(prev[Number(id)] ?? EMPTY_METRIC_STATE), ...patch };
+        }
+        return next;
+      });
+    },
+    []
+  );
 
-    if (healthStatus !== "unknown") {
+  // Load blood pressure ranges on mount
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersReadonlyProvider) {
       return;
     }
 
-    const thisChainId = chainId;
-    const thisFheHealthCheckerAddress = fheHealthChecker.address;
-    const thisEthersSigner = ethersSigner;
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersReadonlyProvider
+    );
 
-    isDecryptingRef.current = true;
+    contract.getBloodPressureRanges()
+      .then((ranges: [bigint, bigint]) => {
+        setBloodPressureRanges({
+          min: Number(ranges[0]),
+          max: Number(ranges[1])
+        });
+      })
+      .catch((e) => {
+        console.error("Failed to load blood pressure ranges:", e);
+      });
+  }, [fheHealthChecker.address, ethersReadonlyProvider, fheHealthChecker.abi]);
+
+  // Discover the registered metrics and the current range registry version on mount
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersReadonlyProvider) {
+      setMetrics(undefined);
+      return;
+    }
+
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersReadonlyProvider
+    );
+
+    Promise.all([contract.getMetrics(), contract.rangesVersion()])
+      .then(async ([definitions, version]) => {
+        // Input units of every metric, its own unit first
+        const inputUnits: MetricInputUnit[][] = await Promise.all(
+          definitions.map(async (d: { id: bigint }) =>
+            (await contract.getInputUnits(d.id)).map(
+              (u: { symbol: string; offset: bigint; numerator: bigint; denominator: bigint }) => ({
+                symbol: u.symbol,
+                offset: Number(u.offset),
+                numerator: Number(u.numerator),
+                denominator: Number(u.denominator),
+              })
+            )
+          )
+        );
+        setMetrics(
+          definitions.map(
+            (
+              d: {
+                id: bigint;
+                name: string;
+                unit: string;
+                description: string;
+                scale: bigint;
+                min: bigint;
+                max: bigint;
+                criticalMin: bigint;
+                criticalMax: bigint;
+                plausibleMin: bigint;
+                plausibleMax: bigint;
+              },
+              i: number
+            ) => ({
+              id: Number(d.id),
+              name: d.name,
+              unit: d.unit,
+              description: d.description,
+              scale: Number(d.scale),
+              min: Number(d.min),
+              max: Number(d.max),
+              criticalMin: Number(d.criticalMin),
+              criticalMax: Number(d.criticalMax),
+              plausibleMin: Number(d.plausibleMin),
+              plausibleMax: Number(d.plausibleMax),
+              inputUnits: inputUnits[i],
+            })
+          )
+        );
+        setRangesVersion(Number(version));
+      })
+      .catch((e) => {
+        console.error("Failed to load health metrics:", e);
+      });
+  }, [fheHealthChecker.address, ethersReadonlyProvider, fheHealthChecker.abi]);
+
+  // Read the connected user's latest status handle of every registered metric, so
+  // statuses stored in earlier sessions can be decrypted. Zero handles (metric never
+  // checked or deleted) are left out, and metrics whose handle was written while
+  // loading keep their newer state.
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersSigner || !metrics) {
+      setMetricStates({});
+      return;
+    }
+
+    // getHealthStatus() reads msg.sender, so the calls must be sent from the signer
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersSigner
+    );
+
+    let cancelled = false;
+    const written = new Set<number>();
+    handlesWrittenRef.current = written;
+    Promise.all(metrics.map((m): Promise<string> => contract.getHealthStatus(m.id)))
+      .then((handles) => {
+        if (cancelled) {
+          return;
+        }
+        setMetricStates((prev) =>
+          Object.fromEntries(
+            metrics.map((m, i) => [
+              m.id,
+              written.has(m.id)
+                ? (prev[m.id] ?? EMPTY_METRIC_STATE)
+                : handles[i] === ethers.ZeroHash
+                  ? EMPTY_METRIC_STATE
+                  : { ...EMPTY_METRIC_STATE, handle: handles[i] },
+            ])
+          )
+        );
+      })
+      .catch((e) => {
+        console.error("Failed to load health statuses:", e);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fheHealthChecker.address, fheHealthChecker.abi, ethersSigner, metrics]);
+
+  // Drop the decrypted values derived from the deleted data of `metricIds`. The
+  // profile (if deleted with the data), delegations and score change too, so they
+  // are read again.
+  const dropDeletedData = useCallback((metricIds: number[]) => {
+    setTrends((prev) => withoutMetrics(prev, metricIds));
+    setHealthHistories((prev) => withoutMetrics(prev, metricIds));
+    setPersonalRanges((prev) => ({
+      ...prev,
+      ...Object.fromEntries(metricIds.map((id) => [id, null])),
+    }));
+    if (metricIds.includes(BLOOD_PRESSURE)) {
+      setBloodPressureCategory("unknown");
+    }
+    setHealthScore(undefined);
+    setProfileVersion((v) => v + 1);
+    setDelegationsVersion((v) => v + 1);
+  }, []);
+
+  // Follow the connected user's HealthStatusUpdated and HealthDataDeleted events: a
+  // status written or deleted from another tab, device or the Hardhat tasks replaces
+  // the cached handle and drops its decrypted values. The listeners are attached
+  // first, then the events missed while disconnected are backfilled from the last
+  // seen block up to the block the listeners started at. An event received both ways
+  // is applied once.
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersReadonlyProvider || !ethersSigner || chainId === undefined) {
+      return;
+    }
+
+    const user = ethersSigner.address;
+    const readonlyContract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersReadonlyProvider
+    );
+    // getHealthStatus() reads msg.sender, so the call must be sent from the signer
+    const signerContract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersSigner
+    );
+    const updatedFilter = readonlyContract.filters.HealthStatusUpdated(user);
+    const deletedFilter = readonlyContract.filters.HealthDataDeleted(user);
+    const storageKey = `FHEHealthChecker.lastSeenBlock.${chainId}.${fheHealthChecker.address}.${user}`;
+
+    let cancelled = false;
+    let lastSeenBlock = 0;
+    // Live events may arrive before the backfill is complete; the last seen block
+    // only moves past the backfilled range once it is
+    let backfilled = false;
+    let pendingSeenBlock = 0;
+    const applied = new Set<string>();
+
+    const markSeen = async (blockNumber: number) => {
+      if (!backfilled) {
+        pendingSeenBlock = Math.max(pendingSeenBlock, blockNumber);
+        return;
+      }
+      if (blockNumber > lastSeenBlock) {
+        lastSeenBlock = blockNumber;
+        await lastSeenBlockStorage.setItem(storageKey, String(blockNumber));
+      }
+    };
+
+    const refreshStatus = async (metricId: number, log: ethers.EventLog) => {
+      const [handle, block]: [string, ethers.Block] = await Promise.all([
+        signerContract.getHealthStatus(metricId),
+        log.getBlock(),
+      ]);
+      if (cancelled) {
+        return;
+      }
+
+      // Own checks already stored the new handle, keep its decrypted value
+      handlesWrittenRef.current.add(metricId);
+      setMetricStates((prev) =>
+        prev[metricId]?.handle === handle
+          ? prev
+          : {
+              ...prev,
+              [metricId]: {
+                ...(prev[metricId] ?? EMPTY_METRIC_STATE),
+                handle: handle === ethers.ZeroHash ? undefined : handle,
+                status: "unknown",
+                checkedAt: block.timestamp,
+              },
+            }
+      );
+    };
+
+    const onEvent = async (log: ethers.EventLog) => {
+      const key = `${log.transactionHash}:${log.index}`;
+      if (applied.has(key)) {
+        return;
+      }
+      applied.add(key);
+
+      // The latest handle is read back in both cases, so events applied out of
+      // order still leave the current status
+      if (log.eventName === "HealthDataDeleted") {
+        const metricIds = metricIdsOfMask(BigInt(log.args.metrics));
+        if (cancelled) {
+          return;
+        }
+        dropDeletedData(metricIds);
+        await Promise.all(metricIds.map((id) => refreshStatus(id, log)));
+      } else {
+        await refreshStatus(Number(log.args.metric), log);
+      }
+      await markSeen(log.blockNumber);
+    };
+
+    // Subscribed with a topic filter, so the listener only receives the payload
+    const listener = (payload: ethers.ContractEventPayload) => {
+      onEvent(payload.log).catch((e) => {
+        console.error("Failed to apply health status update:", e);
+      });
+    };
+
+    const unsubscribe = async () => {
+      await readonlyContract.off(updatedFilter, listener);
+      await readonlyContract.off(deletedFilter, listener);
+    };
+
+    const follow = async () => {
+      const provider = readonlyContract.runner?.provider;
+      if (!provider) {
+        return;
+      }
+
+      await readonlyContract.on(updatedFilter, listener);
+      await readonlyContract.on(deletedFilter, listener);
+      if (cancelled) {
+        await unsubscribe();
+        return;
+      }
+
+      const subscribedBlock = await provider.getBlockNumber();
+      const stored = await lastSeenBlockStorage.getItem(storageKey);
+
+      // A stored block past the head means the local chain was reset: nothing to backfill
+      if (stored !== null && Number(stored) < subscribedBlock) {
+        const fromBlock = Number(stored) + 1;
+        const missed = (
+          await Promise.all([
+            readonlyContract.queryFilter(updatedFilter, fromBlock, subscribedBlock),
+            readonlyContract.queryFilter(deletedFilter, fromBlock, subscribedBlock),
+          ])
+        )
+          .flat()
+          .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+        for (const log of missed) {
+          if (cancelled) {
+            return;
+          }
+          if (log instanceof ethers.EventLog) {
+            await onEvent(log);
+          }
+        }
+      }
+      if (cancelled) {
+        return;
+      }
+
+      backfilled = true;
+      await markSeen(Math.max(subscribedBlock, pendingSeenBlock));
+    };
+
+    follow().catch((e) => {
+      console.error("Failed to follow health status updates:", e);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe().catch(() => {});
+    };
+  }, [
+    fheHealthChecker.address,
+    fheHealthChecker.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    lastSeenBlockStorage,
+    dropDeletedData,
+  ]);
+
+  /**
+   * Check blood pressure using FHEVM encryption
+   */
+  const checkBloodPressure = useCallback(
+    (bloodPressureValue: number) => {
+      if (isCheckingRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const metric = metrics?.find((m) => m.id === BLOOD_PRESSURE);
+      if (!metric) {
+        setMessage("Unknown metric");
+        return;
+      }
+
+      const invalid = validateMetricValue(metric, bloodPressureValue);
+      if (invalid) {
+        setMessage(invalid);
+        return;
+      }
+
+      isCheckingRef.current = true;
+      setIsChecking(true);
+      patchMetricStates(forMetrics([BLOOD_PRESSURE], { isChecking: true, error: undefined }));
+      setMessage(`Checking blood pressure: ${bloodPressureValue} mmHg...`);
+
+      sendTransaction({
+        label: "Check",
+        encrypt: (input) => input.add32(bloodPressureValue),
+        send: (contract, enc) => contract.checkBloodPressure(enc.handles[0], enc.inputProof),
+        onTxState: (tx) => patchMetricStates(forMetrics([BLOOD_PRESSURE], { tx })),
+        onError: (error) => patchMetricStates(forMetrics([BLOOD_PRESSURE], { error })),
+        onMined: async (receipt, contract) => {
+          // Get the new encrypted health status from the contract
+          patchMetricStates(await readCheckedMetricStates(contract, [BLOOD_PRESSURE], receipt));
+          setMessage("Health check completed! Click 'Decrypt Result' to see the status.");
+        },
+      }).finally(() => {
+        isCheckingRef.current = false;
+        setIsChecking(false);
+        patchMetricStates(forMetrics([BLOOD_PRESSURE], { isChecking: false }));
+      });
+    },
+    [
+      ethersSigner,
+      fheHealthChecker.address,
+      instance,
+      metrics,
+      sendTransaction,
+      patchMetricStates,
+    ]
+  );
+
+  /**
+   * Check systolic and diastolic blood pressure together. Both readings share
+   * one encrypted input; the systolic one also updates the blood pressure
+   * status. The combined category is decrypted with `decryptBloodPressureCategory`.
+   */
+  const checkBloodPressureFull = useCallback(
+    (systolic: number, diastolic: number) => {
+      if (isCheckingRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const metric = metrics?.find((m) => m.id === BLOOD_PRESSURE);
+      if (!metric) {
+        setMessage("Unknown metric");
+        return;
+      }
+
+      // Diastolic readings are encrypted in the same unit as systolic ones
+      const invalid = validateMetricValue(metric, systolic) ?? validateMetricValue(metric, diastolic);
+      if (invalid) {
+        setMessage(invalid);
+        return;
+      }
+
+      isCheckingRef.current = true;
+      setIsChecking(true);
+      patchMetricStates(forMetrics([BLOOD_PRESSURE], { isChecking: true, error: undefined }));
+      setMessage(`Checking blood pressure: ${systolic}/${diastolic} mmHg...`);
+
+      sendTransaction({
+        label: "Check",
+        encrypt: (input) => {
+          input.add32(systolic);
+          input.add32(diastolic);
+        },
+        send: (contract, enc) =>
+          contract.checkBloodPressureFull(enc.handles[0], enc.handles[1], enc.inputProof),
+        onTxState: (tx) => patchMetricStates(forMetrics([BLOOD_PRESSURE], { tx })),
+        onError: (error) => patchMetricStates(forMetrics([BLOOD_PRESSURE], { error })),
+        onMined: async (receipt, contract) => {
+          // The systolic reading also replaced the blood pressure status
+          patchMetricStates(await readCheckedMetricStates(contract, [BLOOD_PRESSURE], receipt));
+          setBloodPressureCategory("unknown");
+          setMessage(
+            `Check completed status=${receipt.status}. Decrypt the category to see your blood pressure stage.`
+          );
+        },
+      }).finally(() => {
+        isCheckingRef.current = false;
+        setIsChecking(false);
+        patchMetricStates(forMetrics([BLOOD_PRESSURE], { isChecking: false }));
+      });
+    },
+    [
+      ethersSigner,
+      fheHealthChecker.address,
+      instance,
+      metrics,
+      sendTransaction,
+      patchMetricStates,
+    ]
+  );
+
+  /**
+   * Decrypt the combined blood pressure category of the latest `checkBloodPressureFull`
+   */
+  const decryptBloodPressureCategory = useCallback(() => {
+    if (isDecryptingRef.current) {
+      return;
+    }
+
+    if (!fheHealthChecker.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisFheHealthCheckerAddress = fheHealthChecker.address;
+    const thisEthersSigner = ethersSigner;
+    // getBloodPressureCategory() reads msg.sender, so the call must be sent from the signer
+    const thisFheHealthCheckerContract = new ethers.Contract(
+      thisFheHealthCheckerAddress,
+      fheHealthChecker.abi,
+      thisEthersSigner
+    );
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Decrypting blood pressure category...");
+
+    const run = async () => {
+      try {
+        const categoryHandle: string = await thisFheHealthCheckerContract.getBloodPressureCategory();
+
+        if (categoryHandle === ethers.ZeroHash) {
+          setBloodPressureCategory("unknown");
+          setMessage("No systolic/diastolic check recorded yet");
+          return;
+        }
+
+        const res = await decryptHandles([categoryHandle]);
+        if (!res) {
+          return;
+        }
+
+        const category = toBloodPressureCategory(res[categoryHandle]);
+        setBloodPressureCategory(category);
+        setMessage(`Blood pressure category: ${category.toUpperCase()}`);
+      } catch (error) {
+        const healthError = toHealthCheckerError(error);
+        setError(healthError);
+        setMessage(`Decryption failed: ${healthError.message}`);
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+      }
+    };
+
+    run();
+  }, [
+    decryptHandles,
+    ethersSigner,
+    fheHealthChecker.address,
+    fheHealthChecker.abi,
+    instance,
+  ]);
+
+  /**
+   * Decrypt the latest status of a metric checked by the connected user
+   */
+  const decryptHealthStatus = useCallback((metricId: number) => {
+    if (isDecryptingRef.current) {
+      return;
+    }
+
+    if (!fheHealthChecker.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisHandle = metricStates[metricId]?.handle;
+    if (!thisHandle || thisHandle === ethers.ZeroHash) {
+      setMessage("No encrypted status to decrypt");
+      return;
+    }
+
+
+    isDecryptingRef.current = true;
     setIsDecrypting(true);
+    patchMetricStates(forMetrics([metricId], { isDecrypting: true, error: undefined }));
     setMessage("Decrypting health status...");
 
-    const run = async () => {
-      const isStale = () =>
-        thisFheHealthCheckerAddress !== fheHealthCheckerRef.current?.address ||
-        !sameChain.current(thisChainId) ||
-        !sameSigner.current(thisEthersSigner);
+    const run = async () => {
+      try {
+        const res = await decryptHandles([thisHandle]);
+        if (!res) {
+          return;
+        }
+
+        const statusText = toHealthStatus(res[thisHandle]);
+
+        // A check may have replaced the handle while decrypting
+        setMetricStates((prev) =>
+          prev[metricId]?.handle === thisHandle
+            ? { ...prev, [metricId]: { ...prev[metricId], status: statusText } }
+            : prev
+        );
+        setMessage(`Health status: ${statusText.toUpperCase()}`);
+
+      } catch (error) {
+        const healthError = toHealthCheckerError(error);
+        setError(healthError);
+        patchMetricStates(forMetrics([metricId], { error: healthError }));
+        setMessage(`Decryption failed: ${healthError.message}`);
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+        patchMetricStates(forMetrics([metricId], { isDecrypting: false }));
+      }
+    };
+
+    run();
+  }, [
+    decryptHandles,
+    ethersSigner,
+    fheHealthChecker.address,
+    instance,
+    metricStates,
+    patchMetricStates,
+  ]);
+
+  /**
+   * Decrypt every status that has a handle but is not decrypted yet, in a single
+   * `userDecrypt` call with one decryption signature.
+   */
+  const decryptAllStatuses = useCallback(() => {
+    if (isDecryptingRef.current) {
+      return;
+    }
+
+    if (!fheHealthChecker.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisHandles = Object.entries(metricStates)
+      .filter(([, state]) => state.handle && state.status === "unknown")
+      .map(([id, state]) => ({ metricId: Number(id), handle: state.handle as string }));
+    if (thisHandles.length === 0) {
+      setMessage("No encrypted statuses to decrypt");
+      return;
+    }
+    const metricIds = thisHandles.map((h) => h.metricId);
+
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    patchMetricStates(forMetrics(metricIds, { isDecrypting: true, error: undefined }));
+    setMessage(`Decrypting ${thisHandles.length} health statuses...`);
+
+    const run = async () => {
+      try {
+        const res = await decryptHandles(thisHandles.map((h) => h.handle));
+        if (!res) {
+          return;
+        }
+
+        // Checks may have replaced some handles while decrypting
+        setMetricStates((prev) => {
+          const next = { ...prev };
+          for (const { metricId, handle } of thisHandles) {
+            if (prev[metricId]?.handle === handle) {
+              next[metricId] = { ...prev[metricId], status: toHealthStatus(res[handle]) };
+            }
+          }
+          return next;
+        });
+        setMessage(`Decrypted ${thisHandles.length} health statuses`);
+      } catch (error) {
+        const healthError = toHealthCheckerError(error);
+        setError(healthError);
+        patchMetricStates(forMetrics(metricIds, { error: healthError }));
+        setMessage(`Decryption failed: ${healthError.message}`);
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+        patchMetricStates(forMetrics(metricIds, { isDecrypting: false }));
+      }
+    };
+
+    run();
+  }, [
+    decryptHandles,
+    ethersSigner,
+    fheHealthChecker.address,
+    instance,
+    metricStates,
+    patchMetricStates,
+  ]);
+
+  /**
+   * Check one metric. `reading` is entered in `unit` (one of the metric's
+   * `inputUnits`, its own unit by default) and converted to the scaled
+   * integer before encryption.
+   */
+  const checkHealthMetric = useCallback(
+    async (metricId: number, reading: number, unit?: string) => {
+      if (isCheckingRef.current) {
+        return;
+      }
+
+      if (!instance || !fheHealthChecker.address || !ethersSigner) {
+        setMessage("FHEVM instance or contract not ready");
+        return;
+      }
+
+      const metric = metrics?.find((m) => m.id === metricId);
+      if (!metric) {
+        setMessage("Unknown metric");
+        return;
+      }
+
+      const value = toScaledValue(metric, reading, unit);
+      if (value === undefined) {
+        setMessage(`${metric.name} cannot be entered in ${unit}`);
+        return;
+      }
+
+      const invalid = validateMetricValue(metric, value);
+      if (invalid) {
+        setMessage(invalid);
+        return;
+      }
+
+      isCheckingRef.current = true;
+      setIsChecking(true);
+      patchMetricStates(forMetrics([metricId], { isChecking: true, error: undefined }));
+      setMessage(`Checking ${metric.name}: ${reading} ${unit ?? metric.unit}...`);
+
+      sendTransaction({
+        label: "Check",
+        encrypt: (input) => input.add32(value),
+        send: (contract, enc) => contract.checkMetric(metricId, enc.handles[0], enc.inputProof),
+        onTxState: (tx) => patchMetricStates(forMetrics([metricId], { tx })),
+        onError: (error) => patchMetricStates(forMetrics([metricId], { error })),
+        onMined: async (receipt, contract) => {
+          // Get the new encrypted health status from the contract
+          patchMetricStates(await readCheckedMetricStates(contract, [metricId], receipt));
+          setMessage("Health check completed! Click 'Decrypt Result' to see the status.");
+        },
+      }).finally(() => {
+        isCheckingRef.current = false;
+        setIsChecking(false);
+        patchMetricStates(forMetrics([metricId], { isChecking: false }));
+      });
+    },
+    [
+      ethersSigner,
+      fheHealthChecker.address,
+      instance,
+      metrics,
+      sendTransaction,
+      patchMetricStates,
+    ]
+  );
+
+  /**
+   * Check several metrics at once: all `readings` (keyed by metric id, entered
+   * in the unit given in `units`, the metric's own unit otherwise) are scaled
+   * and packed into a single encrypted input and submitted with one
+   * `checkMetrics` transaction. Each metric's status can then be decrypted
+   * individually.
+   */
+  const checkAllMetrics = useCallback(
+    async (readings: Record<number, number>, units: Record<number, string> = {}) => {
+      if (isCheckingRef.current) {
+        return;
+      }
+
+      if (!instance || !fheHealthChecker.address || !ethersSigner) {
+        setMessage("FHEVM instance or contract not ready");
+        return;
+      }
+
+      const metricIds = Object.keys(readings).map(Number);
+      if (metricIds.length === 0) {
+        setMessage("Enter at least one value to check");
+        return;
+      }
+
+      const values: Record<number, number> = {};
+      for (const metricId of metricIds) {
+        const metric = metrics?.find((m) => m.id === metricId);
+        if (!metric) {
+          setMessage("Unknown metric");
+          return;
+        }
+        const value = toScaledValue(metric, readings[metricId], units[metricId]);
+        if (value === undefined) {
+          setMessage(`${metric.name} cannot be entered in ${units[metricId]}`);
+          return;
+        }
+        values[metricId] = value;
+        const invalid = validateMetricValue(metric, value);
+        if (invalid) {
+          setMessage(invalid);
+          return;
+        }
+      }
+
+      isCheckingRef.current = true;
+      setIsChecking(true);
+      patchMetricStates(forMetrics(metricIds, { isChecking: true, error: undefined }));
+      setMessage(`Checking ${metricIds.length} metrics...`);
+
+      sendTransaction({
+        label: "Check",
+        encrypt: (input) => {
+          // One encrypted input (and one input proof) for all values
+          for (const metricId of metricIds) {
+            input.add32(values[metricId]);
+          }
+        },
+        send: (contract, enc) => contract.checkMetrics(metricIds, enc.handles, enc.inputProof),
+        onTxState: (tx) => patchMetricStates(forMetrics(metricIds, { tx })),
+        onError: (error) => patchMetricStates(forMetrics(metricIds, { error })),
+        onMined: async (receipt, contract) => {
+          patchMetricStates(await readCheckedMetricStates(contract, metricIds, receipt));
+          setMessage(
+            `Batch health check completed status=${receipt.status}! Decrypt each metric to see its status.`
+          );
+        },
+      }).finally(() => {
+        isCheckingRef.current = false;
+        setIsChecking(false);
+        patchMetricStates(forMetrics(metricIds, { isChecking: false }));
+      });
+    },
+    [
+      ethersSigner,
+      fheHealthChecker.address,
+      instance,
+      metrics,
+      sendTransaction,
+      patchMetricStates,
+    ]
+  );
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Personal reference ranges
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Encrypt and store a personal reference range for `metricId`. Both bounds
+   * are entered in `unit` (one of the metric's `inputUnits`, its own unit by
+   * default) and converted to scaled integers before encryption.
+   *
+   * Both bounds are packed into a single encrypted input (one input proof).
+   * The cached decrypted range for the metric is dropped, call
+   * `decryptPersonalRange` to read it back from the contract.
+   */
+  const setPersonalRange = useCallback(
+    (metricId: number, minReading: number, maxReading: number, unit?: string) => {
+      if (isUpdatingRangeRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const metric = metrics?.find((m) => m.id === metricId);
+      if (!metric) {
+        setMessage("Unknown metric");
+        return;
+      }
+
+      const min = toScaledValue(metric, minReading, unit);
+      const max = toScaledValue(metric, maxReading, unit);
+      if (min === undefined || max === undefined) {
+        setMessage(`${metric.name} cannot be entered in ${unit}`);
+        return;
+      }
+
+      if (min < 0 || min > max) {
+        setMessage("Personal range bounds must be positive with min <= max");
+        return;
+      }
+
+      isUpdatingRangeRef.current = true;
+      setIsUpdatingRange(true);
+      setMessage(`Encrypting personal range ${minReading} - ${maxReading} ${unit ?? metric.unit}...`);
+
+      sendTransaction({
+        label: "Personal range update",
+        encrypt: (input) => {
+          input.add32(min);
+          input.add32(max);
+        },
+        send: (contract, enc) =>
+          contract.setPersonalRange(metricId, enc.handles[0], enc.handles[1], enc.inputProof),
+        onTxState: (tx) =>
+          setRangeTxs((prev) => (tx ? { ...prev, [metricId]: tx } : withoutMetrics(prev, [metricId]))),
+        onMined: (receipt) => {
+          setPersonalRanges((prev) => withoutMetrics(prev, [metricId]));
+          setMessage(`Personal range stored status=${receipt.status}`);
+        },
+      }).finally(() => {
+        isUpdatingRangeRef.current = false;
+        setIsUpdatingRange(false);
+      });
+    },
+    [ethersSigner, fheHealthChecker.address, instance, metrics, sendTransaction]
+  );
+
+  /**
+   * Remove the personal reference range for `metricId` (contract defaults apply again).
+   */
+  const clearPersonalRange = useCallback(
+    (metricId: number) => {
+      if (isUpdatingRangeRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !ethersSigner) {
+        return;
+      }
+
+      isUpdatingRangeRef.current = true;
+      setIsUpdatingRange(true);
+      setMessage("Calling clearPersonalRange...");
+
+      sendTransaction({
+        label: "Personal range update",
+        send: (contract) => contract.clearPersonalRange(metricId),
+        onTxState: (tx) =>
+          setRangeTxs((prev) => (tx ? { ...prev, [metricId]: tx } : withoutMetrics(prev, [metricId]))),
+        onMined: (receipt) => {
+          setPersonalRanges((prev) => ({ ...prev, [metricId]: null }));
+          setMessage(`Personal range cleared status=${receipt.status}`);
+        },
+      }).finally(() => {
+        isUpdatingRangeRef.current = false;
+        setIsUpdatingRange(false);
+      });
+    },
+    [ethersSigner, fheHealthChecker.address, sendTransaction]
+  );
+
+  /**
+   * Read back the encrypted personal range for `metricId` and decrypt both
+   * bounds with a single `userDecrypt` call.
+   */
+  const decryptPersonalRange = useCallback(
+    (metricId: number) => {
+      if (isDecryptingRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      const metric = metrics?.find((m) => m.id === metricId);
+      if (!metric) {
+        setMessage("Unknown metric");
+        return;
+      }
+
+      const thisFheHealthCheckerAddress = fheHealthChecker.address;
+      const thisEthersSigner = ethersSigner;
+      // getPersonalRange() reads msg.sender, so the call must be sent from the signer
+      const thisFheHealthCheckerContract = new ethers.Contract(
+        thisFheHealthCheckerAddress,
+        fheHealthChecker.abi,
+        thisEthersSigner
+      );
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage("Decrypting personal range...");
+
+      const run = async () => {
+        try {
+          const [minHandle, maxHandle]: [string, string] =
+            await thisFheHealthCheckerContract.getPersonalRange(metricId);
+
+          if (minHandle === ethers.ZeroHash) {
+            setPersonalRanges((prev) => ({ ...prev, [metricId]: null }));
+            setMessage("No personal range set, default range applies");
+            return;
+          }
+
+          const res = await decryptHandles([minHandle, maxHandle]);
+          if (!res) {
+            return;
+          }
+
+          const range = {
+            min: fromScaledValue(metric, Number(res[minHandle])),
+            max: fromScaledValue(metric, Number(res[maxHandle])),
+          };
+          setPersonalRanges((prev) => ({ ...prev, [metricId]: range }));
+          setMessage(`Personal range: ${range.min} - ${range.max} ${metric.unit}`);
+        } catch (error) {
+          const healthError = toHealthCheckerError(error);
+          setError(healthError);
+          setMessage(`Decryption failed: ${healthError.message}`);
+        } finally {
+          isDecryptingRef.current = false;
+          setIsDecrypting(false);
+        }
+      };
+
+      run();
+    },
+    [
+      decryptHandles,
+      ethersSigner,
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      instance,
+      metrics,
+    ]
+  );
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Population statistics
+  //////////////////////////////////////////////////////////////////////////////
+
+  // Load the publicly revealed population totals of every registered metric
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersReadonlyProvider || !metrics) {
+      setPopulationStats({});
+      return;
+    }
+
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersReadonlyProvider
+    );
+
+    Promise.all([
+      contract.minStatsSubmitters(),
+      Promise.all(metrics.map((m) => contract.getPopulationStats(m.id))),
+      Promise.all(metrics.map((m) => contract.statsSubmitterCounts(m.id))),
+    ])
+      .then(([threshold, results, submitters]) => {
+        const stats: Record<number, PopulationStats> = {};
+        results.forEach(
+          (r: { normal: bigint; low: bigint; high: bigint; revealedAt: bigint }, i) => {
+            stats[metrics[i].id] = {
+              normal: Number(r.normal),
+              low: Number(r.low),
+              high: Number(r.high),
+              revealedAt: Number(r.revealedAt),
+              submitters: Number(submitters[i]),
+            };
+          }
+        );
+        setPopulationStats(stats);
+        setStatsThreshold(Number(threshold));
+      })
+      .catch((e) => {
+        console.error("Failed to load population statistics:", e);
+      });
+  }, [
+    fheHealthChecker.address,
+    fheHealthChecker.abi,
+    ethersReadonlyProvider,
+    metrics,
+    populationStatsVersion,
+  ]);
+
+  /**
+   * Reload the revealed population totals, e.g. after the owner requested a
+   * new public decryption.
+   */
+  const refreshPopulationStats = useCallback(() => {
+    setPopulationStatsVersion((v) => v + 1);
+  }, []);
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Consent
+  //////////////////////////////////////////////////////////////////////////////
+
+  // The current consent terms and the connected user's consent, reloaded after
+  // giving or withdrawing it
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersReadonlyProvider || !ethersSigner) {
+      setConsentVersion(undefined);
+      setConsent(undefined);
+      return;
+    }
+
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersReadonlyProvider
+    );
+
+    Promise.all([contract.consentVersion(), contract.getConsent(ethersSigner.address)])
+      .then(([version, record]: [string, { version: string; timestamp: bigint }]) => {
+        setConsentVersion(version);
+        setConsent({ version: record.version, timestamp: Number(record.timestamp) });
+      })
+      .catch((e) => {
+        console.error("Failed to load consent:", e);
+      });
+  }, [
+    fheHealthChecker.address,
+    fheHealthChecker.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    consentRecordVersion,
+  ]);
+
+  /**
+   * Whether `CONSENT_TERMS` are the terms the contract currently requires,
+   * undefined while loading.
+   */
+  const consentTermsMatch = useMemo(() => {
+    if (consentVersion === undefined) {
+      return undefined;
+    }
+    return ethers.id(CONSENT_TERMS) === consentVersion;
+  }, [consentVersion]);
+
+  const updateConsent = useCallback(
+    (method: "giveConsent" | "withdrawConsent") => {
+      if (isUpdatingConsentRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !ethersSigner || !consentVersion) {
+        return;
+      }
+
+      const thisConsentVersion = consentVersion;
+
+      isUpdatingConsentRef.current = true;
+      setIsUpdatingConsent(true);
+      setMessage(`Calling ${method}...`);
+
+      sendTransaction({
+        label: "Consent update",
+        send: (contract) =>
+          method === "giveConsent" ? contract.giveConsent(thisConsentVersion) : contract.withdrawConsent(),
+        onTxState: setConsentTx,
+        onMined: (receipt) => {
+          setConsentRecordVersion((v) => v + 1);
+          setMessage(
+            `${method === "giveConsent" ? "Consent recorded" : "Consent withdrawn"} status=${receipt.status}`
+          );
+        },
+      }).finally(() => {
+        isUpdatingConsentRef.current = false;
+        setIsUpdatingConsent(false);
+      });
+    },
+    [ethersSigner, fheHealthChecker.address, consentVersion, sendTransaction]
+  );
+
+  /**
+   * Consent to the current terms. Required before checking any metric or
+   * sharing statuses.
+   */
+  const giveConsent = useCallback(() => updateConsent("giveConsent"), [updateConsent]);
+
+  /**
+   * Withdraw the connected user's consent. Stored data is kept (see
+   * `deleteMyData`), but new checks and sharing are refused until consenting
+   * again.
+   */
+  const withdrawConsent = useCallback(() => updateConsent("withdrawConsent"), [updateConsent]);
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Profile
+  //////////////////////////////////////////////////////////////////////////////
+
+  // Whether the connected user has set a profile, reloaded after setProfile
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersSigner) {
+      setHasProfile(undefined);
+      return;
+    }
+
+    // hasProfile() reads msg.sender, so the call must be sent from the signer
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersSigner
+    );
+
+    contract.hasProfile()
+      .then((value: boolean) => setHasProfile(value))
+      .catch((e) => {
+        console.error("Failed to load profile:", e);
+      });
+  }, [fheHealthChecker.address, fheHealthChecker.abi, ethersSigner, profileVersion]);
+
+  /**
+   * Submit the encrypted profile (age band, sex). The contract then selects
+   * the profile's normal ranges homomorphically; setting it again replaces it.
+   */
+  const setProfile = useCallback(
+    (ageBand: AgeBand, sex: Sex) => {
+      if (isSettingProfileRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      isSettingProfileRef.current = true;
+      setIsSettingProfile(true);
+      setMessage("Encrypting profile...");
+
+      sendTransaction({
+        label: "Profile setup",
+        encrypt: (input) => {
+          input.add8(AGE_BANDS.indexOf(ageBand));
+          input.add8(SEXES.indexOf(sex));
+        },
+        send: (contract, enc) => contract.setProfile(enc.handles[0], enc.handles[1], enc.inputProof),
+        onTxState: setProfileTx,
+        onMined: (receipt) => {
+          setProfileVersion((v) => v + 1);
+          setMessage(`Profile stored status=${receipt.status}`);
+        },
+      }).finally(() => {
+        isSettingProfileRef.current = false;
+        setIsSettingProfile(false);
+      });
+    },
+    [ethersSigner, fheHealthChecker.address, instance, sendTransaction]
+  );
 
-      try {
-        const sig: FhevmDecryptionSignature | null =
-          await FhevmDecryptionSignature.loadOrSign(
-            instance,
-            [fheHealthChecker.address as `0x${string}`],
-            ethersSigner,
-            fhevmDecryptionSignatureStorage
+  //////////////////////////////////////////////////////////////////////////////
+  // Delegated access
+  //////////////////////////////////////////////////////////////////////////////
+
+  // Load the connected user's delegates, reloaded after every grant/revoke
+  useEffect(() => {
+    if (!fheHealthChecker.address || !ethersReadonlyProvider || !ethersSigner) {
+      setDelegations(undefined);
+      return;
+    }
+
+    const contract = new ethers.Contract(
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      ethersReadonlyProvider
+    );
+    const user = ethersSigner.address;
+
+    const load = async () => {
+      const delegates: string[] = await contract.getDelegates(user);
+      return Promise.all(
+        delegates.map(async (delegate) => {
+          const [mask, expiresAt]: [bigint, bigint] = await Promise.all([
+            contract.getDelegatedMetrics(user, delegate),
+            contract.getDelegationExpiry(user, delegate),
+          ]);
+          const metricIds = metricIdsOfMask(mask);
+          return { delegate, metrics: metricIds, expiresAt: Number(expiresAt) };
+        })
+      );
+    };
+
+    load()
+      .then(setDelegations)
+      .catch((e) => {
+        console.error("Failed to load delegates:", e);
+      });
+  }, [
+    fheHealthChecker.address,
+    fheHealthChecker.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    delegationsVersion,
+  ]);
+
+  const updateAccess = useCallback(
+    (
+      method: "grantAccess" | "revokeAccess",
+      delegate: string,
+      metricIds: number[],
+      durationSeconds?: number
+    ) => {
+      if (isUpdatingDelegationRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !ethersSigner) {
+        return;
+      }
+
+      if (!ethers.isAddress(delegate)) {
+        setMessage("Invalid delegate address");
+        return;
+      }
+
+      if (metricIds.length === 0) {
+        setMessage("Select at least one metric");
+        return;
+      }
+
+      isUpdatingDelegationRef.current = true;
+      setIsUpdatingDelegation(true);
+      setMessage(`Calling ${method}...`);
+
+      sendTransaction({
+        label: "Access update",
+        send: async (contract) => {
+          if (method === "revokeAccess") {
+            return contract.revokeAccess(delegate, metricIds);
+          }
+          // Expiry is relative to chain time, which may differ from the local clock
+          const latestBlock = await contract.runner?.provider?.getBlock("latest");
+          const now = latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+          return contract.grantAccess(delegate, metricIds, now + (durationSeconds ?? 0));
+        },
+        onTxState: setDelegationTx,
+        onMined: (receipt) => {
+          setDelegationsVersion((v) => v + 1);
+          setMessage(
+            `${method === "grantAccess" ? "Access granted" : "Access revoked"} status=${receipt.status}`
           );
+        },
+      }).finally(() => {
+        isUpdatingDelegationRef.current = false;
+        setIsUpdatingDelegation(false);
+      });
+    },
+    [ethersSigner, fheHealthChecker.address, sendTransaction]
+  );
 
-        if (!sig) {
-          setMessage("Unable to build FHEVM decryption signature");
-          return;
-        }
+  /**
+   * Share the current and future statuses of `metricIds` with `delegate` for
+   * `durationSeconds`. Granting again replaces the expiry of the delegate.
+   */
+  const grantAccess = useCallback(
+    (delegate: string, metricIds: number[], durationSeconds: number) =>
+      updateAccess("grantAccess", delegate, metricIds, durationSeconds),
+    [updateAccess]
+  );
 
-        if (isStale()) {
-          setMessage("Decryption cancelled");
-          return;
+  /**
+   * Stop sharing future statuses of `metricIds` with `delegate`. Statuses
+   * already shared remain decryptable by the delegate.
+   */
+  const revokeAccess = useCallback(
+    (delegate: string, metricIds: number[]) =>
+      updateAccess("revokeAccess", delegate, metricIds),
+    [updateAccess]
+  );
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Clinician mode
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Load every status `patient` currently shares with the connected account
+   * through `getHealthStatusOf` and decrypt them with a single `userDecrypt`.
+   */
+  const loadPatientStatuses = useCallback(
+    (patient: string) => {
+      if (isDecryptingRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
+        return;
+      }
+
+      if (!ethers.isAddress(patient)) {
+        setMessage("Invalid patient address");
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisFheHealthCheckerAddress = fheHealthChecker.address;
+      const thisEthersSigner = ethersSigner;
+      // getHealthStatusOf() checks the grant of msg.sender, so the calls must be sent from the signer
+      const thisFheHealthCheckerContract = new ethers.Contract(
+        thisFheHealthCheckerAddress,
+        fheHealthChecker.abi,
+        thisEthersSigner
+      );
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setPatientStatuses(undefined);
+      setMessage("Loading patient statuses...");
+
+      const run = async () => {
+        const isStale = () =>
+          thisFheHealthCheckerAddress !== fheHealthCheckerRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const [mask, expiresAt]: [bigint, bigint] = await Promise.all([
+            thisFheHealthCheckerContract.getDelegatedMetrics(patient, thisEthersSigner.address),
+            thisFheHealthCheckerContract.getDelegationExpiry(patient, thisEthersSigner.address),
+          ]);
+
+          const latestBlock = await thisEthersSigner.provider.getBlock("latest");
+          const now = latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+          if (mask === BigInt(0) || Number(expiresAt) <= now) {
+            setMessage("This patient does not currently share any metric with you");
+            return;
+          }
+
+          const metricIds = metricIdsOfMask(mask);
+
+          const handles: string[] = await Promise.all(
+            metricIds.map((id) => thisFheHealthCheckerContract.getHealthStatusOf(patient, id))
+          );
+
+          const statuses: Record<number, HealthStatus> = {};
+          metricIds.forEach((id) => {
+            statuses[id] = "unknown";
+          });
+
+          const checked = metricIds
+            .map((id, i) => ({ id, handle: handles[i] }))
+            .filter((h) => h.handle !== ethers.ZeroHash);
+
+          if (checked.length > 0) {
+            const res = await decryptHandles(
+              checked.map((h) => h.handle),
+              `Decrypting ${checked.length} patient statuses...`
+            );
+            if (!res) {
+              return;
+            }
+
+            checked.forEach((h) => {
+              statuses[h.id] = toHealthStatus(res[h.handle]);
+            });
+          }
+
+          if (isStale()) {
+            reportStale("Decryption cancelled", thisChainId);
+            return;
+          }
+
+          setPatientStatuses({ patient, expiresAt: Number(expiresAt), statuses });
+          setMessage(`Loaded ${metricIds.length} shared metrics`);
+        } catch (error) {
+          const healthError = toHealthCheckerError(error);
+          setError(healthError);
+          setMessage(`Loading patient statuses failed: ${healthError.message}`);
+        } finally {
+          isDecryptingRef.current = false;
+          setIsDecrypting(false);
         }
+      };
 
-        setMessage("Calling FHEVM userDecrypt...");
-
-        // Decrypt the result
-        const res = await instance.userDecrypt(
-          [{ handle: encryptedStatus, contractAddress: thisFheHealthCheckerAddress }],
-          sig.privateKey,
-          sig.publicKey,
-          sig.signature,
-          sig.contractAddresses,
-          sig.userAddress,
-          sig.startTimestamp,
-          sig.durationDays
-        );
+      run();
+    },
+    [
+      decryptHandles,
+      ethersSigner,
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+      reportStale,
+    ]
+  );
 
-        setMessage("Decryption completed!");
+  //////////////////////////////////////////////////////////////////////////////
+  // Composite health score
+  //////////////////////////////////////////////////////////////////////////////
 
-        if (isStale()) {
-          setMessage("Decryption cancelled");
+  /**
+   * Decrypt the composite health score: the number of metrics whose latest
+   * status is abnormal. `null` means no metric has been checked yet.
+   */
+  const decryptHealthScore = useCallback(() => {
+    if (isDecryptingRef.current) {
+      return;
+    }
+
+    if (!fheHealthChecker.address || !instance || !ethersSigner) {
+      return;
+    }
+
+    const thisFheHealthCheckerAddress = fheHealthChecker.address;
+    const thisEthersSigner = ethersSigner;
+    // getHealthScore() reads msg.sender, so the call must be sent from the signer
+    const thisFheHealthCheckerContract = new ethers.Contract(
+      thisFheHealthCheckerAddress,
+      fheHealthChecker.abi,
+      thisEthersSigner
+    );
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Decrypting health score...");
+
+    const run = async () => {
+      try {
+        const scoreHandle: string = await thisFheHealthCheckerContract.getHealthScore();
+
+        if (scoreHandle === ethers.ZeroHash) {
+          setHealthScore(null);
+          setMessage("No health check recorded yet");
           return;
         }
 
-        const statusValue = res[encryptedStatus];
-        const numericValue = Number(statusValue);
-        const statusText = numericValue === 0 ? "normal" : numericValue === 1 ? "low" : "high";
-
-        setHealthStatus(statusText as HealthStatus);
-        setMessage(`Health status: ${statusText.toUpperCase()}`);
+        const res = await decryptHandles([scoreHandle]);
+        if (!res) {
+          return;
+        }
 
+        const score = Number(res[scoreHandle]);
+        setHealthScore(score);
+        setMessage(`Health score: ${score} abnormal metric(s)`);
       } catch (error) {
-        setMessage(`Decryption failed: ${error}`);
+        const healthError = toHealthCheckerError(error);
+        setError(healthError);
+        setMessage(`Decryption failed: ${healthError.message}`);
       } finally {
         isDecryptingRef.current = false;
         setIsDecrypting(false);
@@ -393,164 +2243,294 @@ export const useFHEHealthChecker = (parameters: {
 
     run();
   }, [
-    fhevmDecryptionSignatureStorage,
+    decryptHandles,
     ethersSigner,
     fheHealthChecker.address,
+    fheHealthChecker.abi,
     instance,
-    encryptedStatus,
-    healthStatus,
-    chainId,
-    sameChain,
-    sameSigner,
   ]);
 
-  const checkHealthMetric = useCallback(
-    async (metricId: number, value: number) => {
-      if (!instance || !fheHealthChecker.address || !ethersSigner || !ethersReadonlyProvider) {
-        setMessage("FHEVM instance or contract not ready");
+  //////////////////////////////////////////////////////////////////////////////
+  // Trend
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Decrypt the trend of the latest `metricId` reading compared to the
+   * previous one.
+   */
+  const decryptTrend = useCallback(
+    (metricId: number) => {
+      if (isDecryptingRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
         return;
       }
 
-      const thisChainId = chainId;
       const thisFheHealthCheckerAddress = fheHealthChecker.address;
       const thisEthersSigner = ethersSigner;
+      // getTrend() reads msg.sender, so the call must be sent from the signer
       const thisFheHealthCheckerContract = new ethers.Contract(
         thisFheHealthCheckerAddress,
         fheHealthChecker.abi,
         thisEthersSigner
       );
 
-      // Validate input ranges based on metric
-      const ranges = {
-        0: { min: 50, max: 250, name: "Blood Pressure" }, // mmHg
-        1: { min: 40, max: 200, name: "Heart Rate" }, // bpm
-        2: { min: 40, max: 400, name: "Blood Glucose" }, // mg/dL
-        3: { min: 320, max: 420, name: "Body Temperature" }, // x10 (32.0-42.0°C)
-        4: { min: 80, max: 100, name: "Blood Oxygen" } // %
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage("Decrypting trend...");
+
+      const run = async () => {
+        try {
+          const trendHandle: string = await thisFheHealthCheckerContract.getTrend(metricId);
+
+          if (trendHandle === ethers.ZeroHash) {
+            setTrends((prev) => ({ ...prev, [metricId]: "unknown" }));
+            setMessage("No reading recorded for this metric yet");
+            return;
+          }
+
+          const res = await decryptHandles([trendHandle]);
+          if (!res) {
+            return;
+          }
+
+          const trend = toHealthTrend(res[trendHandle]);
+          setTrends((prev) => ({ ...prev, [metricId]: trend }));
+          setMessage(`Trend: ${trend.toUpperCase()}`);
+        } catch (error) {
+          const healthError = toHealthCheckerError(error);
+          setError(healthError);
+          setMessage(`Decryption failed: ${healthError.message}`);
+        } finally {
+          isDecryptingRef.current = false;
+          setIsDecrypting(false);
+        }
       };
 
-      const range = ranges[metricId as keyof typeof ranges];
-      if (!range) {
-        setMessage("Unknown metric");
+      run();
+    },
+    [
+      decryptHandles,
+      ethersSigner,
+      fheHealthChecker.address,
+      fheHealthChecker.abi,
+      instance,
+    ]
+  );
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Health history
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Fetch the most recent `HEALTH_HISTORY_PAGE_SIZE` history entries of
+   * `metricId` and decrypt all their statuses and readings with a single
+   * `userDecrypt` call. Entries are stored oldest first.
+   */
+  const loadHealthHistory = useCallback(
+    (metricId: number) => {
+      if (isDecryptingRef.current) {
         return;
       }
 
-      if (value < range.min || value > range.max) {
-        setMessage(`${range.name} value must be between ${range.min} and ${range.max}`);
+      if (!fheHealthChecker.address || !instance || !ethersSigner) {
         return;
       }
 
-      isCheckingRef.current = true;
-      setIsChecking(true);
-      setMessage(`Checking ${range.name}: ${value}...`);
-
-      const run = async () => {
-        await new Promise((resolve) => setTimeout(resolve, 100));
+      const thisFheHealthCheckerAddress = fheHealthChecker.address;
+      const thisEthersSigner = ethersSigner;
+      // the history views read msg.sender, so the calls must be sent from the signer
+      const thisFheHealthCheckerContract = new ethers.Contract(
+        thisFheHealthCheckerAddress,
+        fheHealthChecker.abi,
+        thisEthersSigner
+      );
 
-        const isStale = () =>
-          thisFheHealthCheckerAddress !== fheHealthCheckerRef.current?.address ||
-          !sameChain.current(thisChainId) ||
-          !sameSigner.current(thisEthersSigner);
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage("Loading health history...");
 
+      const run = async () => {
         try {
-          // Create encrypted input
-          const input = instance.createEncryptedInput(
-            thisFheHealthCheckerAddress,
-            thisEthersSigner.address
+          const length = Number(
+            await thisFheHealthCheckerContract.getHealthHistoryLength(metricId)
           );
-          input.add32(value);
-
-          // Encrypt (CPU-intensive)
-          const enc = await input.encrypt();
-
-          if (isStale()) {
-            setMessage("Check cancelled");
+          const offset = Math.max(0, length - HEALTH_HISTORY_PAGE_SIZE);
+          const records: {
+            status: string;
+            value: string;
+            timestamp: bigint;
+            rangeVersion: bigint;
+            bloodPressureCategory: string;
+          }[] =
+            length === 0
+              ? []
+              : await thisFheHealthCheckerContract.getHealthHistory(
+                  metricId,
+                  offset,
+                  HEALTH_HISTORY_PAGE_SIZE
+                );
+
+          if (records.length === 0) {
+            setHealthHistories((prev) => ({ ...prev, [metricId]: [] }));
+            setMessage("No health history for this metric yet");
             return;
           }
 
-          setMessage(`Calling check function...`);
-
-          // Call appropriate contract function
-          let tx: ethers.TransactionResponse;
-          switch (metricId) {
-            case 0:
-              tx = await thisFheHealthCheckerContract.checkBloodPressure(enc.handles[0], enc.inputProof);
-              break;
-            case 1:
-              tx = await thisFheHealthCheckerContract.checkHeartRate(enc.handles[0], enc.inputProof);
-              break;
-            case 2:
-              tx = await thisFheHealthCheckerContract.checkBloodGlucose(enc.handles[0], enc.inputProof);
-              break;
-            case 3:
-              tx = await thisFheHealthCheckerContract.checkBodyTemperature(enc.handles[0], enc.inputProof);
-              break;
-            case 4:
-              tx = await thisFheHealthCheckerContract.checkBloodOxygen(enc.handles[0], enc.inputProof);
-              break;
-            default:
-              throw new Error("Unknown metric");
-          }
-
-          setMessage(`Wait for tx:${tx.hash}...`);
-
-          const receipt = await tx.wait();
-
-          setMessage(`Check completed status=${receipt?.status}`);
-
-          if (isStale()) {
-            setMessage("Check cancelled");
+          const res = await decryptHandles(
+            records.flatMap((r) => [
+              r.status,
+              r.value,
+              ...(r.bloodPressureCategory !== ethers.ZeroHash ? [r.bloodPressureCategory] : []),
+            ]),
+            `Decrypting ${records.length} history entries...`
+          );
+          if (!res) {
             return;
           }
 
-          // Get the encrypted health status from the contract
-          const readonlyContract = new ethers.Contract(
-            thisFheHealthCheckerAddress,
-            fheHealthChecker.abi,
-            ethersReadonlyProvider
-          );
-
-          const encryptedResult = await readonlyContract.getHealthStatus(metricId);
-          setEncryptedStatus(encryptedResult);
-          setHasChecked(true);
-
-          setMessage("Health check completed! Click 'Decrypt Result' to see the status.");
-
+          const entries: HealthHistoryEntry[] = records.map((r) => ({
+            status: toHealthStatus(res[r.status]),
+            value: Number(res[r.value]),
+            timestamp: Number(r.timestamp),
+            rangeVersion: Number(r.rangeVersion),
+            bloodPressureCategory:
+              r.bloodPressureCategory !== ethers.ZeroHash
+                ? toBloodPressureCategory(res[r.bloodPressureCategory])
+                : undefined,
+          }));
+          setHealthHistories((prev) => ({ ...prev, [metricId]: entries }));
+          setMessage(`Loaded ${entries.length} of ${length} history entries`);
         } catch (error) {
-          setMessage(`Check failed: ${error}`);
+          const healthError = toHealthCheckerError(error);
+          setError(healthError);
+          setMessage(`Loading health history failed: ${healthError.message}`);
         } finally {
-          isCheckingRef.current = false;
-          setIsChecking(false);
+          isDecryptingRef.current = false;
+          setIsDecrypting(false);
         }
       };
 
       run();
     },
     [
+      decryptHandles,
       ethersSigner,
       fheHealthChecker.address,
       fheHealthChecker.abi,
       instance,
-      chainId,
-      sameChain,
-      sameSigner,
-      ethersReadonlyProvider
     ]
   );
 
+  //////////////////////////////////////////////////////////////////////////////
+  // Data deletion
+  //////////////////////////////////////////////////////////////////////////////
+
+  /**
+   * Delete the connected user's stored data of `metricIds` (statuses, trends,
+   * history, personal ranges) with `deleteMyData`, which also revokes the metrics
+   * from every delegate, and drop the matching decrypted values. The profile and
+   * attestations are only deleted with `deleteAccountData`. The health score
+   * changes, so it must be decrypted again.
+   */
+  const deleteMyData = useCallback(
+    (metricIds: number[], deleteAccountData: boolean) => {
+      if (isDeletingDataRef.current) {
+        return;
+      }
+
+      if (!fheHealthChecker.address || !ethersSigner) {
+        return;
+      }
+
+      if (metricIds.length === 0 && !deleteAccountData) {
+        setMessage("Select at least one metric or your profile to delete");
+        return;
+      }
+
+      isDeletingDataRef.current = true;
+      setIsDeletingData(true);
+      setMessage("Calling deleteMyData...");
+
+      sendTransaction({
+        label: "Deletion",
+        send: (contract) => contract.deleteMyData(metricIds, deleteAccountData),
+        onTxState: setDeleteDataTx,
+        onMined: (receipt) => {
+          metricIds.forEach((id) => handlesWrittenRef.current.add(id));
+          setMetricStates((prev) => withoutMetrics(prev, metricIds));
+          dropDeletedData(metricIds);
+          setMessage(`Health data deleted status=${receipt.status}`);
+        },
+      }).finally(() => {
+        isDeletingDataRef.current = false;
+        setIsDeletingData(false);
+      });
+    },
+    [ethersSigner, fheHealthChecker.address, sendTransaction, dropDeletedData]
+  );
+
   return {
     contractAddress: fheHealthChecker.address,
     canCheckBP,
-    canDecryptStatus,
     checkBloodPressure,
+    checkBloodPressureFull,
     checkHealthMetric,
+    checkAllMetrics,
     decryptHealthStatus,
+    decryptAllStatuses,
+    canDecryptAll,
     isChecking,
     isDecrypting,
     message,
-    healthStatus,
+    error,
+    clearError,
+    metricStates,
+    getMetricState,
     bloodPressureRanges,
+    metrics,
+    rangesVersion,
     isDeployed,
-    hasChecked
+    personalRanges,
+    isUpdatingRange,
+    rangeTxs,
+    setPersonalRange,
+    clearPersonalRange,
+    decryptPersonalRange,
+    hasProfile,
+    isSettingProfile,
+    profileTx,
+    setProfile,
+    delegations,
+    isUpdatingDelegation,
+    delegationTx,
+    grantAccess,
+    revokeAccess,
+    patientStatuses,
+    loadPatientStatuses,
+    populationStats,
+    statsThreshold,
+    refreshPopulationStats,
+    healthScore,
+    decryptHealthScore,
+    bloodPressureCategory,
+    decryptBloodPressureCategory,
+    trends,
+    decryptTrend,
+    healthHistories,
+    loadHealthHistory,
+    isDeletingData,
+    deleteDataTx,
+    deleteMyData,
+    consentVersion,
+    consent,
+    hasConsent,
+    consentTermsMatch,
+    isUpdatingConsent,
+    consentTx,
+    giveConsent,
+    withdrawConsent
   };
 };